@@ -13,6 +13,7 @@ import LoginModal from "@/components/LoginModal";
 import useAuthStore from "@/stores/authStore";
 import { useUpdateStore, initUpdateStore } from "@/stores/updateStore";
 import { UpdateModal } from "@/components/UpdateModal";
+import { PlayerHost } from "@/components/PlayerHost";
 import { UPDATE_CONFIG } from "@/constants/UpdateConfig";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import Logger from '@/utils/Logger';
@@ -94,6 +95,8 @@ export default function RootLayout() {
             <Stack.Screen name="favorites" options={{ headerShown: false }} />
             <Stack.Screen name="+not-found" />
           </Stack>
+          {/* 播放器不随播放页卸载，离开播放页后以小窗继续播放 */}
+          {Platform.OS !== "web" && <PlayerHost />}
         </View>
         <Toast />
         <LoginModal />
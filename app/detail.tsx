@@ -8,7 +8,9 @@ import VideoLoadingAnimation from "@/components/VideoLoadingAnimation";
 import useDetailStore from "@/stores/detailStore";
 import { FontAwesome } from "@expo/vector-icons";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { usePlayQueue } from "@/hooks/usePlayQueue";
 import { getCommonResponsiveStyles } from "@/utils/ResponsiveStyles";
+import { formatThroughput } from "@/services/speedTest";
 import ResponsiveNavigation from "@/components/navigation/ResponsiveNavigation";
 import ResponsiveHeader from "@/components/navigation/ResponsiveHeader";
 
@@ -33,6 +35,7 @@ export default function DetailScreen() {
     isFavorited,
     toggleFavorite,
   } = useDetailStore();
+  const { addToQueue } = usePlayQueue();
 
   useEffect(() => {
     if (q) {
@@ -58,6 +61,11 @@ export default function DetailScreen() {
     });
   };
 
+  const handleAddToQueue = () => {
+    if (!detail) return;
+    addToQueue({ source: detail.source, id: detail.id.toString(), title: detail.title, poster: detail.poster });
+  };
+
   if (loading) {
     return <VideoLoadingAnimation showProgressBar={false} />;
   }
@@ -125,6 +133,9 @@ export default function DetailScreen() {
                     color={isFavorited ? "#feff5f" : "#ccc"}
                   />
                 </StyledButton>
+                <StyledButton onPress={handleAddToQueue} variant="ghost" style={dynamicStyles.favoriteButton}>
+                  <FontAwesome name="list-ul" size={20} color="#ccc" />
+                </StyledButton>
               </View>
               <View style={dynamicStyles.metaContainer}>
                 <ThemedText style={dynamicStyles.metaText}>{detail.year}</ThemedText>
@@ -145,11 +156,11 @@ export default function DetailScreen() {
               {!allSourcesLoaded && <ActivityIndicator style={{ marginLeft: 10 }} />}
             </View>
             <View style={dynamicStyles.sourceList}>
-              {searchResults.map((item, index) => {
+              {searchResults.map((item) => {
                 const isSelected = detail?.source === item.source;
                 return (
                   <StyledButton
-                    key={index}
+                    key={item.source}
                     onPress={() => setDetail(item)}
                     isSelected={isSelected}
                     style={dynamicStyles.sourceButton}
@@ -173,7 +184,7 @@ export default function DetailScreen() {
                         <Text style={dynamicStyles.badgeText}>{item.resolution}</Text>
                       </View>
                     )}
-                    {item.pingTime && (
+                    {item.throughput && (
                       <View
                         style={[
                           dynamicStyles.badge,
@@ -181,7 +192,7 @@ export default function DetailScreen() {
                           isSelected && dynamicStyles.selectedBadge,
                         ]}
                       >
-                        <Text style={dynamicStyles.badgeText}>{item.pingTime}ms</Text>
+                        <Text style={dynamicStyles.badgeText}>{formatThroughput(item.throughput)}</Text>
                       </View>
                     )}
                     {item.score && (
@@ -195,6 +206,7 @@ export default function DetailScreen() {
                         <Text style={dynamicStyles.badgeText}>{Math.round(item.score)}pt</Text>
                       </View>
                     )}
+                    {item.isProbing && <ActivityIndicator size="small" style={dynamicStyles.probingIndicator} />}
                   </StyledButton>
                 );
               })}
@@ -236,6 +248,9 @@ export default function DetailScreen() {
                     color={isFavorited ? "#feff5f" : "#ccc"}
                   />
                 </StyledButton>
+                <StyledButton onPress={handleAddToQueue} variant="ghost" style={dynamicStyles.favoriteButton}>
+                  <FontAwesome name="list-ul" size={24} color="#ccc" />
+                </StyledButton>
               </View>
               <View style={dynamicStyles.metaContainer}>
                 <ThemedText style={dynamicStyles.metaText}>{detail.year}</ThemedText>
@@ -259,7 +274,7 @@ export default function DetailScreen() {
                   const isSelected = detail?.source === item.source;
                   return (
                     <StyledButton
-                      key={index}
+                      key={item.source}
                       onPress={() => setDetail(item)}
                       hasTVPreferredFocus={index === 0}
                       isSelected={isSelected}
@@ -284,7 +299,7 @@ export default function DetailScreen() {
                           <Text style={dynamicStyles.badgeText}>{item.resolution}</Text>
                         </View>
                       )}
-                      {item.pingTime && (
+                      {item.throughput && (
                         <View
                           style={[
                             dynamicStyles.badge,
@@ -292,7 +307,7 @@ export default function DetailScreen() {
                             isSelected && dynamicStyles.selectedBadge,
                           ]}
                         >
-                          <Text style={dynamicStyles.badgeText}>{item.pingTime}ms</Text>
+                          <Text style={dynamicStyles.badgeText}>{formatThroughput(item.throughput)}</Text>
                         </View>
                       )}
                       {item.score && (
@@ -306,6 +321,7 @@ export default function DetailScreen() {
                           <Text style={dynamicStyles.badgeText}>{Math.round(item.score)}pt</Text>
                         </View>
                       )}
+                      {item.isProbing && <ActivityIndicator size="small" style={dynamicStyles.probingIndicator} />}
                     </StyledButton>
                   );
                 })}
@@ -478,6 +494,9 @@ const createResponsiveStyles = (deviceType: string, spacing: number) => {
     selectedBadge: {
       backgroundColor: "#4c4c4c",
     },
+    probingIndicator: {
+      marginLeft: 8,
+    },
 
     episodesContainer: {
       marginTop: spacing,
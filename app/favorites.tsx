@@ -11,9 +11,12 @@ import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { getCommonResponsiveStyles } from "@/utils/ResponsiveStyles";
 import ResponsiveNavigation from "@/components/navigation/ResponsiveNavigation";
 import ResponsiveHeader from "@/components/navigation/ResponsiveHeader";
+import { StyledButton } from "@/components/StyledButton";
+import { usePlayQueue } from "@/hooks/usePlayQueue";
 
 export default function FavoritesScreen() {
   const { favorites, loading, error, fetchFavorites } = useFavoritesStore();
+  const { playAll } = usePlayQueue();
 
   // 响应式布局配置
   const responsiveConfig = useResponsiveLayout();
@@ -41,14 +44,26 @@ export default function FavoritesScreen() {
     );
   };
 
+  const handlePlayAll = () => {
+    playAll(
+      favorites.map((item) => {
+        const [source, id] = item.key.split("+");
+        return { source, id, title: item.title, poster: item.cover };
+      })
+    );
+  };
+
   // 动态样式
   const dynamicStyles = createResponsiveStyles(deviceType, spacing);
 
   const renderFavoritesContent = () => (
     <>
-      {deviceType === 'tv' && (
+      {(deviceType === 'tv' || favorites.length > 0) && (
         <View style={dynamicStyles.headerContainer}>
-          <ThemedText style={dynamicStyles.headerTitle}>我的收藏</ThemedText>
+          {deviceType === 'tv' && <ThemedText style={dynamicStyles.headerTitle}>我的收藏</ThemedText>}
+          {favorites.length > 0 && (
+            <StyledButton text="全部播放" onPress={handlePlayAll} style={dynamicStyles.playAllButton} />
+          )}
         </View>
       )}
       <CustomScrollView
@@ -103,5 +118,10 @@ const createResponsiveStyles = (deviceType: string, spacing: number) => {
       paddingTop: spacing,
       color: 'white',
     },
+    playAllButton: {
+      marginLeft: "auto",
+      paddingVertical: isMobile ? 6 : 10,
+      paddingHorizontal: spacing,
+    },
   });
 };
@@ -1,18 +1,56 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { View, FlatList, StyleSheet, ActivityIndicator, Modal, useTVEventHandler, HWEvent, Text } from "react-native";
+import { AVPlaybackStatus } from "expo-av";
 import LivePlayer from "@/components/LivePlayer";
-import { fetchAndParseM3u, getPlayableUrl, Channel } from "@/services/m3u";
+import { EpgGuideModal } from "@/components/EpgGuideModal";
+import Toast from "react-native-toast-message";
+import {
+  getPlayableUrl,
+  getChannelKey,
+  getChannelUrls,
+  buildVideoSource,
+  Channel,
+  M3UPlaylist,
+} from "@/services/m3u";
+import { LiveMirrorManager, LiveChannelManager, LiveChannelState } from "@/services/storage";
+import { fetchAndMergeLiveSources, loadCachedLiveSources } from "@/services/liveSources";
+import { getNowNext, EpgProgramme } from "@/services/epg";
+import { buildCatchupUrl, isCatchupAvailable } from "@/services/catchup";
 import { ThemedView } from "@/components/ThemedView";
+import { ThemedText } from "@/components/ThemedText";
 import { StyledButton } from "@/components/StyledButton";
 import { useSettingsStore } from "@/stores/settingsStore";
+import useEpgStore from "@/stores/epgStore";
 import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
 import { getCommonResponsiveStyles } from "@/utils/ResponsiveStyles";
 import ResponsiveNavigation from "@/components/navigation/ResponsiveNavigation";
 import ResponsiveHeader from "@/components/navigation/ResponsiveHeader";
 import { DeviceUtils } from "@/utils/DeviceUtils";
 
+const EPG_CLOCK_INTERVAL = 30 * 1000; // 节目信息刷新间隔
+const CATCHUP_REWIND_STEP = 10 * 60 * 1000; // 无节目单时长按左/右键每次时移 10 分钟
+const CATCHUP_OPEN_DURATION = 24 * 60 * 60 * 1000; // 时移到没有节目单的时段时，回看地址的时长足够一直播放到直播的进度
+const RECENT_DWELL_TIME = 5000; // 停留超过 5 秒才记入最近观看，避免快速换台刷屏
+const CHANNEL_NUMBER_DELAY = 2000; // 输入频道号后停顿 2 秒自动换台
+const FAVORITES_GROUP = "收藏";
+const RECENT_GROUP = "最近观看";
+
+interface CatchupSession {
+  start: number;
+  stop: number;
+  title?: string;
+}
+
+const formatClock = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+};
+
+const formatChannelTitle = (channel: Channel) => (channel.number ? `${channel.number} ${channel.name}` : channel.name);
+
 export default function LiveScreen() {
-  const { m3uUrl } = useSettingsStore();
+  const { liveSources } = useSettingsStore();
+  const { programmesByChannel, loadEpg } = useEpgStore();
   
   // 响应式布局配置
   const responsiveConfig = useResponsiveLayout();
@@ -22,44 +60,228 @@ export default function LiveScreen() {
   const [channels, setChannels] = useState<Channel[]>([]);
   const [groupedChannels, setGroupedChannels] = useState<Record<string, Channel[]>>({});
   const [channelGroups, setChannelGroups] = useState<string[]>([]);
+  const [groupSources, setGroupSources] = useState<Record<string, string[]>>({});
+  const [staleSources, setStaleSources] = useState<string[]>([]);
   const [selectedGroup, setSelectedGroup] = useState<string>("");
 
   const [currentChannelIndex, setCurrentChannelIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isChannelListVisible, setIsChannelListVisible] = useState(false);
+  const [isGuideVisible, setIsGuideVisible] = useState(false);
   const [channelTitle, setChannelTitle] = useState<string | null>(null);
   const titleTimer = useRef<NodeJS.Timeout | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [catchupSession, setCatchupSession] = useState<CatchupSession | null>(null);
+  const catchupPositionRef = useRef(0); // 当前回看已经播放的时长（毫秒）
+  const preferredMirrorsRef = useRef<Record<string, string>>({});
+  const [channelState, setChannelState] = useState<LiveChannelState>({ favorites: [], recent: [] });
+  const [channelNumberInput, setChannelNumberInput] = useState("");
+  const lastChannelIdRef = useRef<string | undefined>(undefined);
+  const previousChannelIdRef = useRef<string | undefined>(undefined);
+
+  const enabledSources = useMemo(() => liveSources.filter((source) => source.enabled && source.url), [liveSources]);
+  // 最短的定时刷新间隔（分钟），所有源都为 0（不缓存）时不启动定时器
+  const autoRefreshInterval = useMemo(
+    () =>
+      enabledSources.reduce(
+        (min, source) =>
+          source.refreshInterval > 0 && (min === 0 || source.refreshInterval < min) ? source.refreshInterval : min,
+        0
+      ),
+    [enabledSources]
+  );
+
+  // 收藏与最近观看作为额外的分组显示在最前面
+  const channelsByKey = useMemo(() => new Map(channels.map((channel) => [getChannelKey(channel), channel])), [channels]);
+  const pseudoGroups = useMemo(() => {
+    const resolve = (keys: string[]) =>
+      keys.map((key) => channelsByKey.get(key)).filter((channel): channel is Channel => !!channel);
+    const groups: Record<string, Channel[]> = {
+      [FAVORITES_GROUP]: resolve(channelState.favorites),
+      [RECENT_GROUP]: resolve(channelState.recent),
+    };
+    return groups;
+  }, [channelsByKey, channelState]);
+  const displayedGroups = useMemo(
+    () => [
+      ...[FAVORITES_GROUP, RECENT_GROUP].filter((group) => pseudoGroups[group].length > 0),
+      ...channelGroups,
+    ],
+    [pseudoGroups, channelGroups]
+  );
+  const getGroupChannels = (group: string) =>
+    group === FAVORITES_GROUP || group === RECENT_GROUP ? pseudoGroups[group] : groupedChannels[group] || [];
 
-  const selectedChannelUrl = channels.length > 0 ? getPlayableUrl(channels[currentChannelIndex].url) : null;
+  const currentChannel = channels[currentChannelIndex];
+  const currentChannelId = currentChannel?.id;
+  const currentChannelIdRef = useRef(currentChannelId);
+  currentChannelIdRef.current = currentChannelId;
+  const maxChannelNumberDigits = useMemo(
+    () => String(channels.reduce((max, channel) => Math.max(max, channel.number || 0), 0)).length,
+    [channels]
+  );
+  // 上次播放成功的镜像排在最前面
+  const channelMirrors = useMemo(() => {
+    if (!currentChannel) return [];
+    const urls = getChannelUrls(currentChannel);
+    const preferred = preferredMirrorsRef.current[getChannelKey(currentChannel)];
+    return preferred && urls.includes(preferred) ? [preferred, ...urls.filter((url) => url !== preferred)] : urls;
+  }, [currentChannel]);
+  const streamSources = useMemo(
+    () =>
+      channelMirrors.flatMap((mirror) => {
+        const streamUrl = getPlayableUrl(
+          catchupSession && currentChannel
+            ? buildCatchupUrl({ ...currentChannel, url: mirror }, catchupSession.start, catchupSession.stop)
+            : mirror
+        );
+        return streamUrl
+          ? [{ mirror, video: buildVideoSource(streamUrl, currentChannel?.streamOptions?.[mirror]) }]
+          : [];
+      }),
+    [channelMirrors, currentChannel, catchupSession]
+  );
+  const streams = useMemo(() => streamSources.map((source) => source.video), [streamSources]);
+  const catchupLabel = catchupSession
+    ? `回看 ${formatClock(catchupSession.start)}${catchupSession.title ? ` ${catchupSession.title}` : ""}`
+    : null;
+  const currentProgramme = useMemo(
+    () => (currentChannelId ? getNowNext(programmesByChannel[currentChannelId], now) : undefined),
+    [currentChannelId, programmesByChannel, now]
+  );
 
   useEffect(() => {
-    const loadChannels = async () => {
-      if (!m3uUrl) return;
-      setIsLoading(true);
-      const parsedChannels = await fetchAndParseM3u(m3uUrl);
-      setChannels(parsedChannels);
+    const clock = setInterval(() => setNow(Date.now()), EPG_CLOCK_INTERVAL);
+    return () => clearInterval(clock);
+  }, []);
 
-      const groups: Record<string, Channel[]> = parsedChannels.reduce((acc, channel) => {
+  const applyPlaylist = useCallback(
+    (playlist: M3UPlaylist, keepCurrentChannel: boolean, resumeChannelKey?: string) => {
+      const { channels: parsedChannels, epgUrls } = playlist;
+      const groups: Record<string, Channel[]> = {};
+      const sourcesByGroup: Record<string, string[]> = {};
+      parsedChannels.forEach((channel) => {
         const groupName = channel.group || "Other";
-        if (!acc[groupName]) {
-          acc[groupName] = [];
+        if (!groups[groupName]) {
+          groups[groupName] = [];
+          sourcesByGroup[groupName] = [];
+        }
+        groups[groupName].push(channel);
+        if (channel.sourceName && !sourcesByGroup[groupName].includes(channel.sourceName)) {
+          sourcesByGroup[groupName].push(channel.sourceName);
         }
-        acc[groupName].push(channel);
-        return acc;
-      }, {} as Record<string, Channel[]>);
+      });
 
       const groupNames = Object.keys(groups);
+      // 刷新时保持当前频道不变，首次进入时恢复上次观看的频道
+      const previousId = keepCurrentChannel ? currentChannelIdRef.current : undefined;
+      const keptIndex = previousId
+        ? parsedChannels.findIndex((c) => c.id === previousId)
+        : parsedChannels.findIndex((c) => getChannelKey(c) === resumeChannelKey);
+      const startIndex = keptIndex !== -1 ? keptIndex : 0;
+      setChannels(parsedChannels);
+      setCurrentChannelIndex(startIndex);
       setGroupedChannels(groups);
       setChannelGroups(groupNames);
-      setSelectedGroup(groupNames[0] || "");
+      setGroupSources(sourcesByGroup);
+      setSelectedGroup((group) => {
+        if (keepCurrentChannel && (groups[group] || group === FAVORITES_GROUP || group === RECENT_GROUP)) {
+          return group;
+        }
+        return parsedChannels[startIndex]?.group || groupNames[0] || "";
+      });
+
+      if (!keepCurrentChannel && parsedChannels.length > 0) {
+        showChannelTitle(formatChannelTitle(parsedChannels[startIndex]));
+      }
+      loadEpg(epgUrls, parsedChannels);
+    },
+    [loadEpg]
+  );
 
-      if (parsedChannels.length > 0) {
-        showChannelTitle(parsedChannels[0].name);
+  const loadChannels = useCallback(
+    async (isRefresh = false) => {
+      if (enabledSources.length === 0) {
+        setChannels([]);
+        setGroupedChannels({});
+        setChannelGroups([]);
+        setGroupSources({});
+        setStaleSources([]);
+        return;
       }
+      let resumeChannelKey: string | undefined;
+      let hasCachedChannels = false;
+      if (!isRefresh) {
+        setIsLoading(true);
+        const [mirrors, savedState, cachedPlaylist] = await Promise.all([
+          LiveMirrorManager.getAll(),
+          LiveChannelManager.get(),
+          loadCachedLiveSources(enabledSources),
+        ]);
+        preferredMirrorsRef.current = mirrors;
+        setChannelState(savedState);
+        resumeChannelKey = savedState.lastChannel;
+        // 先显示磁盘缓存的频道，再在后台校验更新
+        if (cachedPlaylist && cachedPlaylist.channels.length > 0) {
+          applyPlaylist(cachedPlaylist, false, resumeChannelKey);
+          setIsLoading(false);
+          hasCachedChannels = true;
+        }
+      }
+
+      // 定时刷新也不强制拉取，由各源自己的刷新间隔决定是否过期
+      const playlist = await fetchAndMergeLiveSources(enabledSources);
+      applyPlaylist(playlist, isRefresh || hasCachedChannels, resumeChannelKey);
       setIsLoading(false);
-    };
+      setStaleSources(playlist.staleSources);
+      if (playlist.staleSources.length > 0) {
+        Toast.show({
+          type: "info",
+          text1: "直播源暂时无法更新",
+          text2: `${playlist.staleSources.join("、")} 正在使用离线缓存`,
+        });
+      }
+    },
+    [enabledSources, applyPlaylist]
+  );
+
+  useEffect(() => {
     loadChannels();
-  }, [m3uUrl]);
+  }, [loadChannels]);
+
+  useEffect(() => {
+    if (autoRefreshInterval <= 0) return;
+    const timer = setInterval(() => loadChannels(true), autoRefreshInterval * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [autoRefreshInterval, loadChannels]);
+
+  useEffect(() => {
+    if (!currentChannel) return;
+    const channelKey = getChannelKey(currentChannel);
+    const timer = setTimeout(async () => {
+      setChannelState(await LiveChannelManager.addRecent(channelKey));
+    }, RECENT_DWELL_TIME);
+    return () => clearTimeout(timer);
+    // 只在切换频道时记录，定时刷新产生的新对象不重复记录
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentChannelId]);
+
+  const isFavorite = (channel: Channel) => channelState.favorites.includes(getChannelKey(channel));
+
+  const toggleFavorite = async (channel: Channel) => {
+    setChannelState(await LiveChannelManager.toggleFavorite(getChannelKey(channel)));
+  };
+
+  const handleMirrorResolved = useCallback(
+    (index: number) => {
+      const source = streamSources[index];
+      if (!currentChannel || !source) return;
+      const channelKey = getChannelKey(currentChannel);
+      preferredMirrorsRef.current[channelKey] = source.mirror;
+      LiveMirrorManager.save(channelKey, source.mirror);
+    },
+    [currentChannel, streamSources]
+  );
 
   const showChannelTitle = (title: string) => {
     setChannelTitle(title);
@@ -71,11 +293,95 @@ export default function LiveScreen() {
     const globalIndex = channels.findIndex((c) => c.id === channel.id);
     if (globalIndex !== -1) {
       setCurrentChannelIndex(globalIndex);
-      showChannelTitle(channel.name);
+      setCatchupSession(null);
+      showChannelTitle(formatChannelTitle(channel));
       setIsChannelListVisible(false);
+      setIsGuideVisible(false);
     }
   };
 
+  const handlePlayCatchup = (channel: Channel, programme: EpgProgramme) => {
+    handleSelectChannel(channel);
+    setCatchupSession({ start: programme.start, stop: programme.stop, title: programme.title });
+  };
+
+  useEffect(() => {
+    catchupPositionRef.current = 0;
+  }, [catchupSession]);
+
+  const handlePlaybackStatusUpdate = useCallback((status: AVPlaybackStatus) => {
+    if (status.isLoaded) {
+      catchupPositionRef.current = status.positionMillis;
+    }
+  }, []);
+
+  // 没有节目单时也可以按固定步长时移，从正在播放的时间点前后移动，追上直播即恢复直播
+  const shiftCatchup = useCallback(
+    (direction: "back" | "forward") => {
+      if (!currentChannel?.catchup) return;
+      const currentTime = Date.now();
+      const playingAt = catchupSession ? catchupSession.start + catchupPositionRef.current : currentTime;
+      const start = playingAt + (direction === "back" ? -CATCHUP_REWIND_STEP : CATCHUP_REWIND_STEP);
+      if (start >= currentTime) {
+        setCatchupSession(null);
+        showChannelTitle(formatChannelTitle(currentChannel));
+        return;
+      }
+      if (!isCatchupAvailable(currentChannel, start, currentTime)) return;
+      // 播放到所在节目结束，不会停在按键的时刻
+      const programme = getNowNext(programmesByChannel[currentChannel.id], start).now;
+      setCatchupSession({
+        start,
+        stop: programme ? programme.stop : start + CATCHUP_OPEN_DURATION,
+        title: programme?.title,
+      });
+    },
+    [currentChannel, catchupSession, programmesByChannel]
+  );
+
+  // 记录切换前的频道，用于“上一个频道”键
+  useEffect(() => {
+    if (previousChannelIdRef.current && previousChannelIdRef.current !== currentChannelId) {
+      lastChannelIdRef.current = previousChannelIdRef.current;
+    }
+    previousChannelIdRef.current = currentChannelId;
+  }, [currentChannelId]);
+
+  const toggleLastChannel = useCallback(() => {
+    const lastChannel = channels.find((channel) => channel.id === lastChannelIdRef.current);
+    if (!lastChannel) return;
+    const index = channels.indexOf(lastChannel);
+    setCurrentChannelIndex(index);
+    setCatchupSession(null);
+    showChannelTitle(formatChannelTitle(lastChannel));
+  }, [channels]);
+
+  // 数字键输入频道号：停顿后换台，位数达到最大频道号位数时立即换台
+  useEffect(() => {
+    if (!channelNumberInput) return;
+    const commit = () => {
+      setChannelNumberInput("");
+      const target = channels.find((channel) => channel.number === parseInt(channelNumberInput, 10));
+      if (target) {
+        handleSelectChannel(target);
+      } else {
+        showChannelTitle(`频道 ${channelNumberInput} 不存在`);
+      }
+    };
+    if (channelNumberInput.length >= maxChannelNumberDigits) {
+      commit();
+      return;
+    }
+    const timer = setTimeout(commit, CHANNEL_NUMBER_DELAY);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelNumberInput]);
+
+  const openGuide = () => {
+    setIsChannelListVisible(false);
+    setIsGuideVisible(true);
+  };
+
   const changeChannel = useCallback(
     (direction: "next" | "prev") => {
       if (channels.length === 0) return;
@@ -84,7 +390,8 @@ export default function LiveScreen() {
           ? (currentChannelIndex + 1) % channels.length
           : (currentChannelIndex - 1 + channels.length) % channels.length;
       setCurrentChannelIndex(newIndex);
-      showChannelTitle(channels[newIndex].name);
+      setCatchupSession(null);
+      showChannelTitle(formatChannelTitle(channels[newIndex]));
     },
     [channels, currentChannelIndex]
   );
@@ -92,12 +399,31 @@ export default function LiveScreen() {
   const handleTVEvent = useCallback(
     (event: HWEvent) => {
       if (deviceType !== 'tv') return;
-      if (isChannelListVisible) return;
+      if (isChannelListVisible || isGuideVisible) return;
       if (event.eventType === "down") setIsChannelListVisible(true);
+      else if (event.eventType === "up") setIsGuideVisible(true);
       else if (event.eventType === "left") changeChannel("prev");
       else if (event.eventType === "right") changeChannel("next");
+      else if (event.eventType === "longLeft" && event.eventKeyAction !== 1) shiftCatchup("back");
+      else if (event.eventType === "longRight" && event.eventKeyAction !== 1) shiftCatchup("forward");
+      else if (event.eventType === "channelUp") changeChannel("next");
+      else if (event.eventType === "channelDown") changeChannel("prev");
+      else if (event.eventType === "previous") toggleLastChannel();
+      else if (/^[0-9]$/.test(event.eventType) && event.eventKeyAction !== 0) {
+        // 没有正在输入的频道号时，单独按 0 切换到上一个频道
+        if (event.eventType === "0" && !channelNumberInput) toggleLastChannel();
+        else setChannelNumberInput((input) => input + event.eventType);
+      }
     },
-    [changeChannel, isChannelListVisible, deviceType]
+    [
+      changeChannel,
+      shiftCatchup,
+      toggleLastChannel,
+      channelNumberInput,
+      isChannelListVisible,
+      isGuideVisible,
+      deviceType,
+    ]
   );
 
   useTVEventHandler(deviceType === 'tv' ? handleTVEvent : () => {});
@@ -107,11 +433,19 @@ export default function LiveScreen() {
 
   const renderLiveContent = () => (
     <>
-      <LivePlayer 
-        streamUrl={selectedChannelUrl} 
-        channelTitle={channelTitle} 
-        onPlaybackStatusUpdate={() => {}} 
+      <LivePlayer
+        streams={streams}
+        onMirrorResolved={handleMirrorResolved}
+        channelTitle={channelTitle}
+        programme={catchupSession ? undefined : currentProgramme}
+        catchupLabel={catchupLabel}
+        onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
       />
+      {channelNumberInput !== "" && (
+        <View style={dynamicStyles.channelNumberOverlay} pointerEvents="none">
+          <Text style={dynamicStyles.channelNumberText}>{channelNumberInput}</Text>
+        </View>
+      )}
       <Modal
         animationType="slide"
         transparent={true}
@@ -121,19 +455,49 @@ export default function LiveScreen() {
         <View style={dynamicStyles.modalContainer}>
           <View style={dynamicStyles.modalContent}>
             <Text style={dynamicStyles.modalTitle}>选择频道</Text>
+            {staleSources.length > 0 && (
+              <Text style={dynamicStyles.staleText} numberOfLines={2}>
+                离线缓存：{staleSources.join("、")} 暂时无法更新
+              </Text>
+            )}
+            <View style={dynamicStyles.headerActions}>
+              <StyledButton
+                text="节目指南"
+                onPress={openGuide}
+                style={dynamicStyles.guideButton}
+                textStyle={dynamicStyles.groupButtonText}
+              />
+              {currentChannel && (
+                <StyledButton
+                  text={isFavorite(currentChannel) ? "取消收藏" : "收藏频道"}
+                  onPress={() => toggleFavorite(currentChannel)}
+                  style={dynamicStyles.guideButton}
+                  textStyle={dynamicStyles.groupButtonText}
+                />
+              )}
+            </View>
             <View style={dynamicStyles.listContainer}>
               <View style={dynamicStyles.groupColumn}>
                 <FlatList
-                  data={channelGroups}
+                  data={displayedGroups}
                   keyExtractor={(item, index) => `group-${item}-${index}`}
                   renderItem={({ item }) => (
                     <StyledButton
-                      text={item}
                       onPress={() => setSelectedGroup(item)}
                       isSelected={selectedGroup === item}
                       style={dynamicStyles.groupButton}
-                      textStyle={dynamicStyles.groupButtonText}
-                    />
+                    >
+                      <View>
+                        <ThemedText style={dynamicStyles.groupButtonText} numberOfLines={1}>
+                          {item}
+                        </ThemedText>
+                        {enabledSources.length > 1 && groupSources[item]?.length > 0 && (
+                          <ThemedText style={dynamicStyles.groupSourceText} numberOfLines={1}>
+                            {groupSources[item].join(" / ")}
+                          </ThemedText>
+                        )}
+                      </View>
+                    </StyledButton>
                   )}
                 />
               </View>
@@ -142,18 +506,38 @@ export default function LiveScreen() {
                   <ActivityIndicator size="large" />
                 ) : (
                   <FlatList
-                    data={groupedChannels[selectedGroup] || []}
+                    data={getGroupChannels(selectedGroup)}
                     keyExtractor={(item, index) => `${item.id}-${item.group}-${index}`}
-                    renderItem={({ item }) => (
-                      <StyledButton
-                        text={item.name || "Unknown Channel"}
-                        onPress={() => handleSelectChannel(item)}
-                        isSelected={channels[currentChannelIndex]?.id === item.id}
-                        hasTVPreferredFocus={channels[currentChannelIndex]?.id === item.id}
-                        style={dynamicStyles.channelItem}
-                        textStyle={dynamicStyles.channelItemText}
-                      />
-                    )}
+                    renderItem={({ item }) => {
+                      const { now: nowProgramme, next: nextProgramme } = getNowNext(programmesByChannel[item.id], now);
+                      return (
+                        <StyledButton
+                          onPress={() => handleSelectChannel(item)}
+                          onLongPress={() => toggleFavorite(item)}
+                          isSelected={channels[currentChannelIndex]?.id === item.id}
+                          hasTVPreferredFocus={channels[currentChannelIndex]?.id === item.id}
+                          style={dynamicStyles.channelItem}
+                        >
+                          <View style={dynamicStyles.channelItemContent}>
+                            <ThemedText style={dynamicStyles.channelItemText} numberOfLines={1}>
+                              {isFavorite(item) ? "★ " : ""}
+                              {item.number ? `${item.number}  ` : ""}
+                              {item.name || "Unknown Channel"}
+                            </ThemedText>
+                            {nowProgramme && (
+                              <ThemedText style={dynamicStyles.programmeText} numberOfLines={1}>
+                                {nowProgramme.title}
+                              </ThemedText>
+                            )}
+                            {nextProgramme && (
+                              <ThemedText style={dynamicStyles.programmeNextText} numberOfLines={1}>
+                                下一个：{nextProgramme.title}
+                              </ThemedText>
+                            )}
+                          </View>
+                        </StyledButton>
+                      );
+                    }}
                   />
                 )}
               </View>
@@ -161,6 +545,15 @@ export default function LiveScreen() {
           </View>
         </View>
       </Modal>
+      <EpgGuideModal
+        visible={isGuideVisible}
+        channels={channels}
+        programmesByChannel={programmesByChannel}
+        currentChannelId={currentChannelId}
+        onSelectChannel={handleSelectChannel}
+        onPlayCatchup={handlePlayCatchup}
+        onClose={() => setIsGuideVisible(false)}
+      />
     </>
   );
 
@@ -211,6 +604,38 @@ const createResponsiveStyles = (deviceType: string, spacing: number) => {
       fontSize: isMobile ? 18 : 16,
       fontWeight: "bold",
     },
+    channelNumberOverlay: {
+      position: "absolute",
+      top: 70, // 避开右上角的回看标记
+      right: spacing,
+      minWidth: 80,
+      paddingHorizontal: spacing,
+      paddingVertical: spacing / 2,
+      borderRadius: 8,
+      backgroundColor: "rgba(0, 0, 0, 0.7)",
+      alignItems: "center",
+    },
+    channelNumberText: {
+      color: "white",
+      fontSize: 40,
+      fontWeight: "bold",
+      fontVariant: ["tabular-nums"],
+    },
+    staleText: {
+      color: "#f5a623",
+      fontSize: isMobile ? 12 : 11,
+      textAlign: "center",
+      marginBottom: spacing / 2,
+    },
+    headerActions: {
+      flexDirection: "row",
+      gap: spacing / 2,
+      marginBottom: spacing / 2,
+    },
+    guideButton: {
+      flex: 1,
+      paddingVertical: isMobile ? minTouchTarget / 4 : 6,
+    },
     listContainer: {
       flex: 1,
       flexDirection: isMobile ? "column" : "row",
@@ -233,14 +658,32 @@ const createResponsiveStyles = (deviceType: string, spacing: number) => {
     groupButtonText: {
       fontSize: isMobile ? 14 : 13,
     },
+    groupSourceText: {
+      fontSize: isMobile ? 11 : 10,
+      color: "#888",
+      lineHeight: isMobile ? 14 : 13,
+    },
     channelItem: {
       paddingVertical: isMobile ? minTouchTarget / 5 : 6,
       paddingHorizontal: spacing,
       marginVertical: isMobile ? 2 : 3,
       minHeight: isMobile ? minTouchTarget * 0.8 : undefined,
     },
+    channelItemContent: {
+      flex: 1,
+    },
     channelItemText: {
       fontSize: isMobile ? 14 : 12,
     },
+    programmeText: {
+      fontSize: isMobile ? 12 : 11,
+      color: "#ccc",
+      lineHeight: isMobile ? 16 : 14,
+    },
+    programmeNextText: {
+      fontSize: isMobile ? 11 : 10,
+      color: "#888",
+      lineHeight: isMobile ? 14 : 13,
+    },
   });
 };
@@ -1,11 +1,12 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { View, TextInput, StyleSheet, Alert, Keyboard, TouchableOpacity } from "react-native";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedText } from "@/components/ThemedText";
 import VideoCard from "@/components/VideoCard";
 import VideoLoadingAnimation from "@/components/VideoLoadingAnimation";
 import { api, SearchResult } from "@/services/api";
-import { Search, QrCode } from "lucide-react-native";
+import { SearchResultCluster, clusterSearchResults } from "@/services/titleMatch";
+import { Search, QrCode, ListVideo } from "lucide-react-native";
 import { StyledButton } from "@/components/StyledButton";
 import { useRemoteControlStore } from "@/stores/remoteControlStore";
 import { RemoteControlModal } from "@/components/RemoteControlModal";
@@ -18,6 +19,7 @@ import { getCommonResponsiveStyles } from "@/utils/ResponsiveStyles";
 import ResponsiveNavigation from "@/components/navigation/ResponsiveNavigation";
 import ResponsiveHeader from "@/components/navigation/ResponsiveHeader";
 import { DeviceUtils } from "@/utils/DeviceUtils";
+import { usePlayQueue } from "@/hooks/usePlayQueue";
 import Logger from '@/utils/Logger';
 
 const logger = Logger.withTag('SearchScreen');
@@ -32,6 +34,9 @@ export default function SearchScreen() {
   const { showModal: showRemoteModal, lastMessage, targetPage, clearMessage } = useRemoteControlStore();
   const { remoteInputEnabled } = useSettingsStore();
   const router = useRouter();
+  const { playAll } = usePlayQueue();
+  // 同一部剧在各播放源的结果合并为一项
+  const clusters = useMemo(() => clusterSearchResults(results), [results]);
 
   // 响应式布局配置
   const responsiveConfig = useResponsiveLayout();
@@ -94,17 +99,31 @@ export default function SearchScreen() {
     showRemoteModal('search');
   };
 
-  const renderItem = ({ item }: { item: SearchResult; index: number }) => (
-    <VideoCard
-      id={item.id.toString()}
-      source={item.source}
-      title={item.title}
-      poster={item.poster}
-      year={item.year}
-      sourceName={item.source_name}
-      api={api}
-    />
-  );
+  const handlePlayAll = () => {
+    playAll(
+      clusters.map(({ results: [item] }) => ({
+        source: item.source,
+        id: item.id.toString(),
+        title: item.title,
+        poster: item.poster,
+      }))
+    );
+  };
+
+  const renderItem = ({ item: cluster }: { item: SearchResultCluster<SearchResult>; index: number }) => {
+    const [item] = cluster.results;
+    return (
+      <VideoCard
+        id={item.id.toString()}
+        source={item.source}
+        title={item.title}
+        poster={cluster.results.find((result) => result.poster)?.poster || item.poster}
+        year={item.year}
+        sourceName={cluster.results.length > 1 ? `${cluster.results.length} 个播放源` : item.source_name}
+        api={api}
+      />
+    );
+  };
 
   // 动态样式
   const dynamicStyles = createResponsiveStyles(deviceType, spacing);
@@ -138,6 +157,11 @@ export default function SearchScreen() {
         <StyledButton style={dynamicStyles.searchButton} onPress={onSearchPress}>
           <Search size={deviceType === 'mobile' ? 20 : 24} color="white" />
         </StyledButton>
+        {results.length > 0 && (
+          <StyledButton style={dynamicStyles.playAllButton} onPress={handlePlayAll}>
+            <ListVideo size={deviceType === 'mobile' ? 20 : 24} color="white" />
+          </StyledButton>
+        )}
         {deviceType !== 'mobile' && (
           <StyledButton style={dynamicStyles.qrButton} onPress={handleQrPress}>
             <QrCode size={deviceType === 'tv' ? 24 : 20} color="white" />
@@ -153,7 +177,7 @@ export default function SearchScreen() {
         </View>
       ) : (
         <CustomScrollView
-          data={results}
+          data={clusters}
           renderItem={renderItem}
           loading={loading}
           error={error}
@@ -223,6 +247,15 @@ const createResponsiveStyles = (deviceType: string, spacing: number) => {
       borderRadius: isMobile ? 8 : 8,
       marginRight: deviceType !== 'mobile' ? spacing / 2 : 0,
     },
+    playAllButton: {
+      width: isMobile ? minTouchTarget : 50,
+      height: isMobile ? minTouchTarget : 50,
+      justifyContent: "center",
+      alignItems: "center",
+      borderRadius: 8,
+      marginLeft: isMobile ? spacing / 2 : 0,
+      marginRight: deviceType !== 'mobile' ? spacing / 2 : 0,
+    },
     qrButton: {
       width: isMobile ? minTouchTarget : 50,
       height: isMobile ? minTouchTarget : 50,
@@ -11,6 +11,7 @@ import { useSettingsStore } from "@/stores/settingsStore";
 import { useRemoteControlStore } from "@/stores/remoteControlStore";
 import { APIConfigSection } from "@/components/settings/APIConfigSection";
 import { LiveStreamSection } from "@/components/settings/LiveStreamSection";
+import { PlaybackSection } from "@/components/settings/PlaybackSection";
 import { RemoteInputSection } from "@/components/settings/RemoteInputSection";
 import { UpdateSection } from "@/components/settings/UpdateSection";
 // import { VideoSourceSection } from "@/components/settings/VideoSourceSection";
@@ -33,7 +34,7 @@ function isSectionItem(item: false | undefined | SectionItem): item is SectionIt
 }
 
 export default function SettingsScreen() {
-  const { loadSettings, saveSettings, setApiBaseUrl, setM3uUrl } = useSettingsStore();
+  const { loadSettings, saveSettings, setApiBaseUrl } = useSettingsStore();
   const { lastMessage, targetPage, clearMessage } = useRemoteControlStore();
   const backgroundColor = useThemeColor({}, "background");
   const insets = useSafeAreaInsets();
@@ -73,7 +74,7 @@ export default function SettingsScreen() {
       setApiBaseUrl(message);
     } else if (currentSection === "livestream" && liveStreamSectionRef.current) {
       // Live Stream Section
-      setM3uUrl(message);
+      liveStreamSectionRef.current.setInputValue(message);
     }
   };
 
@@ -137,6 +138,18 @@ export default function SettingsScreen() {
       ),
       key: "livestream",
     },
+    deviceType !== "mobile" && {
+      component: (
+        <PlaybackSection
+          onChanged={markAsChanged}
+          onFocus={() => {
+            setCurrentFocusIndex(3);
+            setCurrentSection("playback");
+          }}
+        />
+      ),
+      key: "playback",
+    },
     Platform.OS === "android" && {
       component: <UpdateSection />,
       key: "update",
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback, memo } from "react";
+import { View, Text, StyleSheet, Modal, FlatList, Pressable, useTVEventHandler, HWEvent } from "react-native";
+import { StyledButton } from "@/components/StyledButton";
+import { Channel } from "@/services/m3u";
+import { EpgProgramme } from "@/services/epg";
+import { isCatchupAvailable } from "@/services/catchup";
+import { Colors } from "@/constants/Colors";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+
+const SLOT_DURATION = 30 * 60 * 1000; // 每个时间列 30 分钟
+const WINDOW_SHIFT = 60 * 60 * 1000; // 到达边缘时时间轴平移 1 小时
+const MAX_PAST = 24 * 60 * 60 * 1000;
+const MAX_FUTURE = 48 * 60 * 60 * 1000;
+const ROW_HEIGHT = 56;
+
+interface EpgGuideModalProps {
+  visible: boolean;
+  channels: Channel[];
+  programmesByChannel: Record<string, EpgProgramme[]>;
+  currentChannelId?: string;
+  onSelectChannel: (channel: Channel) => void;
+  onPlayCatchup: (channel: Channel, programme: EpgProgramme) => void;
+  onClose: () => void;
+}
+
+interface GuideSelection {
+  channel: Channel;
+  programme: EpgProgramme;
+}
+
+interface FocusedCell {
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+const alignToSlot = (timestamp: number) => Math.floor(timestamp / SLOT_DURATION) * SLOT_DURATION;
+
+const formatClock = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+};
+
+interface GuideCellProps {
+  title: string;
+  width: number;
+  isLive: boolean;
+  hasTVPreferredFocus?: boolean;
+  onPress: () => void;
+  onFocus: () => void;
+}
+
+const GuideCell = memo(({ title, width, isLive, hasTVPreferredFocus, onPress, onFocus }: GuideCellProps) => (
+  <Pressable
+    onPress={onPress}
+    onFocus={onFocus}
+    hasTVPreferredFocus={hasTVPreferredFocus}
+    style={({ focused }) => [styles.cell, { width }, isLive && styles.liveCell, focused && styles.focusedCell]}
+  >
+    <Text style={styles.cellText} numberOfLines={2}>
+      {title}
+    </Text>
+  </Pressable>
+));
+
+GuideCell.displayName = "GuideCell";
+
+export const EpgGuideModal: React.FC<EpgGuideModalProps> = ({
+  visible,
+  channels,
+  programmesByChannel,
+  currentChannelId,
+  onSelectChannel,
+  onPlayCatchup,
+  onClose,
+}) => {
+  const { deviceType, screenWidth, spacing } = useResponsiveLayout();
+  const [windowStart, setWindowStart] = useState(() => alignToSlot(Date.now()));
+  const [selection, setSelection] = useState<GuideSelection | null>(null);
+  const focusedCell = useRef<FocusedCell | null>(null);
+
+  const slotCount = deviceType === "mobile" ? 3 : deviceType === "tablet" ? 4 : 6;
+  const channelColumnWidth = deviceType === "mobile" ? 90 : 160;
+  const slotWidth = (screenWidth - channelColumnWidth - spacing * 2) / slotCount;
+  const windowEnd = windowStart + slotCount * SLOT_DURATION;
+  const pixelsPerMs = slotWidth / SLOT_DURATION;
+
+  useEffect(() => {
+    if (visible) {
+      setWindowStart(alignToSlot(Date.now()));
+      setSelection(null);
+    }
+  }, [visible]);
+
+  const shiftWindow = useCallback((offset: number) => {
+    const baseline = alignToSlot(Date.now());
+    setWindowStart((start) => Math.min(Math.max(start + offset, baseline - MAX_PAST), baseline + MAX_FUTURE));
+  }, []);
+
+  const handleTVEvent = useCallback(
+    (event: HWEvent) => {
+      if (!visible || selection || !focusedCell.current) return;
+      if (event.eventType === "right" && focusedCell.current.isLast) {
+        shiftWindow(WINDOW_SHIFT);
+      } else if (event.eventType === "left" && focusedCell.current.isFirst) {
+        shiftWindow(-WINDOW_SHIFT);
+      }
+    },
+    [visible, selection, shiftWindow]
+  );
+
+  useTVEventHandler(handleTVEvent);
+
+  const handleSelectProgramme = useCallback(
+    (channel: Channel, programme?: EpgProgramme) => {
+      const now = Date.now();
+      const isLive = !!programme && programme.start <= now && now < programme.stop;
+      // 支持回看的直播节目弹出选项，可以选择从头观看
+      if (!programme || (isLive && !channel.catchup)) {
+        onSelectChannel(channel);
+        return;
+      }
+      setSelection({ channel, programme });
+    },
+    [onSelectChannel]
+  );
+
+  const timeSlots = useMemo(
+    () => Array.from({ length: slotCount }, (_, index) => windowStart + index * SLOT_DURATION),
+    [windowStart, slotCount]
+  );
+
+  const initialScrollIndex = Math.max(
+    0,
+    channels.findIndex((channel) => channel.id === currentChannelId)
+  );
+
+  const renderRow = ({ item: channel }: { item: Channel }) => {
+    const now = Date.now();
+    const programmes = (programmesByChannel[channel.id] || []).filter(
+      (p) => p.stop > windowStart && p.start < windowEnd
+    );
+    const isCurrentChannel = channel.id === currentChannelId;
+
+    const cells: React.ReactNode[] = [];
+    let cursor = windowStart;
+    programmes.forEach((programme, index) => {
+      const start = Math.max(programme.start, windowStart);
+      const stop = Math.min(programme.stop, windowEnd);
+      if (start > cursor) {
+        cells.push(<View key={`gap-${cursor}`} style={{ width: (start - cursor) * pixelsPerMs }} />);
+      }
+      const isLive = programme.start <= now && now < programme.stop;
+      cells.push(
+        <GuideCell
+          key={`${programme.start}`}
+          title={`${formatClock(programme.start)} ${programme.title}`}
+          width={(stop - start) * pixelsPerMs}
+          isLive={isLive}
+          hasTVPreferredFocus={isCurrentChannel && isLive}
+          onPress={() => handleSelectProgramme(channel, programme)}
+          onFocus={() => {
+            focusedCell.current = { isFirst: index === 0, isLast: index === programmes.length - 1 };
+          }}
+        />
+      );
+      cursor = stop;
+    });
+
+    if (cells.length === 0) {
+      cells.push(
+        <GuideCell
+          key="empty"
+          title="暂无节目信息"
+          width={slotCount * slotWidth}
+          isLive={false}
+          hasTVPreferredFocus={isCurrentChannel}
+          onPress={() => handleSelectProgramme(channel)}
+          onFocus={() => {
+            focusedCell.current = { isFirst: true, isLast: true };
+          }}
+        />
+      );
+    }
+
+    return (
+      <View style={styles.row}>
+        <View style={[styles.channelCell, { width: channelColumnWidth }]}>
+          <Text style={[styles.channelName, isCurrentChannel && styles.currentChannelName]} numberOfLines={2}>
+            {channel.name}
+          </Text>
+        </View>
+        <View style={[styles.programmeTrack, { width: slotCount * slotWidth }]}>{cells}</View>
+      </View>
+    );
+  };
+
+  const currentTime = Date.now();
+  const nowOffset = (currentTime - windowStart) * pixelsPerMs;
+  const isSelectionLive =
+    !!selection && selection.programme.start <= currentTime && currentTime < selection.programme.stop;
+  const canPlayCatchup = !!selection && isCatchupAvailable(selection.channel, selection.programme.start);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={selection ? () => setSelection(null) : onClose}
+    >
+      <View style={[styles.container, { padding: spacing }]}>
+        <View style={styles.headerRow}>
+          <View style={[styles.channelCell, { width: channelColumnWidth }]}>
+            <Text style={styles.headerTitle}>节目指南</Text>
+          </View>
+          <View style={[styles.timeline, { width: slotCount * slotWidth }]}>
+            {timeSlots.map((slot) => (
+              <Text key={slot} style={[styles.timeSlotText, { width: slotWidth }]}>
+                {formatClock(slot)}
+              </Text>
+            ))}
+            {nowOffset >= 0 && nowOffset <= slotCount * slotWidth && (
+              <View style={[styles.nowIndicator, { left: nowOffset }]} />
+            )}
+          </View>
+        </View>
+        <FlatList
+          data={channels}
+          keyExtractor={(item, index) => `${item.id}-${index}`}
+          renderItem={renderRow}
+          extraData={[windowStart, programmesByChannel, currentChannelId]}
+          getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+          initialScrollIndex={initialScrollIndex}
+          initialNumToRender={12}
+          windowSize={5}
+        />
+        {selection && (
+          <View style={styles.detailPanel}>
+            <Text style={styles.detailTitle}>{selection.programme.title}</Text>
+            <Text style={styles.detailMeta}>
+              {selection.channel.name} · {formatClock(selection.programme.start)}-
+              {formatClock(selection.programme.stop)}
+            </Text>
+            {selection.programme.desc && (
+              <Text style={styles.detailDesc} numberOfLines={4}>
+                {selection.programme.desc}
+              </Text>
+            )}
+            <View style={styles.detailActions}>
+              {isSelectionLive && (
+                <StyledButton
+                  text="直播"
+                  onPress={() => onSelectChannel(selection.channel)}
+                  hasTVPreferredFocus
+                  style={styles.detailButton}
+                />
+              )}
+              {canPlayCatchup && (
+                <StyledButton
+                  text={isSelectionLive ? "从头观看" : "回看"}
+                  onPress={() => onPlayCatchup(selection.channel, selection.programme)}
+                  hasTVPreferredFocus={!isSelectionLive}
+                  style={styles.detailButton}
+                />
+              )}
+              <StyledButton
+                text="关闭"
+                onPress={() => setSelection(null)}
+                hasTVPreferredFocus={!isSelectionLive && !canPlayCatchup}
+                style={styles.detailButton}
+              />
+            </View>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.92)",
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  headerTitle: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  timeline: {
+    flexDirection: "row",
+    position: "relative",
+  },
+  timeSlotText: {
+    color: "#aaa",
+    fontSize: 13,
+  },
+  nowIndicator: {
+    position: "absolute",
+    top: -4,
+    bottom: -4,
+    width: 2,
+    backgroundColor: Colors.dark.primary,
+  },
+  row: {
+    flexDirection: "row",
+    height: ROW_HEIGHT,
+  },
+  channelCell: {
+    justifyContent: "center",
+    paddingRight: 8,
+  },
+  channelName: {
+    color: "white",
+    fontSize: 14,
+  },
+  currentChannelName: {
+    color: Colors.dark.primary,
+    fontWeight: "bold",
+  },
+  programmeTrack: {
+    flexDirection: "row",
+    overflow: "hidden",
+  },
+  cell: {
+    height: ROW_HEIGHT - 6,
+    marginVertical: 3,
+    paddingHorizontal: 8,
+    justifyContent: "center",
+    backgroundColor: "#2c2c2e",
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: "#151718",
+  },
+  liveCell: {
+    backgroundColor: "#3a3a3c",
+  },
+  focusedCell: {
+    backgroundColor: Colors.dark.link,
+    borderColor: Colors.dark.primary,
+  },
+  cellText: {
+    color: "white",
+    fontSize: 13,
+  },
+  detailPanel: {
+    position: "absolute",
+    left: 40,
+    right: 40,
+    bottom: 40,
+    padding: 20,
+    borderRadius: 8,
+    backgroundColor: "rgba(30, 30, 30, 0.98)",
+  },
+  detailTitle: {
+    color: "white",
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  detailMeta: {
+    color: "#aaa",
+    fontSize: 14,
+    marginTop: 6,
+  },
+  detailDesc: {
+    color: "#ccc",
+    fontSize: 14,
+    marginTop: 10,
+    lineHeight: 20,
+  },
+  detailActions: {
+    flexDirection: "row",
+    marginTop: 16,
+    gap: 12,
+  },
+  detailButton: {
+    minWidth: 100,
+  },
+});
@@ -1,23 +1,67 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useCallback } from "react";
 import { View, StyleSheet, Text, ActivityIndicator } from "react-native";
 import { Video, ResizeMode, AVPlaybackStatus } from "expo-av";
 import { useKeepAwake } from "expo-keep-awake";
+import { NowNext, EpgProgramme } from "@/services/epg";
+import { LiveVideoSource } from "@/services/m3u";
+import Logger from "@/utils/Logger";
+
+const logger = Logger.withTag("LivePlayer");
 
 interface LivePlayerProps {
-  streamUrl: string | null;
+  // 同一频道的镜像（地址与请求头），出错或超时后依次尝试下一个
+  streams: LiveVideoSource[];
+  onMirrorResolved?: (index: number) => void;
   channelTitle?: string | null;
+  programme?: NowNext;
+  catchupLabel?: string | null;
   onPlaybackStatusUpdate: (status: AVPlaybackStatus) => void;
 }
 
 const PLAYBACK_TIMEOUT = 15000; // 15 seconds
 
-export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUpdate }: LivePlayerProps) {
+const formatClock = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+};
+
+const formatProgrammeLine = (label: string, programme: EpgProgramme) =>
+  `${label} ${formatClock(programme.start)}-${formatClock(programme.stop)} ${programme.title}`;
+
+export default function LivePlayer({
+  streams,
+  onMirrorResolved,
+  channelTitle,
+  programme,
+  catchupLabel,
+  onPlaybackStatusUpdate,
+}: LivePlayerProps) {
   const video = useRef<Video>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isTimeout, setIsTimeout] = useState(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // 以地址列表为键记录当前镜像，列表变化（换台）时自动回到第一个
+  const urlsKey = streams.map((stream) => stream.uri).join("\n");
+  const [mirror, setMirror] = useState({ key: urlsKey, index: 0 });
+  const mirrorIndex = mirror.key === urlsKey ? mirror.index : 0;
+  const stream = streams[mirrorIndex];
+  const streamUrl = stream?.uri ?? null;
+  const resolvedUrlRef = useRef<string | null>(null);
   useKeepAwake();
 
+  const handleStreamFailure = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    if (mirrorIndex < streams.length - 1) {
+      logger.info(`Mirror ${mirrorIndex + 1}/${streams.length} failed, trying next`);
+      setMirror({ key: urlsKey, index: mirrorIndex + 1 });
+      return;
+    }
+    setIsLoading(false);
+    setIsTimeout(true);
+  }, [mirrorIndex, streams.length, urlsKey]);
+
   useEffect(() => {
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
@@ -26,10 +70,8 @@ export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUp
     if (streamUrl) {
       setIsLoading(true);
       setIsTimeout(false);
-      timeoutRef.current = setTimeout(() => {
-        setIsTimeout(true);
-        setIsLoading(false);
-      }, PLAYBACK_TIMEOUT);
+      resolvedUrlRef.current = null;
+      timeoutRef.current = setTimeout(handleStreamFailure, PLAYBACK_TIMEOUT);
     } else {
       setIsLoading(false);
       setIsTimeout(false);
@@ -40,7 +82,7 @@ export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUp
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [streamUrl]);
+  }, [streamUrl, handleStreamFailure]);
 
   const handlePlaybackStatusUpdate = (status: AVPlaybackStatus) => {
     if (status.isLoaded) {
@@ -50,16 +92,16 @@ export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUp
         }
         setIsLoading(false);
         setIsTimeout(false);
+        if (resolvedUrlRef.current !== streamUrl) {
+          resolvedUrlRef.current = streamUrl;
+          onMirrorResolved?.(mirrorIndex);
+        }
       } else if (status.isBuffering) {
         setIsLoading(true);
       }
     } else {
       if (status.error) {
-        setIsLoading(false);
-        setIsTimeout(true);
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current);
-        }
+        handleStreamFailure();
       }
     }
     onPlaybackStatusUpdate(status);
@@ -76,7 +118,9 @@ export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUp
   if (isTimeout) {
     return (
       <View style={styles.container}>
-        <Text style={styles.messageText}>加载失败，请重试</Text>
+        <Text style={styles.messageText}>
+          {streams.length > 1 ? "所有线路均加载失败，请重试" : "加载失败，请重试"}
+        </Text>
       </View>
     );
   }
@@ -86,26 +130,34 @@ export default function LivePlayer({ streamUrl, channelTitle, onPlaybackStatusUp
       <Video
         ref={video}
         style={styles.video}
-        source={{
-          uri: streamUrl,
-        }}
+        source={stream}
         resizeMode={ResizeMode.CONTAIN}
         shouldPlay
         onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
-        onError={(e) => {
-          setIsTimeout(true);
-          setIsLoading(false);
-        }}
+        onError={handleStreamFailure}
       />
       {isLoading && (
         <View style={styles.loadingOverlay}>
           <ActivityIndicator size="large" color="#fff" />
-          <Text style={styles.messageText}>加载中...</Text>
+          <Text style={styles.messageText}>
+            {streams.length > 1 ? `加载中（线路 ${mirrorIndex + 1}/${streams.length}）...` : "加载中..."}
+          </Text>
+        </View>
+      )}
+      {catchupLabel && (
+        <View style={styles.catchupBadge}>
+          <Text style={styles.catchupText}>{catchupLabel}</Text>
         </View>
       )}
       {channelTitle && !isLoading && !isTimeout && (
         <View style={styles.overlay}>
           <Text style={styles.title}>{channelTitle}</Text>
+          {programme?.now && (
+            <Text style={styles.programmeText}>{formatProgrammeLine("正在播放", programme.now)}</Text>
+          )}
+          {programme?.next && (
+            <Text style={styles.programmeNextText}>{formatProgrammeLine("即将播放", programme.next)}</Text>
+          )}
         </View>
       )}
     </View>
@@ -135,6 +187,30 @@ const styles = StyleSheet.create({
     color: "#fff",
     fontSize: 18,
   },
+  catchupBadge: {
+    position: "absolute",
+    top: 20,
+    right: 20,
+    backgroundColor: "rgba(0, 187, 94, 0.8)",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 5,
+  },
+  catchupText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  programmeText: {
+    color: "#fff",
+    fontSize: 14,
+    marginTop: 6,
+  },
+  programmeNextText: {
+    color: "#ccc",
+    fontSize: 13,
+    marginTop: 2,
+  },
   messageText: {
     color: "#fff",
     fontSize: 16,
@@ -5,10 +5,21 @@ import { StyledButton } from "./StyledButton";
 
 interface NextEpisodeOverlayProps {
   visible: boolean;
+  // 播放队列中下一部影片的片名，未设置时表示下一集
+  nextTitle?: string;
+  // 自动播放前剩余的秒数
+  countdown?: number;
+  onPlayNow: () => void;
   onCancel: () => void;
 }
 
-export const NextEpisodeOverlay: React.FC<NextEpisodeOverlayProps> = ({ visible, onCancel }) => {
+export const NextEpisodeOverlay: React.FC<NextEpisodeOverlayProps> = ({
+  visible,
+  nextTitle,
+  countdown,
+  onPlayNow,
+  onCancel,
+}) => {
   if (!visible) {
     return null;
   }
@@ -16,13 +27,23 @@ export const NextEpisodeOverlay: React.FC<NextEpisodeOverlayProps> = ({ visible,
   return (
     <View style={styles.nextEpisodeOverlay}>
       <View style={styles.nextEpisodeContent}>
-        <ThemedText style={styles.nextEpisodeTitle}>即将播放下一集...</ThemedText>
-        <StyledButton
-          text="取消"
-          onPress={onCancel}
-          style={styles.nextEpisodeButton}
-          textStyle={styles.nextEpisodeButtonText}
-        />
+        <ThemedText style={styles.nextEpisodeTitle} numberOfLines={2}>
+          {countdown !== undefined ? `${countdown} 秒后` : "即将"}播放{nextTitle ? `《${nextTitle}》` : "下一集"}
+        </ThemedText>
+        <View style={styles.nextEpisodeButtons}>
+          <StyledButton
+            text="立即播放"
+            onPress={onPlayNow}
+            style={styles.nextEpisodeButton}
+            textStyle={styles.nextEpisodeButtonText}
+          />
+          <StyledButton
+            text="取消"
+            onPress={onCancel}
+            style={styles.nextEpisodeButton}
+            textStyle={styles.nextEpisodeButtonText}
+          />
+        </View>
       </View>
     </View>
   );
@@ -46,6 +67,10 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginBottom: 10,
   },
+  nextEpisodeButtons: {
+    flexDirection: "row",
+    gap: 10,
+  },
   nextEpisodeButton: {
     padding: 8,
     paddingHorizontal: 15,
@@ -0,0 +1,96 @@
+import React from "react";
+import { View, Text, StyleSheet, Modal, FlatList } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+import useQueueStore from "@/stores/queueStore";
+
+export const PlaybackQueueModal: React.FC = () => {
+  const { showQueueModal, setShowQueueModal, playQueueItem } = usePlayerStore();
+  const { items, currentIndex, removeItem, clear } = useQueueStore();
+
+  const onClose = () => {
+    setShowQueueModal(false);
+  };
+
+  const onClear = () => {
+    clear();
+    setShowQueueModal(false);
+  };
+
+  return (
+    <Modal visible={showQueueModal} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>播放队列</Text>
+          <FlatList
+            data={items}
+            keyExtractor={(item, index) => `queue-${item.source}-${item.id}-${index}`}
+            renderItem={({ item, index }) => (
+              <View style={styles.queueRow}>
+                <StyledButton
+                  text={`${index + 1}. ${item.title}`}
+                  onPress={() => playQueueItem(index)}
+                  isSelected={index === currentIndex}
+                  hasTVPreferredFocus={index === currentIndex}
+                  style={styles.queueItem}
+                  textStyle={styles.queueItemText}
+                />
+                <StyledButton
+                  text="移除"
+                  onPress={() => removeItem(index)}
+                  disabled={index === currentIndex}
+                  style={styles.removeButton}
+                  textStyle={styles.queueItemText}
+                />
+              </View>
+            )}
+          />
+          <StyledButton text="清空队列" onPress={onClear} style={styles.clearButton} />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "transparent",
+  },
+  modalContent: {
+    width: 500,
+    height: "100%",
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 20,
+  },
+  modalTitle: {
+    color: "white",
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  queueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginVertical: 4,
+    marginHorizontal: 8,
+  },
+  queueItem: {
+    flex: 1,
+    paddingVertical: 10,
+  },
+  queueItemText: {
+    fontSize: 16,
+  },
+  removeButton: {
+    marginLeft: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  clearButton: {
+    marginTop: 12,
+  },
+});
@@ -1,12 +1,31 @@
 import React from "react";
 import { View, Text, StyleSheet, Pressable } from "react-native";
-import { Pause, Play, SkipForward, List, Tv, ArrowDownToDot, ArrowUpFromDot, Gauge } from "lucide-react-native";
+import {
+  Pause,
+  Play,
+  SkipForward,
+  List,
+  Tv,
+  ArrowDownToDot,
+  ArrowUpFromDot,
+  Gauge,
+  Captions,
+  CaptionsOff,
+  Languages,
+  MonitorCog,
+  ListVideo,
+  Moon,
+} from "lucide-react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { MediaButton } from "@/components/MediaButton";
+import { SeekThumbnail } from "@/components/SeekThumbnail";
 
-import usePlayerStore from "@/stores/playerStore";
+import usePlayerStore, { selectHasNext } from "@/stores/playerStore";
+import useQueueStore from "@/stores/queueStore";
 import useDetailStore from "@/stores/detailStore";
 import { useSources } from "@/stores/sourceStore";
+import { getAudioTrackNames } from "@/services/m3u8";
+import { getSleepTimerLabel } from "@/services/autoplay";
 
 interface PlayerControlsProps {
   showControls: boolean;
@@ -23,10 +42,19 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ showControls, se
     progressPosition,
     playbackRate,
     togglePlayPause,
-    playEpisode,
+    playNext,
     setShowEpisodeModal,
     setShowSourceModal,
     setShowSpeedModal,
+    setShowSubtitleModal,
+    setShowTrackModal,
+    setShowQualityModal,
+    setShowQueueModal,
+    setShowSleepTimerModal,
+    sleepTimer,
+    selectedQuality,
+    hlsTracks,
+    selectedSubtitleUrl,
     setIntroEndTime,
     setOutroStartTime,
     introEndTime,
@@ -41,7 +69,12 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ showControls, se
   const currentEpisodeTitle = currentEpisode?.title;
   const currentSource = resources.find((r) => r.source === detail?.source);
   const currentSourceName = currentSource?.source_name;
-  const hasNextEpisode = currentEpisodeIndex < (episodes.length || 0) - 1;
+  // 最后一集时可以接着播放队列中的下一部
+  const hasNextEpisode = usePlayerStore(selectHasNext);
+  const queueLength = useQueueStore((state) => state.items.length);
+  const hasTracks =
+    !!hlsTracks &&
+    (getAudioTrackNames(hlsTracks.master).length > 1 || hlsTracks.master.subtitleRenditions.length > 0);
 
   const formatTime = (milliseconds: number) => {
     if (!milliseconds) return "00:00";
@@ -53,7 +86,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ showControls, se
 
   const onPlayNextEpisode = () => {
     if (hasNextEpisode) {
-      playEpisode(currentEpisodeIndex + 1);
+      playNext();
     }
   };
 
@@ -67,6 +100,9 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ showControls, se
       </View>
 
       <View style={styles.bottomControlsContainer}>
+        {isSeeking && status?.isLoaded && (
+          <SeekThumbnail positionMillis={seekPosition * (status.durationMillis || 0)} />
+        )}
         <View style={styles.progressBarContainer}>
           <View style={styles.progressBarBackground} />
           <View
@@ -111,10 +147,39 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ showControls, se
             <List color="white" size={24} />
           </MediaButton>
 
+          {queueLength > 0 && (
+            <MediaButton onPress={() => setShowQueueModal(true)} timeLabel={`${queueLength}`}>
+              <ListVideo color="white" size={24} />
+            </MediaButton>
+          )}
+
           <MediaButton onPress={() => setShowSpeedModal(true)} timeLabel={playbackRate !== 1.0 ? `${playbackRate}x` : undefined}>
             <Gauge color="white" size={24} />
           </MediaButton>
 
+          {hlsTracks && hlsTracks.master.variants.length > 1 && (
+            <MediaButton onPress={() => setShowQualityModal(true)} timeLabel={selectedQuality}>
+              <MonitorCog color="white" size={24} />
+            </MediaButton>
+          )}
+
+          {hasTracks && (
+            <MediaButton onPress={() => setShowTrackModal(true)}>
+              <Languages color="white" size={24} />
+            </MediaButton>
+          )}
+
+          <MediaButton onPress={() => setShowSubtitleModal(true)}>
+            {selectedSubtitleUrl ? <Captions color="white" size={24} /> : <CaptionsOff color="white" size={24} />}
+          </MediaButton>
+
+          <MediaButton
+            onPress={() => setShowSleepTimerModal(true)}
+            timeLabel={sleepTimer ? getSleepTimerLabel(sleepTimer) : undefined}
+          >
+            <Moon color="white" size={24} />
+          </MediaButton>
+
           <MediaButton onPress={() => setShowSourceModal(true)}>
             <Tv color="white" size={24} />
           </MediaButton>
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useCallback, memo, useMemo } from "react";
+import { StyleSheet, TouchableOpacity, AppState, AppStateStatus, View } from "react-native";
+import { usePathname, useRouter } from "expo-router";
+import { Video } from "expo-av";
+import { useKeepAwake } from "expo-keep-awake";
+import { Maximize2, Pause, Play, X } from "lucide-react-native";
+import { PlayerControls } from "@/components/PlayerControls";
+import { EpisodeSelectionModal } from "@/components/EpisodeSelectionModal";
+import { SourceSelectionModal } from "@/components/SourceSelectionModal";
+import { SpeedSelectionModal } from "@/components/SpeedSelectionModal";
+import { SubtitleSelectionModal } from "@/components/SubtitleSelectionModal";
+import { SubtitleOverlay } from "@/components/SubtitleOverlay";
+import { SkipMarkerButton } from "@/components/SkipMarkerButton";
+import { TrackSelectionModal } from "@/components/TrackSelectionModal";
+import { QualitySelectionModal } from "@/components/QualitySelectionModal";
+import { SeekingBar } from "@/components/SeekingBar";
+import { MediaButton } from "@/components/MediaButton";
+import { NextEpisodeOverlay } from "@/components/NextEpisodeOverlay";
+import { PlaybackQueueModal } from "@/components/PlaybackQueueModal";
+import { SleepTimerModal } from "@/components/SleepTimerModal";
+import { StillWatchingPrompt } from "@/components/StillWatchingPrompt";
+import VideoLoadingAnimation from "@/components/VideoLoadingAnimation";
+import { useTVRemoteHandler } from "@/hooks/useTVRemoteHandler";
+import Toast from "react-native-toast-message";
+import usePlayerStore, { selectCurrentEpisode, selectNextQueueTitle, selectPlaybackUrl } from "@/stores/playerStore";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+import { useVideoHandlers } from "@/hooks/useVideoHandlers";
+import Logger from "@/utils/Logger";
+
+const logger = Logger.withTag("PlayerHost");
+
+// 小窗可以停留的页面，进入其他页面（如直播）时关闭小窗
+const MINI_PLAYER_ROUTES = ["/", "/search", "/detail", "/play"];
+
+// 优化的加载动画组件
+const LoadingContainer = memo(
+  ({ style, currentEpisode }: { style: any; currentEpisode: { url: string; title: string } | undefined }) => {
+    logger.info(
+      `[PERF] Video component NOT rendered - waiting for valid URL. currentEpisode: ${!!currentEpisode}, url: ${
+        currentEpisode?.url ? "exists" : "missing"
+      }`
+    );
+    return (
+      <View style={style}>
+        <VideoLoadingAnimation showProgressBar />
+      </View>
+    );
+  }
+);
+
+LoadingContainer.displayName = "LoadingContainer";
+
+// 播放期间保持屏幕常亮，睡眠定时暂停后允许休眠
+const KeepAwake = () => {
+  useKeepAwake();
+  return null;
+};
+
+// 移到组件外部避免重复创建
+const createResponsiveStyles = (deviceType: string) => {
+  const isMobile = deviceType === "mobile";
+  const isTablet = deviceType === "tablet";
+  const miniWidth = isMobile ? 200 : 360;
+
+  return StyleSheet.create({
+    container: {
+      ...StyleSheet.absoluteFillObject,
+      backgroundColor: "black",
+      // 移动端和平板端可能需要状态栏处理
+      ...(isMobile || isTablet ? { paddingTop: 0 } : {}),
+    },
+    miniContainer: {
+      position: "absolute",
+      right: isMobile ? 12 : 40,
+      bottom: isMobile ? 80 : 40,
+      width: miniWidth,
+      height: (miniWidth * 9) / 16 + (isMobile ? 40 : 56),
+      backgroundColor: "black",
+      borderRadius: 8,
+      overflow: "hidden",
+      elevation: 8,
+    },
+    videoContainer: {
+      ...StyleSheet.absoluteFillObject,
+      // 为触摸设备添加更多的交互区域
+      ...(isMobile || isTablet ? { zIndex: 1 } : {}),
+    },
+    miniVideoContainer: {
+      width: miniWidth,
+      height: (miniWidth * 9) / 16,
+    },
+    videoPlayer: {
+      ...StyleSheet.absoluteFillObject,
+    },
+    loadingContainer: {
+      ...StyleSheet.absoluteFillObject,
+      backgroundColor: "rgba(0, 0, 0, 0.8)",
+      justifyContent: "center",
+      alignItems: "center",
+      zIndex: 10,
+    },
+    miniControls: {
+      flex: 1,
+      flexDirection: "row",
+      justifyContent: "space-around",
+      alignItems: "center",
+    },
+    miniButton: {
+      padding: 8,
+      minWidth: 0,
+    },
+  });
+};
+
+/**
+ * 播放器挂在根布局上，离开播放页后以小窗继续播放，Video 不会随路由卸载
+ */
+export const PlayerHost: React.FC = () => {
+  const videoRef = useRef<Video>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+
+  // 响应式布局配置
+  const { deviceType } = useResponsiveLayout();
+
+  const {
+    playerMode,
+    playingDetail,
+    isLoading,
+    showControls,
+    showNextEpisodeOverlay,
+    nextEpisodeCountdown,
+    isAsleep,
+    initialPosition,
+    playbackRate,
+    status,
+    currentEpisodeIndex,
+    setVideoRef,
+    handlePlaybackStatusUpdate,
+    setShowControls,
+    cancelAutoAdvance,
+    playNext,
+    togglePlayPause,
+    closePlayer,
+    loadHlsTracks,
+  } = usePlayerStore();
+  const currentEpisode = usePlayerStore(selectCurrentEpisode);
+  const playbackUrl = usePlayerStore(selectPlaybackUrl);
+  const nextQueueTitle = usePlayerStore(selectNextQueueTitle);
+  const isMini = playerMode === "mini";
+
+  // 使用Video事件处理hook
+  const { videoProps } = useVideoHandlers({
+    videoRef,
+    currentEpisode,
+    playbackUrl,
+    initialPosition,
+    playbackRate,
+    handlePlaybackStatusUpdate,
+    deviceType,
+    detail: playingDetail || undefined,
+  });
+
+  // TV遥控器处理 - 总是调用hook，但根据设备类型决定是否使用结果
+  const tvRemoteHandler = useTVRemoteHandler();
+
+  // 优化的动态样式 - 使用useMemo避免重复计算
+  const dynamicStyles = useMemo(() => createResponsiveStyles(deviceType), [deviceType]);
+
+  useEffect(() => {
+    setVideoRef(videoRef);
+  }, [setVideoRef]);
+
+  // 读取 HLS 主播放列表中的音轨与字幕组
+  useEffect(() => {
+    if (currentEpisode?.url) {
+      loadHlsTracks(currentEpisode.url);
+    }
+  }, [currentEpisode?.url, loadHlsTracks]);
+
+  useEffect(() => {
+    if (isMini && !MINI_PLAYER_ROUTES.includes(pathname)) {
+      logger.info(`Closing mini player on ${pathname}`);
+      closePlayer();
+    }
+  }, [isMini, pathname, closePlayer]);
+
+  // 优化的屏幕点击处理
+  const onScreenPress = useCallback(() => {
+    if (deviceType === "tv") {
+      tvRemoteHandler.onScreenPress();
+    } else {
+      setShowControls(!showControls);
+    }
+  }, [deviceType, tvRemoteHandler, setShowControls, showControls]);
+
+  const onExpand = useCallback(() => {
+    if (!playingDetail) return;
+    router.push({
+      pathname: "/play",
+      params: {
+        source: playingDetail.source,
+        id: playingDetail.id.toString(),
+        title: playingDetail.title,
+        episodeIndex: currentEpisodeIndex.toString(),
+      },
+    });
+  }, [router, playingDetail, currentEpisodeIndex]);
+
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      if (nextAppState === "background" || nextAppState === "inactive") {
+        videoRef.current?.pauseAsync();
+      }
+    };
+
+    const subscription = AppState.addEventListener("change", handleAppStateChange);
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    let timeoutId: NodeJS.Timeout | null = null;
+
+    if (isLoading && playerMode !== "hidden") {
+      timeoutId = setTimeout(() => {
+        if (usePlayerStore.getState().isLoading) {
+          usePlayerStore.setState({ isLoading: false });
+          Toast.show({ type: "error", text1: "播放超时，请重试" });
+        }
+      }, 60000); // 1 minute
+    }
+
+    return () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    };
+  }, [isLoading, playerMode]);
+
+  if (playerMode === "hidden") {
+    return null;
+  }
+
+  return (
+    <View style={isMini ? dynamicStyles.miniContainer : dynamicStyles.container}>
+      {!isAsleep && <KeepAwake />}
+      <TouchableOpacity
+        activeOpacity={1}
+        style={isMini ? dynamicStyles.miniVideoContainer : dynamicStyles.videoContainer}
+        onPress={isMini ? onExpand : onScreenPress}
+        disabled={!isMini && deviceType !== "tv" && showControls} // 移动端和平板端在显示控制条时禁用触摸
+      >
+        {/* 条件渲染Video组件：确定播放地址（去广告的播放列表）后才渲染 */}
+        {playbackUrl ? (
+          <Video
+            ref={videoRef}
+            style={dynamicStyles.videoPlayer}
+            {...videoProps}
+            useNativeControls={!isMini && videoProps.useNativeControls}
+          />
+        ) : (
+          <LoadingContainer style={dynamicStyles.loadingContainer} currentEpisode={currentEpisode} />
+        )}
+
+        {!isMini && (
+          <>
+            <SubtitleOverlay raised={showControls} />
+
+            {!showControls && <SkipMarkerButton />}
+
+            {showControls && deviceType === "tv" && (
+              <PlayerControls showControls={showControls} setShowControls={setShowControls} />
+            )}
+
+            <SeekingBar />
+          </>
+        )}
+
+        {/* 只在Video组件存在且正在加载时显示加载动画覆盖层 */}
+        {playbackUrl && isLoading && (
+          <View style={dynamicStyles.loadingContainer}>
+            <VideoLoadingAnimation showProgressBar={!isMini} />
+          </View>
+        )}
+
+        <NextEpisodeOverlay
+          visible={!isMini && showNextEpisodeOverlay}
+          nextTitle={nextQueueTitle}
+          countdown={nextEpisodeCountdown}
+          onPlayNow={playNext}
+          onCancel={cancelAutoAdvance}
+        />
+
+        {!isMini && <StillWatchingPrompt />}
+      </TouchableOpacity>
+
+      {isMini ? (
+        <View style={dynamicStyles.miniControls}>
+          <MediaButton onPress={togglePlayPause} style={dynamicStyles.miniButton}>
+            {status?.isLoaded && status.isPlaying ? (
+              <Pause color="white" size={20} />
+            ) : (
+              <Play color="white" size={20} />
+            )}
+          </MediaButton>
+          <MediaButton onPress={onExpand} style={dynamicStyles.miniButton}>
+            <Maximize2 color="white" size={20} />
+          </MediaButton>
+          <MediaButton onPress={closePlayer} style={dynamicStyles.miniButton}>
+            <X color="white" size={20} />
+          </MediaButton>
+        </View>
+      ) : (
+        <>
+          <EpisodeSelectionModal />
+          <SourceSelectionModal />
+          <SpeedSelectionModal />
+          <SubtitleSelectionModal />
+          <TrackSelectionModal />
+          <QualitySelectionModal />
+          <PlaybackQueueModal />
+          <SleepTimerModal />
+        </>
+      )}
+    </View>
+  );
+};
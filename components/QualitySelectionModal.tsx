@@ -0,0 +1,101 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, Modal, FlatList } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+import { formatBandwidth, getVariantQuality, sortVariants } from "@/services/m3u8";
+
+interface QualityOption {
+  quality: string | null; // null 表示自动
+  label: string;
+}
+
+export const QualitySelectionModal: React.FC = () => {
+  const { showQualityModal, setShowQualityModal, hlsTracks, selectedQuality, selectQuality } = usePlayerStore();
+
+  const options = useMemo<QualityOption[]>(() => {
+    const variants = sortVariants(hlsTracks?.master.variants || []);
+    const seen = new Set<string>();
+    const variantOptions: QualityOption[] = [];
+    // 同一清晰度只列出最高码率的变体
+    variants.forEach((variant) => {
+      const quality = getVariantQuality(variant);
+      if (seen.has(quality)) return;
+      seen.add(quality);
+      variantOptions.push({
+        quality,
+        label: variant.resolution
+          ? `${quality} · ${formatBandwidth(variant.bandwidth)}`
+          : formatBandwidth(variant.bandwidth),
+      });
+    });
+    return [{ quality: null, label: "自动" }, ...variantOptions];
+  }, [hlsTracks]);
+
+  const currentQuality =
+    selectedQuality && options.some((option) => option.quality === selectedQuality) ? selectedQuality : null;
+
+  const onSelectQuality = (quality: string | null) => {
+    if (quality !== currentQuality) {
+      selectQuality(quality);
+    }
+    setShowQualityModal(false);
+  };
+
+  const onClose = () => {
+    setShowQualityModal(false);
+  };
+
+  return (
+    <Modal visible={showQualityModal} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>清晰度</Text>
+          <FlatList
+            data={options}
+            keyExtractor={(item) => `quality-${item.quality ?? "auto"}`}
+            renderItem={({ item }) => (
+              <StyledButton
+                text={item.label}
+                onPress={() => onSelectQuality(item.quality)}
+                isSelected={currentQuality === item.quality}
+                hasTVPreferredFocus={currentQuality === item.quality}
+                style={styles.qualityItem}
+                textStyle={styles.qualityItemText}
+              />
+            )}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "transparent",
+  },
+  modalContent: {
+    width: 500,
+    height: "100%",
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 20,
+  },
+  modalTitle: {
+    color: "white",
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  qualityItem: {
+    paddingVertical: 10,
+    marginVertical: 4,
+    marginHorizontal: 8,
+  },
+  qualityItemText: {
+    fontSize: 16,
+  },
+});
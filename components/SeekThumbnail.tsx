@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from "react";
+import { View, Image, StyleSheet } from "react-native";
+import { useSeekThumbnail } from "@/hooks/useSeekThumbnail";
+
+const THUMBNAIL_WIDTH = 240;
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+interface SeekThumbnailProps {
+  positionMillis: number;
+}
+
+/**
+ * 快进时显示的预览画面，雪碧图按区域裁剪
+ */
+export const SeekThumbnail: React.FC<SeekThumbnailProps> = ({ positionMillis }) => {
+  const thumbnail = useSeekThumbnail(positionMillis);
+  const [loadedSheet, setLoadedSheet] = useState<{ uri: string; width: number; height: number } | null>(null);
+
+  const needsSheetSize = !!thumbnail?.region && !thumbnail.sheet;
+  useEffect(() => {
+    if (!thumbnail || !needsSheetSize) return;
+    Image.getSize(
+      thumbnail.uri,
+      (width, height) => setLoadedSheet({ uri: thumbnail.uri, width, height }),
+      () => setLoadedSheet(null)
+    );
+  }, [thumbnail, needsSheetSize]);
+
+  if (!thumbnail) {
+    return null;
+  }
+
+  const { region } = thumbnail;
+  if (!region) {
+    return (
+      <View style={styles.container}>
+        <Image
+          source={{ uri: thumbnail.uri }}
+          style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH / DEFAULT_ASPECT_RATIO }}
+          resizeMode="cover"
+        />
+      </View>
+    );
+  }
+
+  const sheet = thumbnail.sheet || (loadedSheet?.uri === thumbnail.uri ? loadedSheet : null);
+  if (!sheet) {
+    return null;
+  }
+
+  const scale = THUMBNAIL_WIDTH / region.width;
+  return (
+    <View style={[styles.container, { width: THUMBNAIL_WIDTH, height: region.height * scale }]}>
+      <Image
+        source={{ uri: thumbnail.uri }}
+        style={{
+          position: "absolute",
+          width: sheet.width * scale,
+          height: sheet.height * scale,
+          left: -region.x * scale,
+          top: -region.y * scale,
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: "hidden",
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: "white",
+    backgroundColor: "black",
+    marginBottom: 10,
+  },
+});
@@ -1,6 +1,9 @@
 import React from "react";
 import { View, StyleSheet, Text } from "react-native";
 import usePlayerStore from "@/stores/playerStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { formatSeekStep } from "@/services/seekSteps";
+import { SeekThumbnail } from "./SeekThumbnail";
 
 const formatTime = (milliseconds: number) => {
   if (isNaN(milliseconds) || milliseconds < 0) {
@@ -20,7 +23,8 @@ const formatTime = (milliseconds: number) => {
 };
 
 export const SeekingBar = () => {
-  const { isSeeking, seekPosition, status } = usePlayerStore();
+  const { isSeeking, seekPosition, seekStep, status } = usePlayerStore();
+  const baseStep = useSettingsStore((state) => state.seek.step) * 1000;
 
   if (!isSeeking || !status?.isLoaded) {
     return null;
@@ -28,9 +32,18 @@ export const SeekingBar = () => {
 
   const durationMillis = status.durationMillis || 0;
   const currentPositionMillis = seekPosition * durationMillis;
+  // 长按加速时显示当前倍数
+  const multiplier = seekStep ? Math.round(Math.abs(seekStep) / baseStep) : 1;
 
   return (
     <View style={styles.seekingContainer}>
+      <SeekThumbnail positionMillis={currentPositionMillis} />
+      {!!seekStep && (
+        <Text style={styles.stepText}>
+          {seekStep > 0 ? "▶▶" : "◀◀"} {formatSeekStep(seekStep)}
+          {multiplier > 1 ? ` ×${multiplier}` : ""}
+        </Text>
+      )}
       <Text style={styles.timeText}>
         {formatTime(currentPositionMillis)} / {formatTime(durationMillis)}
       </Text>
@@ -67,6 +80,15 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: 10,
   },
+  stepText: {
+    color: "white",
+    fontSize: 14,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
   seekingBarContainer: {
     width: "100%",
     height: 5,
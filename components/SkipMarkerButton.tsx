@@ -0,0 +1,60 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore, { selectActiveSkipMarker } from "@/stores/playerStore";
+import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+
+const LABELS = {
+  intro: "跳过片头",
+  outro: "跳过片尾",
+};
+
+/**
+ * 片头片尾期间显示的跳过提示。TV 端控制条隐藏时按上键跳过
+ */
+export const SkipMarkerButton: React.FC = () => {
+  const marker = usePlayerStore(selectActiveSkipMarker);
+  const skipMarker = usePlayerStore((state) => state.skipMarker);
+  const { deviceType } = useResponsiveLayout();
+
+  if (!marker) {
+    return null;
+  }
+
+  if (deviceType === "tv") {
+    return (
+      <View style={styles.container} pointerEvents="none">
+        <Text style={styles.hint}>按 ↑ 键{LABELS[marker]}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StyledButton text={LABELS[marker]} onPress={skipMarker} style={styles.button} textStyle={styles.buttonText} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    right: 40,
+    bottom: 100,
+  },
+  hint: {
+    color: "white",
+    fontSize: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    fontSize: 14,
+  },
+});
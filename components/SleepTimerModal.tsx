@@ -0,0 +1,88 @@
+import React from "react";
+import { View, Text, StyleSheet, Modal, FlatList } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+import { SLEEP_TIMER_OPTIONS, SleepTimerOption, getSleepTimerLabel } from "@/services/autoplay";
+
+const OPTIONS: (SleepTimerOption | null)[] = [null, ...SLEEP_TIMER_OPTIONS];
+
+export const SleepTimerModal: React.FC = () => {
+  const { showSleepTimerModal, setShowSleepTimerModal, sleepTimer, sleepTimerEndsAt, setSleepTimer } = usePlayerStore();
+
+  const onSelect = (option: SleepTimerOption | null) => {
+    setSleepTimer(option);
+    setShowSleepTimerModal(false);
+  };
+
+  const onClose = () => {
+    setShowSleepTimerModal(false);
+  };
+
+  const remainingMinutes = sleepTimerEndsAt
+    ? Math.max(1, Math.ceil((sleepTimerEndsAt - Date.now()) / 60000))
+    : undefined;
+
+  return (
+    <Modal visible={showSleepTimerModal} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>睡眠定时</Text>
+          {remainingMinutes !== undefined && <Text style={styles.modalHint}>{remainingMinutes} 分钟后暂停播放</Text>}
+          <FlatList
+            data={OPTIONS}
+            numColumns={3}
+            keyExtractor={(item) => `sleep-${item ?? "off"}`}
+            renderItem={({ item }) => (
+              <StyledButton
+                text={item === null ? "关闭" : getSleepTimerLabel(item)}
+                onPress={() => onSelect(item)}
+                isSelected={sleepTimer === item}
+                hasTVPreferredFocus={sleepTimer === item}
+                style={styles.optionItem}
+                textStyle={styles.optionItemText}
+              />
+            )}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "transparent",
+  },
+  modalContent: {
+    width: 500,
+    height: "100%",
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 20,
+  },
+  modalTitle: {
+    color: "white",
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  modalHint: {
+    color: "#ccc",
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 14,
+  },
+  optionItem: {
+    paddingVertical: 10,
+    margin: 4,
+    marginLeft: 10,
+    marginRight: 8,
+    width: "30%",
+  },
+  optionItemText: {
+    fontSize: 16,
+  },
+});
@@ -1,20 +1,34 @@
 import React from "react";
 import { View, Text, StyleSheet, Modal, FlatList } from "react-native";
+import Toast from "react-native-toast-message";
 import { StyledButton } from "./StyledButton";
 import useDetailStore from "@/stores/detailStore";
 import usePlayerStore from "@/stores/playerStore";
+import { formatThroughput } from "@/services/speedTest";
+import { getEpisodeNumbers, mapEpisodeIndex } from "@/services/episodeAlignment";
 import Logger from '@/utils/Logger';
 
 const logger = Logger.withTag('SourceSelectionModal');
 
 export const SourceSelectionModal: React.FC = () => {
-  const { showSourceModal, setShowSourceModal, loadVideo, currentEpisodeIndex, status } = usePlayerStore();
+  const { showSourceModal, setShowSourceModal, loadVideo, currentEpisodeIndex, status, playingDetail } =
+    usePlayerStore();
   const { searchResults, detail, setDetail } = useDetailStore();
 
   const onSelectSource = (index: number) => {
     logger.debug("onSelectSource", index, searchResults[index].source, detail?.source);
     if (searchResults[index].source !== detail?.source) {
       const newDetail = searchResults[index];
+      const currentDetail = playingDetail ?? detail;
+      const isNumbered = !!currentDetail && getEpisodeNumbers(currentDetail)[currentEpisodeIndex] !== undefined;
+      // 预告、特别篇等没有集数，无法按集数对应，切换到另一个播放源的相同位置
+      const episodeIndex = isNumbered
+        ? mapEpisodeIndex(currentDetail, currentEpisodeIndex, newDetail)
+        : Math.max(0, Math.min(currentEpisodeIndex, newDetail.episodes.length - 1));
+      if (episodeIndex === undefined) {
+        Toast.show({ type: "info", text1: "该播放源没有这一集" });
+        return;
+      }
       setDetail(newDetail);
       
       // Reload the video with the new source, preserving current position
@@ -22,7 +36,7 @@ export const SourceSelectionModal: React.FC = () => {
       loadVideo({
         source: newDetail.source,
         id: newDetail.id.toString(),
-        episodeIndex: currentEpisodeIndex,
+        episodeIndex,
         title: newDetail.title,
         position: currentPosition
       });
@@ -46,13 +60,19 @@ export const SourceSelectionModal: React.FC = () => {
             keyExtractor={(item, index) => `source-${item.source}-${index}`}
             renderItem={({ item, index }) => (
               <StyledButton
-                text={item.source_name}
                 onPress={() => onSelectSource(index)}
                 isSelected={detail?.source === item.source}
                 hasTVPreferredFocus={detail?.source === item.source}
                 style={styles.sourceItem}
-                textStyle={styles.sourceItemText}
-              />
+              >
+                <View style={styles.sourceItemContent}>
+                  <Text style={styles.sourceItemText} numberOfLines={1}>
+                    {item.source_name}
+                  </Text>
+                  {/* 分片实测下载速度 */}
+                  {item.throughput && <Text style={styles.sourceSpeedText}>{formatThroughput(item.throughput)}</Text>}
+                </View>
+              </StyledButton>
             )}
           />
         </View>
@@ -91,7 +111,17 @@ const styles = StyleSheet.create({
     marginRight: 8,
     width: "30%",
   },
+  sourceItemContent: {
+    alignItems: "center",
+  },
   sourceItemText: {
+    color: "white",
     fontSize: 14,
+    fontWeight: "500",
+  },
+  sourceSpeedText: {
+    color: "#ccc",
+    fontSize: 12,
+    marginTop: 2,
   },
 });
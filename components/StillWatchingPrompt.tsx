@@ -0,0 +1,80 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+
+/**
+ * 连续自动播放若干集后暂停，询问是否还在观看
+ */
+export const StillWatchingPrompt: React.FC = () => {
+  const showStillWatchingPrompt = usePlayerStore((state) => state.showStillWatchingPrompt);
+  const continueWatching = usePlayerStore((state) => state.continueWatching);
+  const dismissStillWatching = usePlayerStore((state) => state.dismissStillWatching);
+
+  if (!showStillWatchingPrompt) {
+    return null;
+  }
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.content}>
+        <ThemedText style={styles.title}>还在看吗？</ThemedText>
+        <ThemedText style={styles.description}>已连续自动播放多集，继续观看将播放下一集</ThemedText>
+        <View style={styles.buttons}>
+          <StyledButton
+            text="继续观看"
+            onPress={continueWatching}
+            hasTVPreferredFocus
+            style={styles.button}
+            textStyle={styles.buttonText}
+          />
+          <StyledButton
+            text="暂不观看"
+            onPress={dismissStillWatching}
+            style={styles.button}
+            textStyle={styles.buttonText}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    borderRadius: 8,
+    padding: 24,
+    alignItems: "center",
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#ccc",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+  },
+  buttonText: {
+    fontSize: 16,
+  },
+});
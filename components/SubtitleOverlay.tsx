@@ -0,0 +1,56 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import usePlayerStore from "@/stores/playerStore";
+import { findActiveCueText } from "@/services/subtitles";
+
+interface SubtitleOverlayProps {
+  // 控制条显示时把字幕上移，避免被进度条遮挡
+  raised?: boolean;
+}
+
+export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ raised }) => {
+  const subtitleCues = usePlayerStore((state) => state.subtitleCues);
+  const subtitleOffset = usePlayerStore((state) => state.subtitleOffset);
+  const positionMillis = usePlayerStore((state) => (state.status?.isLoaded ? state.status.positionMillis : 0));
+
+  // 偏移为正数时字幕延后显示
+  const text = useMemo(
+    () => findActiveCueText(subtitleCues, positionMillis - subtitleOffset),
+    [subtitleCues, positionMillis, subtitleOffset]
+  );
+
+  if (!text) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, raised && styles.raised]} pointerEvents="none">
+      <Text style={styles.text}>{text}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 40,
+    right: 40,
+    bottom: 40,
+    alignItems: "center",
+  },
+  raised: {
+    bottom: 160,
+  },
+  text: {
+    color: "white",
+    fontSize: 26,
+    textAlign: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 4,
+    textShadowColor: "black",
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+});
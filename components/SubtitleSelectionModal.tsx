@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, Modal, ScrollView, TextInput } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+import { Colors } from "@/constants/Colors";
+
+const OFFSET_STEP = 500; // 每次调整 0.5 秒
+
+const formatOffset = (offset: number) => `${offset > 0 ? "+" : ""}${(offset / 1000).toFixed(1)}s`;
+
+export const SubtitleSelectionModal: React.FC = () => {
+  const {
+    showSubtitleModal,
+    setShowSubtitleModal,
+    subtitleTracks,
+    selectedSubtitleUrl,
+    subtitleOffset,
+    isSubtitleLoading,
+    addSubtitleTrack,
+    selectSubtitleTrack,
+    setSubtitleOffset,
+  } = usePlayerStore();
+  const [newUrl, setNewUrl] = useState("");
+  const [isInputFocused, setIsInputFocused] = useState(false);
+
+  const onClose = () => {
+    setShowSubtitleModal(false);
+  };
+
+  const onAdd = () => {
+    if (!newUrl.trim()) return;
+    addSubtitleTrack(newUrl);
+    setNewUrl("");
+  };
+
+  return (
+    <Modal visible={showSubtitleModal} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>字幕</Text>
+          <ScrollView contentContainerStyle={styles.trackList}>
+            <StyledButton
+              text="关闭字幕"
+              onPress={() => selectSubtitleTrack(null)}
+              isSelected={!selectedSubtitleUrl}
+              hasTVPreferredFocus={!selectedSubtitleUrl}
+              style={styles.trackItem}
+              textStyle={styles.trackItemText}
+            />
+            {subtitleTracks.map((track) => (
+              <StyledButton
+                key={track.url}
+                text={
+                  isSubtitleLoading && track.url === selectedSubtitleUrl ? `${track.label}（加载中...）` : track.label
+                }
+                onPress={() => selectSubtitleTrack(track.url)}
+                isSelected={track.url === selectedSubtitleUrl}
+                hasTVPreferredFocus={track.url === selectedSubtitleUrl}
+                style={styles.trackItem}
+                textStyle={styles.trackItemText}
+              />
+            ))}
+
+            <Text style={styles.sectionTitle}>时间偏移 {formatOffset(subtitleOffset)}</Text>
+            <View style={styles.row}>
+              <StyledButton
+                text="提前 0.5s"
+                onPress={() => setSubtitleOffset(subtitleOffset - OFFSET_STEP)}
+                style={styles.rowButton}
+                textStyle={styles.trackItemText}
+              />
+              <StyledButton
+                text="延后 0.5s"
+                onPress={() => setSubtitleOffset(subtitleOffset + OFFSET_STEP)}
+                style={styles.rowButton}
+                textStyle={styles.trackItemText}
+              />
+              <StyledButton
+                text="重置"
+                onPress={() => setSubtitleOffset(0)}
+                disabled={subtitleOffset === 0}
+                style={styles.rowButton}
+                textStyle={styles.trackItemText}
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>添加外挂字幕（SRT / WebVTT / ASS）</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, isInputFocused && styles.inputFocused]}
+                value={newUrl}
+                onChangeText={setNewUrl}
+                placeholder="输入字幕地址"
+                placeholderTextColor="#888"
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={onAdd}
+                onFocus={() => setIsInputFocused(true)}
+                onBlur={() => setIsInputFocused(false)}
+              />
+              <StyledButton text="添加" onPress={onAdd} style={styles.addButton} textStyle={styles.trackItemText} />
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "transparent",
+  },
+  modalContent: {
+    width: 500,
+    height: "100%",
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 20,
+  },
+  modalTitle: {
+    color: "white",
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  trackList: {
+    paddingBottom: 20,
+  },
+  trackItem: {
+    paddingVertical: 10,
+    marginVertical: 4,
+    marginHorizontal: 8,
+  },
+  trackItemText: {
+    fontSize: 16,
+  },
+  sectionTitle: {
+    color: "#ccc",
+    fontSize: 15,
+    marginTop: 20,
+    marginBottom: 8,
+    marginHorizontal: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 8,
+  },
+  rowButton: {
+    flex: 1,
+    paddingVertical: 10,
+  },
+  input: {
+    flex: 1,
+    height: 50,
+    borderWidth: 2,
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: "#3a3a3c",
+    color: "white",
+    borderColor: "transparent",
+  },
+  inputFocused: {
+    borderColor: Colors.dark.primary,
+  },
+  addButton: {
+    height: 50,
+    paddingHorizontal: 20,
+  },
+});
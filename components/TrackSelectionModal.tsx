@@ -0,0 +1,133 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, Modal, ScrollView } from "react-native";
+import { StyledButton } from "./StyledButton";
+import usePlayerStore from "@/stores/playerStore";
+import { HlsRendition } from "@/services/m3u8";
+
+const formatRendition = (rendition: HlsRendition) =>
+  rendition.language && rendition.language !== rendition.name
+    ? `${rendition.name}（${rendition.language}）`
+    : rendition.name;
+
+export const TrackSelectionModal: React.FC = () => {
+  const {
+    showTrackModal,
+    setShowTrackModal,
+    hlsTracks,
+    selectedAudioTrack,
+    selectedEmbeddedSubtitle,
+    selectAudioTrack,
+    selectEmbeddedSubtitle,
+  } = usePlayerStore();
+
+  // 同名音轨会出现在多个音频组中，只列出一次
+  const audioTracks = useMemo(() => {
+    const renditions = hlsTracks?.master.audioRenditions || [];
+    return renditions.filter((rendition, index) => renditions.findIndex((r) => r.name === rendition.name) === index);
+  }, [hlsTracks]);
+  const subtitleTracks = hlsTracks?.master.subtitleRenditions || [];
+  const currentAudioTrack =
+    selectedAudioTrack && audioTracks.some((rendition) => rendition.name === selectedAudioTrack)
+      ? selectedAudioTrack
+      : (audioTracks.find((rendition) => rendition.isDefault) || audioTracks[0])?.name;
+
+  const onClose = () => {
+    setShowTrackModal(false);
+  };
+
+  const onSelectAudio = (name: string) => {
+    if (name !== currentAudioTrack) {
+      selectAudioTrack(name);
+    }
+    setShowTrackModal(false);
+  };
+
+  const onSelectSubtitle = (name: string | null) => {
+    selectEmbeddedSubtitle(name);
+    setShowTrackModal(false);
+  };
+
+  return (
+    <Modal visible={showTrackModal} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <ScrollView contentContainerStyle={styles.trackList}>
+            {audioTracks.length > 1 && (
+              <>
+                <Text style={styles.modalTitle}>音轨</Text>
+                {audioTracks.map((rendition) => (
+                  <StyledButton
+                    key={`audio-${rendition.name}`}
+                    text={formatRendition(rendition)}
+                    onPress={() => onSelectAudio(rendition.name)}
+                    isSelected={rendition.name === currentAudioTrack}
+                    hasTVPreferredFocus={rendition.name === currentAudioTrack}
+                    style={styles.trackItem}
+                    textStyle={styles.trackItemText}
+                  />
+                ))}
+              </>
+            )}
+            {subtitleTracks.length > 0 && (
+              <>
+                <Text style={styles.modalTitle}>字幕</Text>
+                <StyledButton
+                  text="关闭"
+                  onPress={() => onSelectSubtitle(null)}
+                  isSelected={!selectedEmbeddedSubtitle}
+                  hasTVPreferredFocus={audioTracks.length <= 1 && !selectedEmbeddedSubtitle}
+                  style={styles.trackItem}
+                  textStyle={styles.trackItemText}
+                />
+                {subtitleTracks.map((rendition) => (
+                  <StyledButton
+                    key={`subtitle-${rendition.groupId}-${rendition.name}`}
+                    text={formatRendition(rendition)}
+                    onPress={() => onSelectSubtitle(rendition.name)}
+                    isSelected={rendition.name === selectedEmbeddedSubtitle}
+                    style={styles.trackItem}
+                    textStyle={styles.trackItemText}
+                  />
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    backgroundColor: "transparent",
+  },
+  modalContent: {
+    width: 500,
+    height: "100%",
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 20,
+  },
+  modalTitle: {
+    color: "white",
+    marginTop: 8,
+    marginBottom: 12,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  trackList: {
+    paddingBottom: 20,
+  },
+  trackItem: {
+    paddingVertical: 10,
+    marginVertical: 4,
+    marginHorizontal: 8,
+  },
+  trackItemText: {
+    fontSize: 16,
+  },
+});
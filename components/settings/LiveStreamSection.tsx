@@ -1,13 +1,22 @@
 import React, { useState, useRef, useImperativeHandle, forwardRef } from "react";
-import { View, TextInput, StyleSheet, Animated, Platform } from "react-native";
-import { useTVEventHandler } from "react-native";
+import { View, TextInput, StyleSheet } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
+import { StyledButton } from "@/components/StyledButton";
 import { SettingsSection } from "./SettingsSection";
 import { useSettingsStore } from "@/stores/settingsStore";
 import { useRemoteControlStore } from "@/stores/remoteControlStore";
-import { useButtonAnimation } from "@/hooks/useAnimation";
+import { LiveSource } from "@/services/storage";
 import { Colors } from "@/constants/Colors";
-import { useResponsiveLayout } from "@/hooks/useResponsiveLayout";
+
+// 可选的自动刷新间隔（分钟），0 表示每次进入直播页都重新拉取
+const REFRESH_INTERVAL_OPTIONS = [0, 30, 60, 360, 1440];
+
+const formatRefreshInterval = (minutes: number) => {
+  if (minutes === 0) return "每次进入";
+  if (minutes < 60) return `${minutes} 分钟`;
+  if (minutes < 1440) return `${minutes / 60} 小时`;
+  return `${minutes / 1440} 天`;
+};
 
 interface LiveStreamSectionProps {
   onChanged: () => void;
@@ -21,106 +30,163 @@ export interface LiveStreamSectionRef {
 }
 
 export const LiveStreamSection = forwardRef<LiveStreamSectionRef, LiveStreamSectionProps>(
-  ({ onChanged, onFocus, onBlur, onPress }, ref) => {
-    const { m3uUrl, setM3uUrl, remoteInputEnabled } = useSettingsStore();
+  ({ onChanged, onFocus, onBlur }, ref) => {
+    const { liveSources, addLiveSource, updateLiveSource, removeLiveSource, remoteInputEnabled } =
+      useSettingsStore();
     const { serverUrl } = useRemoteControlStore();
-    const [isInputFocused, setIsInputFocused] = useState(false);
-    const [isSectionFocused, setIsSectionFocused] = useState(false);
-    const inputRef = useRef<TextInput>(null);
-    const inputAnimationStyle = useButtonAnimation(isSectionFocused, 1.01);
-    const deviceType = useResponsiveLayout().deviceType;
-
-    const handleUrlChange = (url: string) => {
-      setM3uUrl(url);
-      onChanged();
-    };
+    const [newName, setNewName] = useState("");
+    const [newUrl, setNewUrl] = useState("");
+    const [newType, setNewType] = useState<"m3u" | "xtream">("m3u");
+    const [newUsername, setNewUsername] = useState("");
+    const [newPassword, setNewPassword] = useState("");
+    const [focusedInput, setFocusedInput] = useState<"name" | "url" | "username" | "password" | null>(null);
+    const urlInputRef = useRef<TextInput>(null);
 
+    // 远程输入的内容填入新订阅的地址栏
     useImperativeHandle(ref, () => ({
       setInputValue: (value: string) => {
-        setM3uUrl(value);
-        onChanged();
+        setNewUrl(value);
       },
     }));
 
-    const handleSectionFocus = () => {
-      setIsSectionFocused(true);
-      onFocus?.();
-    };
-
-    const handleSectionBlur = () => {
-      setIsSectionFocused(false);
-      onBlur?.();
+    const handleAdd = () => {
+      if (!newUrl.trim()) {
+        urlInputRef.current?.focus();
+        return;
+      }
+      if (newType === "xtream" && (!newUsername.trim() || !newPassword)) {
+        return;
+      }
+      addLiveSource({ name: newName, url: newUrl, type: newType, username: newUsername, password: newPassword });
+      setNewName("");
+      setNewUrl("");
+      setNewUsername("");
+      setNewPassword("");
+      onChanged();
     };
 
-    const handlePress = () => {
-      inputRef.current?.focus();
-      onPress?.();
-    }
-
-    const handleTVEvent = React.useCallback(
-      (event: any) => {
-        if (isSectionFocused && event.eventType === "select") {
-          inputRef.current?.focus();
-        }
+    const getInputProps = (input: "name" | "url" | "username" | "password") => ({
+      placeholderTextColor: "#888",
+      onFocus: () => {
+        setFocusedInput(input);
+        onFocus?.();
       },
-      [isSectionFocused]
-    );
+      onBlur: () => {
+        setFocusedInput(null);
+        onBlur?.();
+      },
+    });
 
-    useTVEventHandler(handleTVEvent);
+    const handleToggle = (source: LiveSource) => {
+      updateLiveSource(source.id, { enabled: !source.enabled });
+      onChanged();
+    };
 
+    const handleCycleInterval = (source: LiveSource) => {
+      const index = REFRESH_INTERVAL_OPTIONS.indexOf(source.refreshInterval);
+      const refreshInterval = REFRESH_INTERVAL_OPTIONS[(index + 1) % REFRESH_INTERVAL_OPTIONS.length];
+      updateLiveSource(source.id, { refreshInterval });
+      onChanged();
+    };
 
-        const [selection, setSelection] = useState<{ start: number; end: number }>({
-          start: 0,
-          end: 0,
-        });
-        // 当用户手动移动光标或选中文本时，同步到 state（可选）
-        const onSelectionChange = ({
-          nativeEvent: { selection },
-        }: any) => {
-          setSelection(selection);
-        };
+    const handleRemove = (source: LiveSource) => {
+      removeLiveSource(source.id);
+      onChanged();
+    };
 
     return (
-      <SettingsSection focusable onFocus={handleSectionFocus} onBlur={handleSectionBlur}
-        onPress={Platform.isTV || deviceType !== 'tv' ? undefined : handlePress}
-      >
-        <View style={styles.inputContainer}>
-          <View style={styles.titleContainer}>
-            <ThemedText style={styles.sectionTitle}>直播源地址</ThemedText>
-            {remoteInputEnabled && serverUrl && (
-              <ThemedText style={styles.subtitle}>用手机访问 {serverUrl}，可远程输入</ThemedText>
-            )}
+      <SettingsSection>
+        <View style={styles.titleContainer}>
+          <ThemedText style={styles.sectionTitle}>直播源订阅</ThemedText>
+          {remoteInputEnabled && serverUrl && (
+            <ThemedText style={styles.subtitle}>用手机访问 {serverUrl}，可远程输入地址</ThemedText>
+          )}
+        </View>
+
+        {liveSources.length === 0 && (
+          <ThemedText style={styles.emptyText}>还没有直播源，请在下方添加</ThemedText>
+        )}
+        {liveSources.map((source) => (
+          <View key={source.id} style={styles.sourceRow}>
+            <View style={styles.sourceInfo}>
+              <ThemedText style={[styles.sourceName, !source.enabled && styles.disabledText]} numberOfLines={1}>
+                {source.name}
+              </ThemedText>
+              <ThemedText style={styles.sourceUrl} numberOfLines={1}>
+                {source.type === "xtream" ? `Xtream · ${source.url} · ${source.username}` : source.url}
+              </ThemedText>
+            </View>
+            <StyledButton
+              text={source.enabled ? "已启用" : "已停用"}
+              variant={source.enabled ? "primary" : "default"}
+              onPress={() => handleToggle(source)}
+              style={styles.actionButton}
+              textStyle={styles.actionButtonText}
+            />
+            <StyledButton
+              text={formatRefreshInterval(source.refreshInterval)}
+              onPress={() => handleCycleInterval(source)}
+              style={styles.actionButton}
+              textStyle={styles.actionButtonText}
+            />
+            <StyledButton
+              text="删除"
+              onPress={() => handleRemove(source)}
+              style={styles.actionButton}
+              textStyle={styles.actionButtonText}
+            />
           </View>
-          <Animated.View style={inputAnimationStyle}>
+        ))}
+
+        <View style={styles.addRow}>
+          <StyledButton
+            text={newType === "xtream" ? "Xtream" : "M3U"}
+            onPress={() => setNewType(newType === "xtream" ? "m3u" : "xtream")}
+            style={styles.addButton}
+          />
+          <TextInput
+            style={[styles.input, styles.nameInput, focusedInput === "name" && styles.inputFocused]}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="名称"
+            {...getInputProps("name")}
+          />
+          <TextInput
+            ref={urlInputRef}
+            style={[styles.input, styles.urlInput, focusedInput === "url" && styles.inputFocused]}
+            value={newUrl}
+            onChangeText={setNewUrl}
+            placeholder={newType === "xtream" ? "输入 Xtream 服务器地址" : "输入 M3U 直播源地址"}
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={handleAdd}
+            {...getInputProps("url")}
+          />
+          <StyledButton text="添加" onPress={handleAdd} style={styles.addButton} />
+        </View>
+        {newType === "xtream" && (
+          <View style={styles.addRow}>
             <TextInput
-              ref={inputRef}
-              style={[styles.input, isInputFocused && styles.inputFocused]}
-              value={m3uUrl}
-              onChangeText={handleUrlChange}
-              placeholder="输入 M3U 直播源地址"
-              placeholderTextColor="#888"
+              style={[styles.input, styles.urlInput, focusedInput === "username" && styles.inputFocused]}
+              value={newUsername}
+              onChangeText={setNewUsername}
+              placeholder="用户名"
               autoCapitalize="none"
               autoCorrect={false}
-              onFocus={() => {
-                setIsInputFocused(true);
-                // 将光标移动到文本末尾
-                const end = m3uUrl.length;
-                setSelection({ start: end, end: end });
-                // 有时需要延迟一下，让系统先完成 focus 再设置 selection
-                //（在 Android 上更可靠）
-                setTimeout(() => {
-                  // 对于受控的 selection 已经生效，这里仅作保险
-                  inputRef.current?.setNativeProps({ selection: { start: end, end: end } });
-                }, 0);
-              }}
-              selection={selection}
-              onSelectionChange={onSelectionChange} // 可选
-
-              onBlur={() => setIsInputFocused(false)}
-            // onPress={handlePress}
+              {...getInputProps("username")}
             />
-          </Animated.View>
-        </View>
+            <TextInput
+              style={[styles.input, styles.urlInput, focusedInput === "password" && styles.inputFocused]}
+              value={newPassword}
+              onChangeText={setNewPassword}
+              placeholder="密码"
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+              {...getInputProps("password")}
+            />
+          </View>
+        )}
       </SettingsSection>
     );
   }
@@ -144,8 +210,44 @@ const styles = StyleSheet.create({
     color: "#888",
     fontStyle: "italic",
   },
-  inputContainer: {
+  emptyText: {
+    fontSize: 14,
+    color: "#888",
+    marginBottom: 8,
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#888",
+  },
+  sourceUrl: {
+    fontSize: 12,
+    color: "#aaa",
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  actionButtonText: {
+    fontSize: 13,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
     marginBottom: 12,
+    gap: 8,
   },
   input: {
     height: 50,
@@ -157,6 +259,12 @@ const styles = StyleSheet.create({
     color: "white",
     borderColor: "transparent",
   },
+  nameInput: {
+    width: 140,
+  },
+  urlInput: {
+    flex: 1,
+  },
   inputFocused: {
     borderColor: Colors.dark.primary,
     shadowColor: Colors.dark.primary,
@@ -165,4 +273,8 @@ const styles = StyleSheet.create({
     shadowRadius: 10,
     elevation: 5,
   },
+  addButton: {
+    height: 50,
+    paddingHorizontal: 20,
+  },
 });
@@ -0,0 +1,204 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { StyledButton } from "@/components/StyledButton";
+import { SettingsSection } from "./SettingsSection";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { AdFilterOptions } from "@/services/hlsAdFilter";
+import { AutoplayOptions } from "@/services/autoplay";
+import { SeekOptions } from "@/services/seekSteps";
+
+// 可选的最长广告时长（秒）
+const MAX_AD_DURATION_OPTIONS = [30, 60, 120, 180];
+// 可选的自动播放倒计时（秒）
+const AUTOPLAY_COUNTDOWN_OPTIONS = [5, 10, 15, 30];
+// 连续自动播放多少集后询问，0 表示不询问
+const STILL_WATCHING_OPTIONS = [0, 2, 3, 5];
+// 可选的遥控器快进快退步长（秒）
+const SEEK_STEP_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+const nextOption = (options: number[], value: number) => options[(options.indexOf(value) + 1) % options.length];
+
+interface PlaybackSectionProps {
+  onChanged: () => void;
+  onFocus?: () => void;
+}
+
+export const PlaybackSection: React.FC<PlaybackSectionProps> = ({ onChanged, onFocus }) => {
+  const { adFilter, setAdFilter, skipMarkerInference, setSkipMarkerInference, autoplay, setAutoplay, seek, setSeek } =
+    useSettingsStore();
+
+  const updateAdFilter = (updates: Partial<AdFilterOptions>) => {
+    setAdFilter(updates);
+    onChanged();
+  };
+
+  const handleCycleMaxDuration = () => {
+    updateAdFilter({ maxAdDuration: nextOption(MAX_AD_DURATION_OPTIONS, adFilter.maxAdDuration) });
+  };
+
+  const updateAutoplay = (updates: Partial<AutoplayOptions>) => {
+    setAutoplay(updates);
+    onChanged();
+  };
+
+  const updateSeek = (updates: Partial<SeekOptions>) => {
+    setSeek(updates);
+    onChanged();
+  };
+
+  const renderToggle = (label: string, key: "checkHost" | "checkPath" | "checkFileName") => (
+    <StyledButton
+      text={label}
+      variant={adFilter[key] ? "primary" : "default"}
+      onPress={() => updateAdFilter({ [key]: !adFilter[key] })}
+      onFocus={onFocus}
+      disabled={!adFilter.enabled}
+      style={styles.actionButton}
+      textStyle={styles.actionButtonText}
+    />
+  );
+
+  return (
+    <SettingsSection>
+      <ThemedText style={styles.sectionTitle}>播放设置</ThemedText>
+      <View style={styles.row}>
+        <View style={styles.info}>
+          <ThemedText style={styles.settingName}>过滤 HLS 插播广告</ThemedText>
+          <ThemedText style={styles.settingDescription}>删除与正片域名、目录或文件名不一致的短片段</ThemedText>
+        </View>
+        <StyledButton
+          text={adFilter.enabled ? "已启用" : "已停用"}
+          variant={adFilter.enabled ? "primary" : "default"}
+          onPress={() => updateAdFilter({ enabled: !adFilter.enabled })}
+          onFocus={onFocus}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+      <View style={styles.row}>
+        {renderToggle("域名", "checkHost")}
+        {renderToggle("目录", "checkPath")}
+        {renderToggle("文件名", "checkFileName")}
+        <StyledButton
+          text={`广告最长 ${adFilter.maxAdDuration} 秒`}
+          onPress={handleCycleMaxDuration}
+          onFocus={onFocus}
+          disabled={!adFilter.enabled}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.info}>
+          <ThemedText style={styles.settingName}>自动识别片头片尾</ThemedText>
+          <ThemedText style={styles.settingDescription}>多集中跳过了相同位置后，同一部剧的其他集也提示跳过</ThemedText>
+        </View>
+        <StyledButton
+          text={skipMarkerInference ? "已启用" : "已停用"}
+          variant={skipMarkerInference ? "primary" : "default"}
+          onPress={() => {
+            setSkipMarkerInference(!skipMarkerInference);
+            onChanged();
+          }}
+          onFocus={onFocus}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.info}>
+          <ThemedText style={styles.settingName}>自动播放下一集</ThemedText>
+          <ThemedText style={styles.settingDescription}>结束前倒计时，可以取消或立即播放</ThemedText>
+        </View>
+        <StyledButton
+          text={autoplay.enabled ? "已启用" : "已停用"}
+          variant={autoplay.enabled ? "primary" : "default"}
+          onPress={() => updateAutoplay({ enabled: !autoplay.enabled })}
+          onFocus={onFocus}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+      <View style={styles.row}>
+        <StyledButton
+          text={`倒计时 ${autoplay.countdown} 秒`}
+          onPress={() => updateAutoplay({ countdown: nextOption(AUTOPLAY_COUNTDOWN_OPTIONS, autoplay.countdown) })}
+          onFocus={onFocus}
+          disabled={!autoplay.enabled}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+        <StyledButton
+          text={
+            autoplay.stillWatchingEpisodes > 0
+              ? `连续 ${autoplay.stillWatchingEpisodes} 集后询问“还在看吗？”`
+              : "不询问“还在看吗？”"
+          }
+          onPress={() =>
+            updateAutoplay({
+              stillWatchingEpisodes: nextOption(STILL_WATCHING_OPTIONS, autoplay.stillWatchingEpisodes),
+            })
+          }
+          onFocus={onFocus}
+          disabled={!autoplay.enabled}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.info}>
+          <ThemedText style={styles.settingName}>遥控器快进快退</ThemedText>
+          <ThemedText style={styles.settingDescription}>长按时步长逐渐加大，数字键 0-9 跳到对应的百分比位置</ThemedText>
+        </View>
+        <StyledButton
+          text={`步长 ${seek.step} 秒`}
+          onPress={() => updateSeek({ step: nextOption(SEEK_STEP_OPTIONS, seek.step) })}
+          onFocus={onFocus}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+        <StyledButton
+          text={seek.accelerate ? "长按加速" : "匀速"}
+          variant={seek.accelerate ? "primary" : "default"}
+          onPress={() => updateSeek({ accelerate: !seek.accelerate })}
+          onFocus={onFocus}
+          style={styles.actionButton}
+          textStyle={styles.actionButtonText}
+        />
+      </View>
+    </SettingsSection>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  info: {
+    flex: 1,
+  },
+  settingName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  settingDescription: {
+    fontSize: 12,
+    color: "#aaa",
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  actionButtonText: {
+    fontSize: 13,
+  },
+});
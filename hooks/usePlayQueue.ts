@@ -0,0 +1,36 @@
+import { useCallback } from "react";
+import { useRouter } from "expo-router";
+import Toast from "react-native-toast-message";
+import useQueueStore, { QueueItem } from "@/stores/queueStore";
+
+/**
+ * 播放队列入口：“全部播放”从第一项开始播放，播完一部后自动播放下一部
+ */
+export const usePlayQueue = () => {
+  const router = useRouter();
+  const setQueue = useQueueStore((state) => state.setQueue);
+  const addItem = useQueueStore((state) => state.addItem);
+
+  const playAll = useCallback(
+    (items: QueueItem[]) => {
+      if (items.length === 0) return;
+      setQueue(items, 0);
+      const first = useQueueStore.getState().items[0];
+      router.push({
+        pathname: "/play",
+        params: { source: first.source, id: first.id, title: first.title, episodeIndex: "0" },
+      });
+    },
+    [router, setQueue]
+  );
+
+  const addToQueue = useCallback(
+    (item: QueueItem) => {
+      const added = addItem(item);
+      Toast.show({ type: added ? "success" : "info", text1: added ? "已加入播放队列" : "已在播放队列中" });
+    },
+    [addItem]
+  );
+
+  return { playAll, addToQueue };
+};
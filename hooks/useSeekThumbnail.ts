@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import usePlayerStore, { selectPlaybackUrl } from "@/stores/playerStore";
+import { SeekThumbnail, ThumbnailSource, getSeekThumbnail, loadThumbnailSource } from "@/services/seekThumbnails";
+
+// 需要解码时等快进停顿后再获取，避免连续快进时下载每一个分片
+const DECODE_DELAY = 300;
+
+// 进度条只在快进时显示，缩略图来源按播放地址缓存，避免每次快进都重新请求播放列表
+let cachedSource: { url: string; source: Promise<ThumbnailSource | null> } | null = null;
+
+const getThumbnailSource = (url: string) => {
+  if (cachedSource?.url !== url) {
+    cachedSource = { url, source: loadThumbnailSource(url) };
+  }
+  return cachedSource.source;
+};
+
+/**
+ * 快进预览：返回目标位置的缩略图，暂时没有时保留上一张
+ */
+export const useSeekThumbnail = (positionMillis: number) => {
+  const playbackUrl = usePlayerStore(selectPlaybackUrl);
+  const [thumbnail, setThumbnail] = useState<SeekThumbnail | null>(null);
+
+  const isCovered = !!thumbnail && positionMillis >= thumbnail.start && positionMillis < thumbnail.end;
+
+  useEffect(() => {
+    if (!playbackUrl || isCovered) return;
+
+    let cancelled = false;
+    let timeoutId: NodeJS.Timeout | undefined;
+    getThumbnailSource(playbackUrl).then((source) => {
+      if (!source || cancelled) return;
+      const update = async () => {
+        const nextThumbnail = await getSeekThumbnail(source, positionMillis);
+        if (nextThumbnail && !cancelled) {
+          setThumbnail(nextThumbnail);
+        }
+      };
+      // 源提供的缩略图不需要下载分片，长按连续快进时也能立即更新
+      if (source.type === "sprites") {
+        update();
+      } else {
+        timeoutId = setTimeout(update, DECODE_DELAY);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    };
+  }, [playbackUrl, positionMillis, isCovered]);
+
+  return thumbnail;
+};
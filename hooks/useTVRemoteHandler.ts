@@ -1,8 +1,11 @@
 import { useEffect, useRef, useCallback } from "react";
 import { useTVEventHandler, HWEvent } from "react-native";
-import usePlayerStore from "@/stores/playerStore";
+import usePlayerStore, { selectActiveSkipMarker } from "@/stores/playerStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { getPercentagePosition, getSeekMultiplier } from "@/services/seekSteps";
 
-const SEEK_STEP = 20 * 1000; // 快进/快退的时间步长（毫秒）
+// 长按时连续快进/快退的间隔（毫秒）
+const LONG_PRESS_SEEK_INTERVAL = 200;
 
 // 定时器延迟时间（毫秒）
 const CONTROLS_TIMEOUT = 5000;
@@ -12,10 +15,33 @@ const CONTROLS_TIMEOUT = 5000;
  * @returns onScreenPress - 一个函数，用于处理屏幕点击事件，以显示控件并重置定时器。
  */
 export const useTVRemoteHandler = () => {
-  const { showControls, setShowControls, showEpisodeModal, togglePlayPause, seek } = usePlayerStore();
+  const {
+    playerMode,
+    showControls,
+    setShowControls,
+    showEpisodeModal,
+    showStillWatchingPrompt,
+    togglePlayPause,
+    seek,
+    seekTo,
+    skipMarker,
+  } = usePlayerStore();
+  const seekOptions = useSettingsStore((state) => state.seek);
 
   const controlsTimer = useRef<NodeJS.Timeout | null>(null);
   const fastForwardIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const seekStep = seekOptions.step * 1000;
+
+  // 长按开始连续快进/快退，按住越久步长越大
+  const startContinuousSeek = useCallback(
+    (direction: 1 | -1) => {
+      const pressStart = Date.now();
+      fastForwardIntervalRef.current = setInterval(() => {
+        seek(direction * seekStep * getSeekMultiplier(Date.now() - pressStart, seekOptions));
+      }, LONG_PRESS_SEEK_INTERVAL);
+    },
+    [seek, seekStep, seekOptions]
+  );
 
   // 重置或启动隐藏控件的定时器
   const resetTimer = useCallback(() => {
@@ -60,7 +86,8 @@ export const useTVRemoteHandler = () => {
   // 处理遥控器事件
   const handleTVEvent = useCallback(
     (event: HWEvent) => {
-      if (showEpisodeModal) {
+      // 小窗播放时遥控器用于浏览页面；询问是否还在看时由提示框的按钮处理
+      if (showEpisodeModal || showStillWatchingPrompt || playerMode !== "full") {
         return;
       }
 
@@ -87,32 +114,57 @@ export const useTVRemoteHandler = () => {
           setShowControls(true);
           break;
         case "left":
-          seek(-SEEK_STEP); // 快退15秒
+          seek(-seekStep);
           break;
         case "longLeft":
           if (!fastForwardIntervalRef.current && event.eventKeyAction === 0) {
-            fastForwardIntervalRef.current = setInterval(() => {
-              seek(-SEEK_STEP); 
-            }, 200);
+            startContinuousSeek(-1);
           }
           break;
         case "right":
-          seek(SEEK_STEP);
+          seek(seekStep);
           break;
         case "longRight":
           // 长按开始: 启动连续快进
           if (!fastForwardIntervalRef.current && event.eventKeyAction === 0) {
-            fastForwardIntervalRef.current = setInterval(() => {
-              seek(SEEK_STEP); 
-            }, 200);
+            startContinuousSeek(1);
           }
           break;
         case "down":
           setShowControls(true);
           break;
+        case "up":
+          // 片头片尾期间跳过
+          if (selectActiveSkipMarker(usePlayerStore.getState())) {
+            skipMarker();
+          }
+          break;
+        default: {
+          // 数字键按百分比跳转，例如按 3 跳到 30%
+          const status = usePlayerStore.getState().status;
+          if (event.eventKeyAction !== 0 && status?.isLoaded && status.durationMillis) {
+            const position = getPercentagePosition(event.eventType, status.durationMillis);
+            if (position !== null) {
+              seekTo(position);
+            }
+          }
+        }
       }
     },
-    [showControls, showEpisodeModal, setShowControls, resetTimer, togglePlayPause, seek]
+    [
+      playerMode,
+      showControls,
+      showEpisodeModal,
+      showStillWatchingPrompt,
+      setShowControls,
+      resetTimer,
+      togglePlayPause,
+      seek,
+      seekTo,
+      seekStep,
+      startContinuousSeek,
+      skipMarker,
+    ]
   );
 
   useTVEventHandler(handleTVEvent);
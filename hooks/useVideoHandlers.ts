@@ -6,8 +6,9 @@ import usePlayerStore from '@/stores/playerStore';
 interface UseVideoHandlersProps {
   videoRef: RefObject<Video>;
   currentEpisode: { url: string; title: string } | undefined;
+  // 实际加载的地址，默认为剧集地址
+  playbackUrl?: string;
   initialPosition: number;
-  introEndTime?: number;
   playbackRate: number;
   handlePlaybackStatusUpdate: (status: any) => void;
   deviceType: string;
@@ -17,8 +18,8 @@ interface UseVideoHandlersProps {
 export const useVideoHandlers = ({
   videoRef,
   currentEpisode,
+  playbackUrl,
   initialPosition,
-  introEndTime,
   playbackRate,
   handlePlaybackStatusUpdate,
   deviceType,
@@ -30,7 +31,8 @@ export const useVideoHandlers = ({
     
     try {
       // 1. 先设置位置（如果需要）
-      const jumpPosition = initialPosition || introEndTime || 0;
+      // 片头不再自动跳过，由跳过按钮提示
+      const jumpPosition = initialPosition || 0;
       if (jumpPosition > 0) {
         console.info(`[PERF] Setting initial position to ${jumpPosition}ms`);
         await videoRef.current?.setPositionAsync(jumpPosition);
@@ -49,13 +51,18 @@ export const useVideoHandlers = ({
       usePlayerStore.setState({ isLoading: false });
       // 不显示错误提示，因为自动播放失败是常见且预期的情况
     }
-  }, [videoRef, initialPosition, introEndTime]);
+  }, [videoRef, initialPosition]);
 
   const onLoadStart = useCallback(() => {
     if (!currentEpisode?.url) return;
     
     console.info(`[PERF] Video onLoadStart - starting to load video: ${currentEpisode.url.substring(0, 100)}...`);
-    usePlayerStore.setState({ isLoading: true });
+    // 去广告、切换音轨或清晰度后会重新加载同一集，只有首次加载计入播放源健康度
+    if (usePlayerStore.getState()._healthEpisodeUrl === currentEpisode.url) {
+      usePlayerStore.setState({ isLoading: true });
+      return;
+    }
+    usePlayerStore.setState({ isLoading: true, _loadStartedAt: Date.now(), _healthEpisodeUrl: currentEpisode.url });
   }, [currentEpisode?.url]);
 
   const onError = useCallback((error: any) => {
@@ -101,7 +108,7 @@ export const useVideoHandlers = ({
 
   // 优化的Video组件props
   const videoProps = useMemo(() => ({
-    source: { uri: currentEpisode?.url || '' },
+    source: { uri: playbackUrl || currentEpisode?.url || '' },
     posterSource: { uri: detail?.poster ?? "" },
     resizeMode: ResizeMode.CONTAIN,
     rate: playbackRate,
@@ -112,6 +119,7 @@ export const useVideoHandlers = ({
     useNativeControls: deviceType !== 'tv',
     shouldPlay: true,
   }), [
+    playbackUrl,
     currentEpisode?.url,
     detail?.poster,
     playbackRate,
@@ -0,0 +1,56 @@
+import {
+  DEFAULT_AUTOPLAY_OPTIONS,
+  getAutoAdvanceRemaining,
+  getAutoplayCountdown,
+  getSleepTimerLabel,
+  shouldAskStillWatching,
+} from "../autoplay";
+
+describe("getAutoAdvanceRemaining", () => {
+  it("没有片尾时计算到结尾的时间", () => {
+    expect(getAutoAdvanceRemaining(50000, 60000)).toBe(10000);
+  });
+
+  it("手动设置的片尾开始时就切到下一集", () => {
+    expect(getAutoAdvanceRemaining(20000, 60000, 30000)).toBe(10000);
+    expect(getAutoAdvanceRemaining(40000, 60000, 30000)).toBe(0);
+  });
+});
+
+describe("getAutoplayCountdown", () => {
+  const options = { ...DEFAULT_AUTOPLAY_OPTIONS, countdown: 10 };
+
+  it("进入倒计时后向上取整到秒", () => {
+    expect(getAutoplayCountdown(9500, options)).toBe(10);
+    expect(getAutoplayCountdown(100, options)).toBe(1);
+    expect(getAutoplayCountdown(0, options)).toBe(0);
+  });
+
+  it("还没到倒计时开始时返回 undefined", () => {
+    expect(getAutoplayCountdown(10001, options)).toBeUndefined();
+  });
+
+  it("倍速播放时按实际经过的时间计算", () => {
+    expect(getAutoplayCountdown(20000, options, 2)).toBe(10);
+    expect(getAutoplayCountdown(20000, options, 1)).toBeUndefined();
+  });
+});
+
+describe("shouldAskStillWatching", () => {
+  it("连续自动播放达到设定的集数后询问", () => {
+    const options = { ...DEFAULT_AUTOPLAY_OPTIONS, stillWatchingEpisodes: 3 };
+    expect(shouldAskStillWatching(2, options)).toBe(false);
+    expect(shouldAskStillWatching(3, options)).toBe(true);
+  });
+
+  it("设为 0 时从不询问", () => {
+    expect(shouldAskStillWatching(100, { ...DEFAULT_AUTOPLAY_OPTIONS, stillWatchingEpisodes: 0 })).toBe(false);
+  });
+});
+
+describe("getSleepTimerLabel", () => {
+  it("返回睡眠定时选项的名称", () => {
+    expect(getSleepTimerLabel("episode")).toBe("本集结束");
+    expect(getSleepTimerLabel(30)).toBe("30 分钟");
+  });
+});
@@ -0,0 +1,125 @@
+import { buildCatchupUrl, fillCatchupTemplate, isCatchupAvailable, parseCatchupAttributes } from "../catchup";
+import { parseM3U, Channel } from "../m3u";
+
+const START = Date.UTC(2024, 0, 1, 12, 0, 0);
+const STOP = Date.UTC(2024, 0, 1, 12, 30, 0);
+const NOW = Date.UTC(2024, 0, 1, 14, 0, 0);
+const START_SEC = START / 1000;
+const STOP_SEC = STOP / 1000;
+const NOW_SEC = NOW / 1000;
+
+const createChannel = (url: string, catchup: Channel["catchup"]): Channel => ({
+  id: url,
+  name: "Test",
+  url,
+  logo: "",
+  group: "Default",
+  catchup,
+});
+
+describe("parseCatchupAttributes", () => {
+  it("应该识别类型别名并解析天数", () => {
+    expect(parseCatchupAttributes({ catchup: "fs", days: "7" })).toEqual({
+      type: "flussonic",
+      source: undefined,
+      days: 7,
+    });
+  });
+
+  it("只有 timeshift 属性时按 shift 处理", () => {
+    expect(parseCatchupAttributes({ timeshift: "3" })).toEqual({ type: "shift", source: undefined, days: 3 });
+  });
+
+  it("没有回看属性或类型未知时返回 undefined", () => {
+    expect(parseCatchupAttributes({})).toBeUndefined();
+    expect(parseCatchupAttributes({ catchup: "vod" })).toBeUndefined();
+  });
+});
+
+describe("parseM3U catchup", () => {
+  it("应该读取频道回看属性，并继承 #EXTM3U 头部默认值", () => {
+    const channels = parseM3U(
+      [
+        '#EXTM3U catchup="append" catchup-days="2" catchup-source="?playseek={utc}-{utcend}"',
+        '#EXTINF:-1 tvg-id="a",A',
+        "http://example.com/a.m3u8",
+        '#EXTINF:-1 catchup="default" catchup-days="7" catchup-source="http://cu.example.com/b?start={utc}",B',
+        "http://example.com/b.m3u8",
+      ].join("\n"),
+    );
+
+    expect(channels[0].catchup).toEqual({ type: "append", source: "?playseek={utc}-{utcend}", days: 2 });
+    expect(channels[1].catchup).toEqual({ type: "default", source: "http://cu.example.com/b?start={utc}", days: 7 });
+  });
+});
+
+describe("fillCatchupTemplate", () => {
+  it("应该替换 Kodi 风格占位符", () => {
+    expect(fillCatchupTemplate("{utc}-{utcend}-{lutc}-{duration}-{Y}{m}{d}{H}{M}{S}", START, STOP, NOW)).toBe(
+      `${START_SEC}-${STOP_SEC}-${NOW_SEC}-1800-20240101120000`,
+    );
+    expect(fillCatchupTemplate("{utc:YmdHMS}/{duration:60}/{offset:60}", START, STOP, NOW)).toBe(
+      "20240101120000/30/120",
+    );
+  });
+
+  it("应该替换 TiviMate 风格占位符", () => {
+    expect(fillCatchupTemplate("${start}-${end}-${timestamp}", START, STOP, NOW)).toBe(
+      `${START_SEC}-${STOP_SEC}-${NOW_SEC}`,
+    );
+  });
+});
+
+describe("buildCatchupUrl", () => {
+  it("flussonic 类型应该改写 HLS 与 mpegts 地址", () => {
+    const hls = createChannel("http://fs.example.com/ch1/index.m3u8?token=abc", { type: "flussonic", days: 1 });
+    const ts = createChannel("http://fs.example.com/ch1/mpegts?token=abc", { type: "flussonic", days: 1 });
+
+    expect(buildCatchupUrl(hls, START, STOP, NOW)).toBe(
+      `http://fs.example.com/ch1/index-${START_SEC}-1800.m3u8?token=abc`,
+    );
+    expect(buildCatchupUrl(ts, START, STOP, NOW)).toBe(
+      `http://fs.example.com/ch1/timeshift_abs-${START_SEC}.ts?token=abc`,
+    );
+  });
+
+  it("shift 类型应该追加 utc 与 lutc 参数", () => {
+    const channel = createChannel("http://example.com/live.m3u8?id=1", { type: "shift", days: 1 });
+    expect(buildCatchupUrl(channel, START, STOP, NOW)).toBe(
+      `http://example.com/live.m3u8?id=1&utc=${START_SEC}&lutc=${NOW_SEC}`,
+    );
+  });
+
+  it("append 与 default 类型应该使用 catchup-source 模板", () => {
+    const append = createChannel("http://example.com/live.m3u8", {
+      type: "append",
+      source: "?playseek={utc:YmdHMS}-{utcend:YmdHMS}",
+      days: 1,
+    });
+    const absolute = createChannel("http://example.com/live.m3u8", {
+      type: "default",
+      source: "http://cu.example.com/replay?start=${start}&end=${end}",
+      days: 1,
+    });
+
+    expect(buildCatchupUrl(append, START, STOP, NOW)).toBe(
+      "http://example.com/live.m3u8?playseek=20240101120000-20240101123000",
+    );
+    expect(buildCatchupUrl(absolute, START, STOP, NOW)).toBe(
+      `http://cu.example.com/replay?start=${START_SEC}&end=${STOP_SEC}`,
+    );
+  });
+
+  it("不支持回看的频道返回 null", () => {
+    expect(buildCatchupUrl(createChannel("http://example.com/live.m3u8", undefined), START, STOP, NOW)).toBeNull();
+  });
+});
+
+describe("isCatchupAvailable", () => {
+  it("应该只允许回看天数内已开始的节目", () => {
+    const channel = createChannel("http://example.com/live.m3u8", { type: "shift", days: 1 });
+    expect(isCatchupAvailable(channel, START, NOW)).toBe(true);
+    expect(isCatchupAvailable(channel, NOW + 1000, NOW)).toBe(false);
+    expect(isCatchupAvailable(channel, NOW - 2 * 24 * 60 * 60 * 1000, NOW)).toBe(false);
+  });
+});
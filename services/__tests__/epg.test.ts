@@ -0,0 +1,94 @@
+import { parseXMLTV, parseXmltvDate, mapProgrammesToChannels, getNowNext } from "../epg";
+import { createChannel } from "./fixtures/channels";
+
+const XMLTV_SAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<tv generator-info-name="test">
+  <channel id="CCTV1">
+    <display-name lang="zh">CCTV-1 综合</display-name>
+    <display-name>CCTV1</display-name>
+  </channel>
+  <channel id="hunan">
+    <display-name>湖南卫视</display-name>
+  </channel>
+  <programme start="20240101200000 +0800" stop="20240101203000 +0800" channel="CCTV1">
+    <title lang="zh">新闻联播</title>
+    <desc>每日新闻 &amp; 天气</desc>
+  </programme>
+  <programme start="20240101193000 +0800" stop="20240101200000 +0800" channel="CCTV1">
+    <title><![CDATA[晚间节目]]></title>
+  </programme>
+  <programme start="20240101203000 +0800" stop="20240101220000 +0800" channel="CCTV1">
+    <title>电视剧</title>
+  </programme>
+  <programme start="20240101200000 +0800" stop="20240101220000 +0800" channel="hunan">
+    <title>快乐大本营</title>
+  </programme>
+</tv>`;
+
+describe("parseXmltvDate", () => {
+  it("应该按时区偏移转换为 UTC 时间戳", () => {
+    expect(parseXmltvDate("20240101200000 +0800")).toBe(Date.UTC(2024, 0, 1, 12, 0, 0));
+    expect(parseXmltvDate("20240101200000 -0130")).toBe(Date.UTC(2024, 0, 1, 21, 30, 0));
+  });
+
+  it("未带时区时应该按 UTC 处理", () => {
+    expect(parseXmltvDate("20240101200000")).toBe(Date.UTC(2024, 0, 1, 20, 0, 0));
+  });
+
+  it("格式错误时应该返回 NaN", () => {
+    expect(parseXmltvDate("invalid")).toBeNaN();
+  });
+});
+
+describe("parseXMLTV", () => {
+  it("应该解析频道和节目，并按开始时间排序", () => {
+    const data = parseXMLTV(XMLTV_SAMPLE);
+
+    expect(data.channels).toEqual([
+      { id: "CCTV1", names: ["CCTV-1 综合", "CCTV1"] },
+      { id: "hunan", names: ["湖南卫视"] },
+    ]);
+    expect(data.programmes.CCTV1.map((p) => p.title)).toEqual(["晚间节目", "新闻联播", "电视剧"]);
+    expect(data.programmes.CCTV1[1].desc).toBe("每日新闻 & 天气");
+  });
+});
+
+describe("mapProgrammesToChannels", () => {
+  const data = parseXMLTV(XMLTV_SAMPLE);
+
+  it("应该优先使用 tvg-id 匹配", () => {
+    const channel = createChannel({ id: "a", name: "随便", tvgId: "cctv1" });
+    expect(mapProgrammesToChannels(data, [channel]).a).toBe(data.programmes.CCTV1);
+  });
+
+  it("应该回退到 tvg-name 和频道名称匹配", () => {
+    const byTvgName = createChannel({ id: "b", name: "其他", tvgName: "CCTV-1 综合" });
+    const byName = createChannel({ id: "c", name: "湖南 卫视" });
+    const unmatched = createChannel({ id: "d", name: "不存在的频道" });
+
+    const result = mapProgrammesToChannels(data, [byTvgName, byName, unmatched]);
+    expect(result.b).toBe(data.programmes.CCTV1);
+    expect(result.c).toBe(data.programmes.hunan);
+    expect(result.d).toBeUndefined();
+  });
+});
+
+describe("getNowNext", () => {
+  const programmes = parseXMLTV(XMLTV_SAMPLE).programmes.CCTV1;
+
+  it("应该返回当前和下一个节目", () => {
+    const { now, next } = getNowNext(programmes, Date.UTC(2024, 0, 1, 12, 10));
+    expect(now?.title).toBe("新闻联播");
+    expect(next?.title).toBe("电视剧");
+  });
+
+  it("没有正在播放的节目时只返回下一个", () => {
+    const result = getNowNext(programmes, Date.UTC(2024, 0, 1, 10, 0));
+    expect(result.now).toBeUndefined();
+    expect(result.next?.title).toBe("晚间节目");
+  });
+
+  it("没有节目数据时应该返回空对象", () => {
+    expect(getNowNext(undefined)).toEqual({});
+  });
+});
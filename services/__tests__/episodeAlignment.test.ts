@@ -0,0 +1,78 @@
+import { getEpisodeNumbers, mapEpisodeIndex, parseEpisodeNumber, parseEpisodeNumberFromUrl } from "../episodeAlignment";
+
+describe("parseEpisodeNumber", () => {
+  it("解析常见的集数写法", () => {
+    expect(parseEpisodeNumber("第12集")).toBe(12);
+    expect(parseEpisodeNumber("第十二集")).toBe(12);
+    expect(parseEpisodeNumber("EP12")).toBe(12);
+    expect(parseEpisodeNumber("Episode 3")).toBe(3);
+    expect(parseEpisodeNumber("S01E12")).toBe(12);
+    expect(parseEpisodeNumber("12")).toBe(12);
+    expect(parseEpisodeNumber("０５")).toBe(5);
+  });
+
+  it("预告、花絮等不是正片，没有集数时返回 undefined", () => {
+    expect(parseEpisodeNumber("第12集预告")).toBeUndefined();
+    expect(parseEpisodeNumber("花絮")).toBeUndefined();
+    expect(parseEpisodeNumber("Trailer")).toBeUndefined();
+    expect(parseEpisodeNumber("高清")).toBeUndefined();
+  });
+});
+
+describe("parseEpisodeNumberFromUrl", () => {
+  it("从文件名或目录名中解析集数", () => {
+    expect(parseEpisodeNumberFromUrl("https://cdn.example.com/show/ep12/index.m3u8")).toBe(12);
+    expect(parseEpisodeNumberFromUrl("https://cdn.example.com/show/%E7%AC%AC3%E9%9B%86.m3u8")).toBe(3);
+  });
+
+  it("不把日期或哈希中的数字当成集数", () => {
+    expect(parseEpisodeNumberFromUrl("https://cdn.example.com/20240512/a1b2c3/index.m3u8")).toBeUndefined();
+  });
+});
+
+describe("getEpisodeNumbers", () => {
+  it("优先使用剧集名称，名称没有集数时使用地址", () => {
+    expect(
+      getEpisodeNumbers({
+        episodes: ["https://a.com/1.m3u8", "https://a.com/ep2/index.m3u8", "https://a.com/trailer.m3u8"],
+        episodes_titles: ["第1集", "高清", "预告"],
+      }),
+    ).toEqual([1, 2, undefined]);
+  });
+
+  it("大部分剧集解析不出集数时按位置编号", () => {
+    expect(
+      getEpisodeNumbers({
+        episodes: ["https://a.com/x.m3u8", "https://a.com/y.m3u8", "https://a.com/z.m3u8"],
+        episodes_titles: ["HD", "HD", "第3集"],
+      }),
+    ).toEqual([1, 2, 3]);
+  });
+});
+
+describe("mapEpisodeIndex", () => {
+  const plain = {
+    episodes: ["https://a.com/1.m3u8", "https://a.com/2.m3u8", "https://a.com/3.m3u8"],
+    episodes_titles: ["第1集", "第2集", "第3集"],
+  };
+  const withTrailer = {
+    episodes: ["https://b.com/t.m3u8", "https://b.com/1.m3u8", "https://b.com/2.m3u8"],
+    episodes_titles: ["预告", "EP01", "EP02"],
+  };
+
+  it("按集数而不是位置对应", () => {
+    expect(mapEpisodeIndex(plain, 1, withTrailer)).toBe(2);
+    expect(mapEpisodeIndex(withTrailer, 1, plain)).toBe(0);
+  });
+
+  it("另一个播放源没有这一集或当前是预告时返回 undefined", () => {
+    expect(mapEpisodeIndex(plain, 2, withTrailer)).toBeUndefined();
+    expect(mapEpisodeIndex(withTrailer, 0, plain)).toBeUndefined();
+  });
+
+  it("都没有剧集名称时按位置对应", () => {
+    const a = { episodes: ["https://a.com/x.m3u8", "https://a.com/y.m3u8"] };
+    const b = { episodes: ["https://b.com/x.m3u8", "https://b.com/y.m3u8"] };
+    expect(mapEpisodeIndex(a, 1, b)).toBe(1);
+  });
+});
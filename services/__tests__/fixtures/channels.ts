@@ -0,0 +1,10 @@
+import { Channel } from "../../m3u";
+
+export const createChannel = (overrides: Partial<Channel>): Channel => ({
+  id: "http://example.com/stream.m3u8",
+  name: "Unknown",
+  url: "http://example.com/stream.m3u8",
+  logo: "",
+  group: "Default",
+  ...overrides,
+});
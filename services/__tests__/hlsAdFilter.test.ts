@@ -0,0 +1,96 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DEFAULT_AD_FILTER_OPTIONS, filterAdSegments } from "../hlsAdFilter";
+
+const PLAYLIST_URL = "https://vod.example.com/20240101/AbCd/1000kb/hls/index.m3u8";
+
+const segments = (prefix: string, from: number, count: number, duration = 6) =>
+  Array.from(
+    { length: count },
+    (_, index) => `#EXTINF:${duration.toFixed(6)},\n${prefix}${(from + index).toString().padStart(7, "0")}.ts`,
+  ).join("\n");
+
+// fixtures/adFilter 中的播放列表按聚合源的结构整理，并非实际抓取；
+// 拿到实际抓取的播放列表（去掉地址中的令牌）后替换同名文件即可
+const readPlaylist = (name: string) => readFileSync(join(__dirname, "fixtures", "adFilter", name), "utf8");
+
+// 正片中间插入了另一个域名的广告
+const HOST_AD_PLAYLIST = readPlaylist("host-ad.m3u8");
+
+// 广告与正片同域名同目录，只有文件名不同，并且出现在片头
+const FILE_NAME_AD_PLAYLIST = readPlaylist("file-name-ad.m3u8");
+
+describe("filterAdSegments", () => {
+  it("应该删除域名不同的广告片段，并保留正片的不连续标记", () => {
+    const result = filterAdSegments(HOST_AD_PLAYLIST, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)!;
+
+    expect(result.removedSegments).toBe(5);
+    expect(result.removedDuration).toBe(15);
+    expect(result.content).not.toContain("ad.example.net");
+    expect(result.content.match(/#EXT-X-DISCONTINUITY/g)).toHaveLength(1);
+    expect(result.content).toContain("https://vod.example.com/20240101/AbCd/1000kb/hls/e8f1a2b3c40000020.ts");
+    expect(result.content.startsWith("#EXTM3U\n#EXT-X-VERSION:3")).toBe(true);
+    expect(result.content.endsWith("#EXT-X-ENDLIST")).toBe(true);
+  });
+
+  it("应该按文件名识别片头广告，并保留加密密钥", () => {
+    const result = filterAdSegments(FILE_NAME_AD_PLAYLIST, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)!;
+
+    expect(result.removedSegments).toBe(3);
+    expect(result.content).not.toContain("9ae0c7df10");
+    expect(result.content).not.toContain("#EXT-X-DISCONTINUITY");
+    expect(result.content).toContain(
+      '#EXT-X-KEY:METHOD=AES-128,URI="https://vod.example.com/20240101/AbCd/1000kb/hls/key.key"',
+    );
+  });
+
+  it("关闭对应检查后不删除", () => {
+    const options = { ...DEFAULT_AD_FILTER_OPTIONS, checkFileName: false };
+    expect(filterAdSegments(FILE_NAME_AD_PLAYLIST, PLAYLIST_URL, options)).toBeNull();
+  });
+
+  it("超过最长广告时长的片段不删除", () => {
+    const options = { ...DEFAULT_AD_FILTER_OPTIONS, maxAdDuration: 10 };
+    expect(filterAdSegments(HOST_AD_PLAYLIST, PLAYLIST_URL, options)).toBeNull();
+  });
+
+  it("正片自身的不连续片段不会被误删", () => {
+    const playlist = `#EXTM3U
+${segments("e8f1a2b3c4", 0, 20)}
+#EXT-X-DISCONTINUITY
+${segments("e8f1a2b3c4", 20, 3)}
+#EXT-X-DISCONTINUITY
+${segments("e8f1a2b3c4", 23, 20)}
+#EXT-X-ENDLIST`;
+    expect(filterAdSegments(playlist, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)).toBeNull();
+  });
+
+  it("文件名随机时不按文件名判断", () => {
+    const playlist = `#EXTM3U
+#EXTINF:6,
+a1.ts
+#EXTINF:6,
+b2.ts
+#EXT-X-DISCONTINUITY
+#EXTINF:6,
+c3.ts
+#EXTINF:6,
+d4.ts
+#EXT-X-ENDLIST`;
+    expect(filterAdSegments(playlist, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)).toBeNull();
+  });
+
+  it("疑似广告占比过高时不做处理", () => {
+    const playlist = `#EXTM3U
+${segments("e8f1a2b3c4", 0, 10)}
+#EXT-X-DISCONTINUITY
+${segments("https://ad.example.net/ad", 0, 10, 5)}
+#EXT-X-ENDLIST`;
+    expect(filterAdSegments(playlist, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)).toBeNull();
+  });
+
+  it("主播放列表不处理", () => {
+    const master = "#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1000\nindex.m3u8";
+    expect(filterAdSegments(master, PLAYLIST_URL, DEFAULT_AD_FILTER_OPTIONS)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { mergePlaylists, fetchLiveSource } from "../liveSources";
+import { createChannel } from "./fixtures/channels";
+import { LiveSource } from "../storage";
+import { readJsonCache, writeJsonCache } from "../diskCache";
+
+jest.mock("../diskCache", () => ({
+  readJsonCache: jest.fn(),
+  writeJsonCache: jest.fn(),
+}));
+
+const mockReadJsonCache = readJsonCache as jest.Mock;
+const mockWriteJsonCache = writeJsonCache as jest.Mock;
+
+const createSource = (id: string): LiveSource => ({
+  id,
+  name: `源 ${id}`,
+  url: `http://example.com/${id}.m3u`,
+  enabled: true,
+  refreshInterval: 60,
+});
+
+describe("mergePlaylists", () => {
+  const first = createSource("a");
+  const second = createSource("b");
+
+  it("应该合并相同频道并去除重复地址，先出现的订阅优先", () => {
+    const result = mergePlaylists([
+      {
+        source: first,
+        playlist: {
+          channels: [
+            createChannel({ id: "u1", url: "u1", name: "CCTV1", tvgId: "CCTV1" }),
+            createChannel({ id: "u2", url: "u2", name: "湖南卫视" }),
+          ],
+          epgUrls: ["http://epg/a.xml"],
+        },
+      },
+      {
+        source: second,
+        playlist: {
+          channels: [
+            createChannel({ id: "u3", url: "u3", name: "CCTV-1", tvgId: "cctv1" }),
+            createChannel({ id: "u2", url: "u2", name: "湖南" }),
+            createChannel({ id: "u4", url: "u4", name: "浙江卫视" }),
+          ],
+          epgUrls: ["http://epg/a.xml", "http://epg/b.xml"],
+        },
+      },
+    ]);
+
+    expect(result.channels.map((c) => c.name)).toEqual(["CCTV1", "湖南卫视", "浙江卫视"]);
+    expect(result.channels.map((c) => c.sourceId)).toEqual(["a", "a", "b"]);
+    expect(result.channels[0].urls).toEqual(["u1", "u3"]);
+    expect(result.channels[1].urls).toEqual(["u2"]);
+    expect(result.channels[2].sourceName).toBe("源 b");
+    expect(result.epgUrls).toEqual(["http://epg/a.xml", "http://epg/b.xml"]);
+  });
+});
+
+describe("fetchLiveSource", () => {
+  const source = createSource("a");
+  const cachedPlaylist = {
+    channels: [createChannel({ id: "cached", url: "cached", name: "缓存频道" })],
+    epgUrls: [],
+  };
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+  });
+
+  it("刷新间隔内应该直接使用缓存", async () => {
+    mockReadJsonCache.mockResolvedValue({ timestamp: Date.now(), playlist: cachedPlaylist });
+
+    const result = await fetchLiveSource(source);
+    expect(result).toEqual({ playlist: cachedPlaylist, stale: false });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("应该携带 ETag 校验，304 时沿用缓存", async () => {
+    mockReadJsonCache.mockResolvedValue({ timestamp: 0, etag: '"v1"', playlist: cachedPlaylist });
+    mockFetch.mockResolvedValue({ status: 304, ok: false });
+
+    const result = await fetchLiveSource(source);
+    expect(mockFetch.mock.calls[0][1].headers["If-None-Match"]).toBe('"v1"');
+    expect(result).toEqual({ playlist: cachedPlaylist, stale: false });
+    expect(mockWriteJsonCache).toHaveBeenCalled();
+  });
+
+  it("网络失败时应该回退到缓存并标记为过期", async () => {
+    mockReadJsonCache.mockResolvedValue({ timestamp: 0, playlist: cachedPlaylist });
+    mockFetch.mockRejectedValue(new Error("offline"));
+
+    const result = await fetchLiveSource(source);
+    expect(result).toEqual({ playlist: cachedPlaylist, stale: true });
+  });
+
+  it("拉取成功时应该写入新的缓存", async () => {
+    mockReadJsonCache.mockResolvedValue(null);
+    mockFetch.mockResolvedValue({
+      status: 200,
+      ok: true,
+      text: () => Promise.resolve("#EXTM3U\n#EXTINF:-1,新频道\nhttp://example.com/new.m3u8"),
+      headers: { get: (name: string) => (name === "ETag" ? '"v2"' : null) },
+    });
+
+    const result = await fetchLiveSource(source);
+    expect(result.stale).toBe(false);
+    expect(result.playlist.channels[0].name).toBe("新频道");
+    expect(mockWriteJsonCache.mock.calls[0][2]).toMatchObject({ etag: '"v2"' });
+  });
+});
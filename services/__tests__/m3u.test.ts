@@ -0,0 +1,145 @@
+import { parseM3U, groupChannelMirrors, getChannelKey, assignChannelNumbers, buildVideoSource } from "../m3u";
+import { createChannel } from "./fixtures/channels";
+
+describe("groupChannelMirrors", () => {
+  it("应该按 tvg-id 或归一化名称合并镜像地址", () => {
+    const channels = groupChannelMirrors([
+      createChannel({ id: "u1", url: "u1", name: "CCTV-1", tvgId: "cctv1" }),
+      createChannel({ id: "u2", url: "u2", name: "湖南卫视" }),
+      createChannel({ id: "u3", url: "u3", name: "CCTV1 综合", tvgId: "CCTV1" }),
+      createChannel({ id: "u4", url: "u4", name: "湖南 卫视" }),
+      createChannel({ id: "u1", url: "u1", name: "重复地址" }),
+    ]);
+
+    expect(channels.map((c) => c.name)).toEqual(["CCTV-1", "湖南卫视"]);
+    expect(channels[0].urls).toEqual(["u1", "u3"]);
+    expect(channels[1].urls).toEqual(["u2", "u4"]);
+    expect(channels[0].id).toBe("u1");
+  });
+
+  it("频道标识应该优先使用 tvg-id", () => {
+    expect(getChannelKey(createChannel({ name: "CCTV 1", tvgId: "CCTV1" }))).toBe("tvg:cctv1");
+    expect(getChannelKey(createChannel({ name: "CCTV 1" }))).toBe("name:cctv1");
+  });
+});
+
+describe("assignChannelNumbers", () => {
+  it("应该保留 tvg-chno，其余频道顺序补齐未占用的号码", () => {
+    const channels = parseM3U(`#EXTM3U
+#EXTINF:-1 tvg-chno="2",频道A
+http://example.com/a.m3u8
+#EXTINF:-1,频道B
+http://example.com/b.m3u8
+#EXTINF:-1 tvg-chno="2",频道C
+http://example.com/c.m3u8
+#EXTINF:-1,频道D
+http://example.com/d.m3u8`);
+
+    expect(channels.map((c) => c.number)).toEqual([2, undefined, 2, undefined]);
+    expect(assignChannelNumbers(channels).map((c) => c.number)).toEqual([2, 1, 3, 4]);
+  });
+});
+
+describe("parseM3U stream options", () => {
+  it("应该解析 #EXTVLCOPT 的 User-Agent 和 Referer", () => {
+    const [channel] = parseM3U(`#EXTM3U
+#EXTINF:-1 tvg-id="a",频道A
+#EXTVLCOPT:http-user-agent=Mozilla/5.0 (Test)
+#EXTVLCOPT:http-referrer=https://example.com/
+http://example.com/a.m3u8`);
+
+    expect(channel.streamOptions).toEqual({
+      "http://example.com/a.m3u8": {
+        headers: { "User-Agent": "Mozilla/5.0 (Test)", Referer: "https://example.com/" },
+      },
+    });
+  });
+
+  it("应该解析 #EXTHTTP JSON 请求头，且选项行可以出现在 #EXTINF 之前", () => {
+    const [channel] = parseM3U(`#EXTM3U
+#EXTHTTP:{"cookie":"token=abc","User-Agent":"App/1.0"}
+#EXTINF:-1,频道B
+http://example.com/b.m3u8`);
+
+    expect(channel.streamOptions?.["http://example.com/b.m3u8"].headers).toEqual({
+      Cookie: "token=abc",
+      "User-Agent": "App/1.0",
+    });
+  });
+
+  it("应该解析 #KODIPROP 属性和 stream_headers", () => {
+    const [channel] = parseM3U(`#EXTM3U
+#EXTINF:-1,频道C
+#KODIPROP:inputstream.adaptive.manifest_type=mpd
+#KODIPROP:inputstream.adaptive.license_type=com.widevine.alpha
+#KODIPROP:inputstream.adaptive.stream_headers=User-Agent=Kodi&Referer=https%3A%2F%2Fexample.com%2F
+http://example.com/c.mpd`);
+
+    expect(channel.streamOptions?.["http://example.com/c.mpd"]).toEqual({
+      headers: { "User-Agent": "Kodi", Referer: "https://example.com/" },
+      properties: {
+        "inputstream.adaptive.manifest_type": "mpd",
+        "inputstream.adaptive.license_type": "com.widevine.alpha",
+      },
+    });
+  });
+
+  it("应该解析地址中 | 之后的请求头并去掉该部分", () => {
+    const [channel] = parseM3U(`#EXTM3U
+#EXTINF:-1,频道D
+http://example.com/d.m3u8|User-Agent=VLC&Referer=http%3A%2F%2Fref.com`);
+
+    expect(channel.url).toBe("http://example.com/d.m3u8");
+    expect(channel.id).toBe("http://example.com/d.m3u8");
+    expect(channel.streamOptions?.[channel.url].headers).toEqual({ "User-Agent": "VLC", Referer: "http://ref.com" });
+  });
+
+  it("#EXTM3U 和 #EXTINF 上的 user-agent 属性应该作为默认值，且选项不会串到下一个频道", () => {
+    const channels = parseM3U(`#EXTM3U user-agent="Global/1.0"
+#EXTINF:-1 http-referrer="https://a.com/",频道E
+#EXTVLCOPT:http-user-agent=Local/2.0
+http://example.com/e.m3u8
+#EXTINF:-1,频道F
+http://example.com/f.m3u8`);
+
+    expect(channels[0].streamOptions?.["http://example.com/e.m3u8"].headers).toEqual({
+      "User-Agent": "Local/2.0",
+      Referer: "https://a.com/",
+    });
+    expect(channels[1].streamOptions?.["http://example.com/f.m3u8"].headers).toEqual({ "User-Agent": "Global/1.0" });
+  });
+
+  it("没有任何选项时不应该生成 streamOptions", () => {
+    const [channel] = parseM3U(`#EXTM3U
+#EXTINF:-1,频道G
+http://example.com/g.m3u8`);
+    expect(channel.streamOptions).toBeUndefined();
+  });
+
+  it("合并镜像时应该保留每个地址各自的选项", () => {
+    const [channel] = groupChannelMirrors(
+      parseM3U(`#EXTM3U
+#EXTINF:-1,频道H
+#EXTVLCOPT:http-user-agent=UA1
+http://example.com/h1.m3u8
+#EXTINF:-1,频道H
+#EXTVLCOPT:http-user-agent=UA2
+http://example.com/h2.m3u8`)
+    );
+
+    expect(channel.urls).toEqual(["http://example.com/h1.m3u8", "http://example.com/h2.m3u8"]);
+    expect(channel.streamOptions?.["http://example.com/h2.m3u8"].headers).toEqual({ "User-Agent": "UA2" });
+  });
+});
+
+describe("buildVideoSource", () => {
+  it("应该附带请求头并根据 manifest_type 指定扩展名", () => {
+    expect(
+      buildVideoSource("http://example.com/c", {
+        headers: { "User-Agent": "Kodi" },
+        properties: { "inputstream.adaptive.manifest_type": "MPD" },
+      })
+    ).toEqual({ uri: "http://example.com/c", headers: { "User-Agent": "Kodi" }, overrideFileExtensionAndroid: "mpd" });
+    expect(buildVideoSource("http://example.com/d.m3u8")).toEqual({ uri: "http://example.com/d.m3u8" });
+  });
+});
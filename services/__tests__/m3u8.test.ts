@@ -0,0 +1,230 @@
+import {
+  buildMasterPlaylist,
+  findVariantByQuality,
+  formatBandwidth,
+  getAudioTrackNames,
+  getVariantQuality,
+  isEncryptedPlaylist,
+  parseAttributeList,
+  parseMasterPlaylist,
+  parseMediaPlaylistSegments,
+  parseMediaPlaylistTimeline,
+  resolveUrl,
+  sortVariants,
+} from "../m3u8";
+
+const MASTER_URL = "http://cdn.example.com/vod/show/ep1/index.m3u8?token=abc";
+
+const MASTER = `#EXTM3U
+#EXT-X-VERSION:4
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac-high",NAME="国语",LANGUAGE="zh",DEFAULT=YES,AUTOSELECT=YES,URI="audio/high/zh.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac-high",NAME="粤语",LANGUAGE="yue",DEFAULT=NO,AUTOSELECT=YES,URI="audio/high/yue.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac-low",NAME="国语",LANGUAGE="zh",DEFAULT=YES,URI="audio/low/zh.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac-low",NAME="粤语",LANGUAGE="yue",URI="audio/low/yue.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="简体中文",LANGUAGE="zh-Hans",DEFAULT=NO,URI="/subs/zh.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,AVERAGE-BANDWIDTH=4500000,RESOLUTION=1920x1080,CODECS="avc1.640028,mp4a.40.2",FRAME-RATE=25.000,AUDIO="aac-high",SUBTITLES="subs"
+1080p/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=1500000,RESOLUTION=1280x720,AUDIO="aac-low",SUBTITLES="subs"
+../ep1/720p/index.m3u8
+`;
+
+describe("parseAttributeList", () => {
+  it("应该解析带引号且包含逗号的属性值", () => {
+    expect(parseAttributeList('BANDWIDTH=100,CODECS="avc1.4d401f,mp4a.40.2",RESOLUTION=640x360')).toEqual({
+      BANDWIDTH: "100",
+      CODECS: "avc1.4d401f,mp4a.40.2",
+      RESOLUTION: "640x360",
+    });
+  });
+});
+
+describe("resolveUrl", () => {
+  it("应该解析相对路径、根路径与协议相对地址", () => {
+    expect(resolveUrl("720p/a.m3u8", MASTER_URL)).toBe("http://cdn.example.com/vod/show/ep1/720p/a.m3u8");
+    expect(resolveUrl("../ep2/a.m3u8?x=1", MASTER_URL)).toBe("http://cdn.example.com/vod/show/ep2/a.m3u8?x=1");
+    expect(resolveUrl("/root.m3u8", MASTER_URL)).toBe("http://cdn.example.com/root.m3u8");
+    expect(resolveUrl("//other.example.com/a.ts", MASTER_URL)).toBe("http://other.example.com/a.ts");
+    expect(resolveUrl("https://abs.example.com/a.ts", MASTER_URL)).toBe("https://abs.example.com/a.ts");
+  });
+});
+
+describe("parseMasterPlaylist", () => {
+  it("应该解析码率变体、音轨与字幕组", () => {
+    const master = parseMasterPlaylist(MASTER, MASTER_URL)!;
+    expect(master.variants).toEqual([
+      {
+        uri: "http://cdn.example.com/vod/show/ep1/1080p/index.m3u8",
+        bandwidth: 5000000,
+        averageBandwidth: 4500000,
+        resolution: { width: 1920, height: 1080 },
+        codecs: "avc1.640028,mp4a.40.2",
+        frameRate: 25,
+        audioGroup: "aac-high",
+        subtitleGroup: "subs",
+      },
+      {
+        uri: "http://cdn.example.com/vod/show/ep1/720p/index.m3u8",
+        bandwidth: 1500000,
+        averageBandwidth: undefined,
+        resolution: { width: 1280, height: 720 },
+        codecs: undefined,
+        frameRate: undefined,
+        audioGroup: "aac-low",
+        subtitleGroup: "subs",
+      },
+    ]);
+    expect(master.audioRenditions).toHaveLength(4);
+    expect(master.audioRenditions[1]).toEqual({
+      type: "AUDIO",
+      groupId: "aac-high",
+      name: "粤语",
+      language: "yue",
+      uri: "http://cdn.example.com/vod/show/ep1/audio/high/yue.m3u8",
+      isDefault: false,
+      autoselect: true,
+    });
+    expect(master.subtitleRenditions).toEqual([
+      {
+        type: "SUBTITLES",
+        groupId: "subs",
+        name: "简体中文",
+        language: "zh-Hans",
+        uri: "http://cdn.example.com/subs/zh.m3u8",
+        isDefault: false,
+        autoselect: false,
+      },
+    ]);
+    expect(getAudioTrackNames(master)).toEqual(["国语", "粤语"]);
+  });
+
+  it("应该解析缩略图流，并在改写时转为绝对地址", () => {
+    const content = `${MASTER}#EXT-X-IMAGE-STREAM-INF:BANDWIDTH=16000,RESOLUTION=312x180,URI="thumbs/index.m3u8"\n`;
+    const master = parseMasterPlaylist(content, MASTER_URL)!;
+    expect(master.imageStreams).toEqual([
+      {
+        uri: "http://cdn.example.com/vod/show/ep1/thumbs/index.m3u8",
+        bandwidth: 16000,
+        resolution: { width: 312, height: 180 },
+      },
+    ]);
+
+    const reparsed = parseMasterPlaylist(buildMasterPlaylist(master, {}), "http://127.0.0.1:12347/playlist/x.m3u8")!;
+    expect(reparsed.imageStreams[0].uri).toBe("http://cdn.example.com/vod/show/ep1/thumbs/index.m3u8");
+  });
+
+  it("应该解析 I 帧流", () => {
+    const content = `${MASTER}#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=86000,RESOLUTION=640x360,URI="iframes/index.m3u8"\n`;
+    const master = parseMasterPlaylist(content, MASTER_URL)!;
+    expect(master.iFrameStreams).toEqual([
+      {
+        uri: "http://cdn.example.com/vod/show/ep1/iframes/index.m3u8",
+        bandwidth: 86000,
+        resolution: { width: 640, height: 360 },
+      },
+    ]);
+    expect(master.imageStreams).toEqual([]);
+  });
+
+  it("媒体播放列表返回 null", () => {
+    expect(parseMasterPlaylist("#EXTM3U\n#EXTINF:10,\nseg1.ts\n", MASTER_URL)).toBeNull();
+  });
+});
+
+describe("buildMasterPlaylist", () => {
+  it("每个音频组只保留选中的音轨，并将地址改为绝对地址", () => {
+    const master = parseMasterPlaylist(MASTER, MASTER_URL)!;
+    const rewritten = buildMasterPlaylist(master, { audioTrack: "粤语" });
+    const reparsed = parseMasterPlaylist(rewritten, "http://127.0.0.1:12347/playlist/x.m3u8")!;
+
+    expect(reparsed.audioRenditions.map((rendition) => [rendition.groupId, rendition.name, rendition.isDefault])).toEqual([
+      ["aac-high", "粤语", true],
+      ["aac-low", "粤语", true],
+    ]);
+    expect(reparsed.audioRenditions[1].uri).toBe("http://cdn.example.com/vod/show/ep1/audio/low/yue.m3u8");
+    expect(reparsed.subtitleRenditions[0].uri).toBe("http://cdn.example.com/subs/zh.m3u8");
+    expect(reparsed.variants.map((variant) => variant.uri)).toEqual([
+      "http://cdn.example.com/vod/show/ep1/1080p/index.m3u8",
+      "http://cdn.example.com/vod/show/ep1/720p/index.m3u8",
+    ]);
+  });
+});
+
+describe("parseMediaPlaylistSegments", () => {
+  it("应该返回绝对分片地址", () => {
+    const content = "#EXTM3U\n#EXT-X-TARGETDURATION:10\n#EXTINF:10,\nseg1.vtt\n#EXTINF:10,\n/abs/seg2.vtt\n#EXT-X-ENDLIST";
+    expect(parseMediaPlaylistSegments(content, "http://example.com/subs/zh.m3u8")).toEqual([
+      "http://example.com/subs/seg1.vtt",
+      "http://example.com/abs/seg2.vtt",
+    ]);
+  });
+});
+
+describe("parseMediaPlaylistTimeline", () => {
+  it("应该返回分片地址及其开始时间与时长", () => {
+    const content = "#EXTM3U\n#EXTINF:10.5,\nseg1.ts\n#EXT-X-DISCONTINUITY\n#EXTINF:4,\nseg2.ts\n#EXT-X-ENDLIST";
+    expect(parseMediaPlaylistTimeline(content, "http://example.com/video/index.m3u8")).toEqual([
+      { uri: "http://example.com/video/seg1.ts", start: 0, duration: 10500 },
+      { uri: "http://example.com/video/seg2.ts", start: 10500, duration: 4000 },
+    ]);
+  });
+
+  it("应该解析 I 帧播放列表中的字节范围，省略偏移量时接着上一段", () => {
+    const content = `#EXTM3U
+#EXT-X-I-FRAMES-ONLY
+#EXTINF:4,
+#EXT-X-BYTERANGE:9400@376
+seg1.ts
+#EXTINF:4,
+#EXT-X-BYTERANGE:7144
+seg1.ts
+#EXTINF:4,
+#EXT-X-BYTERANGE:8272@564
+seg2.ts
+#EXT-X-ENDLIST`;
+    expect(parseMediaPlaylistTimeline(content, "http://a.com/v/iframes.m3u8")).toEqual([
+      { uri: "http://a.com/v/seg1.ts", start: 0, duration: 4000, byteRange: { offset: 376, length: 9400 } },
+      { uri: "http://a.com/v/seg1.ts", start: 4000, duration: 4000, byteRange: { offset: 9776, length: 7144 } },
+      { uri: "http://a.com/v/seg2.ts", start: 8000, duration: 4000, byteRange: { offset: 564, length: 8272 } },
+    ]);
+  });
+});
+
+describe("isEncryptedPlaylist", () => {
+  it("METHOD 不是 NONE 时视为加密", () => {
+    expect(isEncryptedPlaylist('#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="key.key"\n#EXTINF:10,\nseg1.ts')).toBe(true);
+    expect(isEncryptedPlaylist("#EXTM3U\n#EXT-X-KEY:METHOD=NONE\n#EXTINF:10,\nseg1.ts")).toBe(false);
+    expect(isEncryptedPlaylist("#EXTM3U\n#EXTINF:10,\nseg1.ts")).toBe(false);
+  });
+});
+
+describe("variant quality", () => {
+  it("应该按清晰度标识查找最高码率的变体", () => {
+    const master = parseMasterPlaylist(MASTER, MASTER_URL)!;
+    expect(sortVariants(master.variants).map(getVariantQuality)).toEqual(["1080p", "720p"]);
+    expect(findVariantByQuality(master, "720p")?.uri).toBe("http://cdn.example.com/vod/show/ep1/720p/index.m3u8");
+    expect(findVariantByQuality(master, "480p")).toBeUndefined();
+    expect(getVariantQuality({ uri: "a", bandwidth: 800000 })).toBe("800k");
+    expect(formatBandwidth(1500000)).toBe("1.5 Mbps");
+    expect(formatBandwidth(640000)).toBe("640 Kbps");
+  });
+
+  it("buildMasterPlaylist 可以只保留指定的变体", () => {
+    const master = parseMasterPlaylist(MASTER, MASTER_URL)!;
+    const variantUri = "http://cdn.example.com/vod/show/ep1/720p/index.m3u8";
+    const reparsed = parseMasterPlaylist(buildMasterPlaylist(master, { variantUri }), MASTER_URL)!;
+    expect(reparsed.variants.map((variant) => variant.uri)).toEqual([variantUri]);
+    expect(reparsed.audioRenditions).toHaveLength(4);
+  });
+
+  it("buildMasterPlaylist 可以替换变体地址", () => {
+    const master = parseMasterPlaylist(MASTER, MASTER_URL)!;
+    const variantUrls = {
+      "http://cdn.example.com/vod/show/ep1/720p/index.m3u8": "http://127.0.0.1:12347/playlist/a.m3u8",
+    };
+    const reparsed = parseMasterPlaylist(buildMasterPlaylist(master, { variantUrls }), MASTER_URL)!;
+    expect(reparsed.variants.map((variant) => variant.uri)).toEqual([
+      "http://cdn.example.com/vod/show/ep1/1080p/index.m3u8",
+      "http://127.0.0.1:12347/playlist/a.m3u8",
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { DEFAULT_SEEK_OPTIONS, formatSeekStep, getPercentagePosition, getSeekMultiplier } from "../seekSteps";
+
+describe("getSeekMultiplier", () => {
+  it("按住越久步长越大，并且有上限", () => {
+    expect(getSeekMultiplier(0, DEFAULT_SEEK_OPTIONS)).toBe(1);
+    expect(getSeekMultiplier(1499, DEFAULT_SEEK_OPTIONS)).toBe(1);
+    expect(getSeekMultiplier(1500, DEFAULT_SEEK_OPTIONS)).toBe(2);
+    expect(getSeekMultiplier(4600, DEFAULT_SEEK_OPTIONS)).toBe(8);
+    expect(getSeekMultiplier(60000, DEFAULT_SEEK_OPTIONS)).toBe(16);
+  });
+
+  it("关闭加速时保持原步长", () => {
+    expect(getSeekMultiplier(60000, { ...DEFAULT_SEEK_OPTIONS, accelerate: false })).toBe(1);
+  });
+});
+
+describe("getPercentagePosition", () => {
+  it("数字键按十分比跳转", () => {
+    expect(getPercentagePosition("3", 7200000)).toBe(2160000);
+    expect(getPercentagePosition("0", 7200000)).toBe(0);
+  });
+
+  it("其他按键返回 null", () => {
+    expect(getPercentagePosition("right", 7200000)).toBeNull();
+    expect(getPercentagePosition("10", 7200000)).toBeNull();
+  });
+});
+
+describe("formatSeekStep", () => {
+  it("应该格式化步长", () => {
+    expect(formatSeekStep(20000)).toBe("20 秒");
+    expect(formatSeekStep(-160000)).toBe("2 分 40 秒");
+    expect(formatSeekStep(300000)).toBe("5 分钟");
+  });
+});
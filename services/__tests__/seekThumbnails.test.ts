@@ -0,0 +1,81 @@
+import { findAtPosition, parseImagePlaylist, parseVttThumbnails } from "../seekThumbnails";
+
+describe("parseVttThumbnails", () => {
+  it("应该解析图片地址与雪碧图区域", () => {
+    const content = `WEBVTT
+
+00:00.000 --> 00:05.000
+sprite-1.jpg#xywh=0,0,160,90
+
+00:05.000 --> 00:10.000
+https://img.example.com/sprite-1.jpg#xywh=160,0,160,90
+
+00:10.000 --> 00:15.000
+/thumbs/frame-3.jpg
+`;
+    expect(parseVttThumbnails(content, "http://example.com/vod/thumbs.vtt")).toEqual([
+      {
+        uri: "http://example.com/vod/sprite-1.jpg",
+        start: 0,
+        end: 5000,
+        region: { x: 0, y: 0, width: 160, height: 90 },
+      },
+      {
+        uri: "https://img.example.com/sprite-1.jpg",
+        start: 5000,
+        end: 10000,
+        region: { x: 160, y: 0, width: 160, height: 90 },
+      },
+      { uri: "http://example.com/thumbs/frame-3.jpg", start: 10000, end: 15000, region: undefined },
+    ]);
+  });
+});
+
+describe("parseImagePlaylist", () => {
+  it("应该按 LAYOUT 拆分雪碧图", () => {
+    const content = `#EXTM3U
+#EXT-X-TARGETDURATION:20
+#EXT-X-IMAGES-ONLY
+#EXTINF:20.000,
+#EXT-X-TILES:RESOLUTION=160x90,LAYOUT=2x2,DURATION=5.000
+tiles-1.jpg
+#EXTINF:7.000,
+#EXT-X-TILES:RESOLUTION=160x90,LAYOUT=2x2,DURATION=5.000
+tiles-2.jpg
+#EXT-X-ENDLIST
+`;
+    const thumbnails = parseImagePlaylist(content, "http://example.com/vod/thumbs/index.m3u8");
+    expect(thumbnails).toHaveLength(6);
+    expect(thumbnails[3]).toEqual({
+      uri: "http://example.com/vod/thumbs/tiles-1.jpg",
+      start: 15000,
+      end: 20000,
+      region: { x: 160, y: 90, width: 160, height: 90 },
+      sheet: { width: 320, height: 180 },
+    });
+    expect(thumbnails[5]).toMatchObject({ start: 25000, end: 27000, region: { x: 160, y: 0 } });
+  });
+
+  it("没有 TILES 时整张图片对应整个分片", () => {
+    const content = "#EXTM3U\n#EXT-X-IMAGES-ONLY\n#EXTINF:10,\na.jpg\n#EXTINF:10,\nb.jpg\n";
+    expect(parseImagePlaylist(content, "http://example.com/t/index.m3u8")).toEqual([
+      { uri: "http://example.com/t/a.jpg", start: 0, end: 10000 },
+      { uri: "http://example.com/t/b.jpg", start: 10000, end: 20000 },
+    ]);
+  });
+
+  it("普通媒体播放列表返回空数组", () => {
+    expect(parseImagePlaylist("#EXTM3U\n#EXTINF:10,\nseg1.ts\n", "http://example.com/index.m3u8")).toEqual([]);
+  });
+});
+
+describe("findAtPosition", () => {
+  it("应该返回覆盖指定位置的项", () => {
+    const items = [
+      { start: 0, end: 5000 },
+      { start: 5000, end: 10000 },
+    ];
+    expect(findAtPosition(items, 5000, (item) => item.end)).toBe(items[1]);
+    expect(findAtPosition(items, 10000, (item) => item.end)).toBeUndefined();
+  });
+});
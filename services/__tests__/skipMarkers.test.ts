@@ -0,0 +1,47 @@
+import { addSkipMarkerSample, inferMarker, isIntroSkip, isOutroSkip, resolveSkipMarkers } from "../skipMarkers";
+
+describe("inferMarker", () => {
+  it("至少两集一致时取中位数", () => {
+    expect(inferMarker({ 0: 90000, 1: 92000, 2: 300000, 3: 95000 })).toBe(92000);
+  });
+
+  it("只有一集或各集不一致时不推断", () => {
+    expect(inferMarker({ 0: 90000 })).toBeUndefined();
+    expect(inferMarker({ 0: 90000, 1: 150000 })).toBeUndefined();
+    expect(inferMarker()).toBeUndefined();
+  });
+});
+
+describe("resolveSkipMarkers", () => {
+  const record = addSkipMarkerSample(addSkipMarkerSample(null, "intro", 0, 90000), "intro", 1, 91000.4);
+
+  it("手动设置的标记优先于推断", () => {
+    expect(resolveSkipMarkers({ ...record, introEndTime: 60000 }, true)).toEqual({
+      introEndTime: 60000,
+      outroStartTime: undefined,
+      isIntroInferred: false,
+      isOutroInferred: false,
+    });
+  });
+
+  it("启用推断时使用前几集确认的标记", () => {
+    expect(record.introSamples).toEqual({ 0: 90000, 1: 91000 });
+    expect(resolveSkipMarkers(record, true)).toMatchObject({ introEndTime: 90000, isIntroInferred: true });
+    expect(resolveSkipMarkers(record, false)).toMatchObject({ introEndTime: undefined, isIntroInferred: false });
+    expect(resolveSkipMarkers(null, true).introEndTime).toBeUndefined();
+  });
+});
+
+describe("skip detection", () => {
+  it("开头附近的大幅快进视为跳过片头", () => {
+    expect(isIntroSkip(5000, 95000)).toBe(true);
+    expect(isIntroSkip(5000, 20000)).toBe(false);
+    expect(isIntroSkip(20 * 60 * 1000, 21 * 60 * 1000)).toBe(false);
+  });
+
+  it("结尾前几分钟切到下一集视为跳过片尾", () => {
+    expect(isOutroSkip(90000, 45 * 60 * 1000)).toBe(true);
+    expect(isOutroSkip(3000, 45 * 60 * 1000)).toBe(false);
+    expect(isOutroSkip(90000, 4 * 60 * 1000)).toBe(false);
+  });
+});
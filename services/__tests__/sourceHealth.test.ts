@@ -0,0 +1,91 @@
+import {
+  SourceHealthRecord,
+  applySourceHealthEvent,
+  combineSourceScore,
+  compareSources,
+  getHealthScore,
+  isRecentlyFailed,
+  isSourceFailing,
+} from "../sourceHealth";
+
+const record = (overrides: Partial<SourceHealthRecord> = {}): SourceHealthRecord => ({
+  successes: 0,
+  failures: 0,
+  stalls: 0,
+  consecutiveFailures: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe("applySourceHealthEvent", () => {
+  it("成功时清零连续失败次数并记录首帧耗时", () => {
+    const failed = applySourceHealthEvent(undefined, { type: "failure" }, 1000);
+    expect(failed).toMatchObject({ failures: 1, consecutiveFailures: 1, lastFailureAt: 1000 });
+
+    const succeeded = applySourceHealthEvent(failed, { type: "success", firstFrameTime: 2000 }, 2000);
+    expect(succeeded).toMatchObject({ successes: 1, failures: 0.9, consecutiveFailures: 0, firstFrameTime: 2000 });
+  });
+
+  it("首帧耗时取滑动平均", () => {
+    const first = applySourceHealthEvent(undefined, { type: "success", firstFrameTime: 1000 });
+    expect(applySourceHealthEvent(first, { type: "success", firstFrameTime: 11000 }).firstFrameTime).toBe(4000);
+  });
+
+  it("卡顿不衰减播放记录", () => {
+    const played = record({ successes: 2 });
+    expect(applySourceHealthEvent(played, { type: "stall" }, 5)).toEqual({ ...played, stalls: 1, updatedAt: 5 });
+  });
+});
+
+describe("getHealthScore", () => {
+  it("首帧快、不卡顿的播放源得分高", () => {
+    expect(getHealthScore(record({ successes: 5, firstFrameTime: 800 }))).toBeGreaterThan(90);
+  });
+
+  it("经常失败和卡顿的播放源得分低", () => {
+    expect(getHealthScore(record({ successes: 1, failures: 4, stalls: 5, firstFrameTime: 20000 }))).toBeLessThan(20);
+  });
+});
+
+describe("combineSourceScore", () => {
+  it("没有历史记录时使用测速评分", () => {
+    expect(combineSourceScore(80, undefined)).toBe(80);
+    expect(combineSourceScore(undefined, undefined)).toBeUndefined();
+  });
+
+  it("测速失败时使用健康评分", () => {
+    const health = record({ successes: 3, firstFrameTime: 1000 });
+    expect(combineSourceScore(undefined, health)).toBe(getHealthScore(health));
+  });
+
+  it("历史记录越多健康评分权重越大", () => {
+    const few = combineSourceScore(90, record({ failures: 1, consecutiveFailures: 1 }))!;
+    const many = combineSourceScore(90, record({ failures: 3, consecutiveFailures: 3 }))!;
+    expect(few).toBeLessThan(90);
+    expect(many).toBeLessThan(few);
+  });
+});
+
+describe("compareSources", () => {
+  it("连续失败的播放源排到最后，其余按评分降序", () => {
+    const failing = { score: 95, health: record({ failures: 2, consecutiveFailures: 2 }) };
+    const good = { score: 70 };
+    const better = { score: 80 };
+    const unknown = {};
+    expect([failing, unknown, good, better].sort(compareSources)).toEqual([better, good, unknown, failing]);
+  });
+});
+
+describe("isSourceFailing / isRecentlyFailed", () => {
+  it("连续失败两次视为失效", () => {
+    expect(isSourceFailing(record({ consecutiveFailures: 1 }))).toBe(false);
+    expect(isSourceFailing(record({ consecutiveFailures: 2 }))).toBe(true);
+  });
+
+  it("最近失败且之后没有成功过的播放源不作为备用源", () => {
+    const failed = record({ consecutiveFailures: 1, lastFailureAt: 0 });
+    expect(isRecentlyFailed(failed, 60 * 1000)).toBe(true);
+    expect(isRecentlyFailed(failed, 60 * 60 * 1000)).toBe(false);
+    expect(isRecentlyFailed({ ...failed, consecutiveFailures: 0 }, 60 * 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { calculateThroughput, formatThroughput, measureThroughput } from "../speedTest";
+
+describe("calculateThroughput", () => {
+  it("应该按 KB/s 计算下载速度", () => {
+    expect(calculateThroughput(1024 * 1024, 500)).toBe(2048);
+  });
+
+  it("下载量太少时返回 null", () => {
+    expect(calculateThroughput(1024, 10)).toBeNull();
+    expect(calculateThroughput(1024 * 1024, 0)).toBeNull();
+  });
+});
+
+describe("formatThroughput", () => {
+  it("超过 1 MB/s 时按 MB/s 显示", () => {
+    expect(formatThroughput(512)).toBe("512 KB/s");
+    expect(formatThroughput(1536)).toBe("1.5 MB/s");
+  });
+});
+
+// 模拟分片下载：按块报告进度，服务器忽略 Range 时返回整个文件
+class FakeXMLHttpRequest {
+  static requests: FakeXMLHttpRequest[] = [];
+  static respond: (url: string) => { status: number; size: number; ignoresRange?: boolean };
+
+  url = "";
+  headers: Record<string, string> = {};
+  status = 0;
+  response: ArrayBuffer | null = null;
+  responseType = "";
+  aborted = false;
+  onprogress?: (event: { loaded: number }) => void;
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+
+  open(_method: string, url: string) {
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  abort() {
+    this.aborted = true;
+    this.onabort?.();
+  }
+
+  send() {
+    FakeXMLHttpRequest.requests.push(this);
+    const { status, size, ignoresRange } = FakeXMLHttpRequest.respond(this.url);
+    const rangeEnd = Number(this.headers.Range.match(/bytes=0-(\d+)/)![1]);
+    const total = ignoresRange ? size : Math.min(size, rangeEnd + 1);
+    setTimeout(() => {
+      for (let loaded = 0; loaded < total && !this.aborted;) {
+        loaded = Math.min(total, loaded + 64 * 1024);
+        this.onprogress?.({ loaded });
+      }
+      if (this.aborted) return;
+      this.status = status;
+      this.response = new ArrayBuffer(total);
+      this.onload?.();
+    }, 0);
+  }
+}
+
+describe("measureThroughput", () => {
+  const mockFetch = jest.fn();
+  const respondText = (url: string, body: string) => ({
+    ok: true,
+    status: 200,
+    url,
+    text: () => Promise.resolve(body),
+  });
+  const requestedSegments = () => FakeXMLHttpRequest.requests.map((xhr) => xhr.url);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+    global.XMLHttpRequest = FakeXMLHttpRequest as any;
+    FakeXMLHttpRequest.requests = [];
+    // 每个分片的下载耗时固定为 100ms
+    let now = 0;
+    jest.spyOn(performance, "now").mockImplementation(() => (now += 100));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("应该从主播放列表解析到最高清晰度的分片并按字节预算下载", async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url.endsWith("index.m3u8")) {
+        return Promise.resolve(
+          respondText(
+            url,
+            "#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360\n360/index.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080\n1080/hls.m3u8\n",
+          ),
+        );
+      }
+      return Promise.resolve(respondText(url, "#EXTM3U\n#EXTINF:4,\na.ts\n#EXTINF:4,\nb.ts\n#EXTINF:4,\nc.ts\n"));
+    });
+    FakeXMLHttpRequest.respond = (url) => ({ status: 206, size: url.endsWith("a.ts") ? 600 * 1024 : 4 * 1024 * 1024 });
+
+    expect(await measureThroughput("http://example.com/vod/index.m3u8")).toBe(5120);
+    expect(requestedSegments()).toEqual(["http://example.com/vod/1080/a.ts", "http://example.com/vod/1080/b.ts"]);
+    expect(FakeXMLHttpRequest.requests[0].headers.Range).toBe("bytes=0-1048575");
+    expect(FakeXMLHttpRequest.requests[1].headers.Range).toBe(`bytes=0-${424 * 1024 - 1}`);
+  });
+
+  it("第一个分片用完预算时不再下载第二个", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(respondText(url, "#EXTM3U\n#EXTINF:4,\na.ts\n#EXTINF:4,\nb.ts\n")),
+    );
+    FakeXMLHttpRequest.respond = () => ({ status: 206, size: 2 * 1024 * 1024 });
+
+    await measureThroughput("http://example.com/vod/index.m3u8");
+    expect(requestedSegments()).toEqual(["http://example.com/vod/a.ts"]);
+  });
+
+  it("不是 HLS 时直接下载视频文件的开头", async () => {
+    FakeXMLHttpRequest.respond = () => ({ status: 206, size: 8 * 1024 * 1024 });
+
+    expect(await measureThroughput("http://example.com/movie.mp4")).toBe(10240);
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(requestedSegments()).toEqual(["http://example.com/movie.mp4"]);
+  });
+
+  it("服务器忽略 Range 时读满预算就中止下载", async () => {
+    FakeXMLHttpRequest.respond = () => ({ status: 200, size: 8 * 1024 * 1024, ignoresRange: true });
+
+    expect(await measureThroughput("http://example.com/movie.mp4")).toBe(10240);
+    expect(FakeXMLHttpRequest.requests[0].aborted).toBe(true);
+  });
+
+  it("服务器忽略 Range 但文件不超过预算时按整个文件计算", async () => {
+    FakeXMLHttpRequest.respond = () => ({ status: 200, size: 512 * 1024, ignoresRange: true });
+
+    expect(await measureThroughput("http://example.com/movie.mp4")).toBe(5120);
+    expect(FakeXMLHttpRequest.requests[0].aborted).toBe(false);
+  });
+
+  it("分片请求失败时返回 null", async () => {
+    FakeXMLHttpRequest.respond = () => ({ status: 404, size: 0 });
+
+    expect(await measureThroughput("http://example.com/movie.mp4")).toBeNull();
+  });
+
+  it("播放列表请求失败时返回 null", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+    expect(await measureThroughput("http://example.com/vod/index.m3u8")).toBeNull();
+    expect(FakeXMLHttpRequest.requests).toHaveLength(0);
+  });
+});
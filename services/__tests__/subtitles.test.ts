@@ -0,0 +1,193 @@
+import {
+  detectSubtitleFormat,
+  fetchSubtitles,
+  findActiveCueText,
+  getSubtitleLabel,
+  parseAss,
+  parseSrt,
+  parseSubtitles,
+  parseTimestampMap,
+  parseVtt,
+} from "../subtitles";
+
+const SRT = `\uFEFF1
+00:00:01,000 --> 00:00:04,500
+<i>Hello</i> world
+
+2
+00:00:05,000 --> 00:00:07,000
+{\\an8}Second line
+continues here
+
+3
+00:00:08,000 --> 00:00:07,000
+Broken timing
+`;
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE this is a comment
+
+intro
+00:01.000 --> 00:03.250 align:start position:10%
+<v Roger>Hi &amp; welcome</v>
+
+01:00:00.000 --> 01:00:02.000
+<00:00:01.000>Late cue
+`;
+
+const ASS = `[Script Info]
+Title: Test
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize
+Style: Default,Arial,20
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Ignored
+Dialogue: 0,0:00:02.50,0:00:04.00,Default,,0,0,0,,{\\b1}Bold{\\b0}, with comma\\Nsecond line
+Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,First\\hcue
+`;
+
+describe("parseSrt", () => {
+  it("应该解析时间与多行文本，并去掉标签", () => {
+    expect(parseSrt(SRT)).toEqual([
+      { start: 1000, end: 4500, text: "Hello world" },
+      { start: 5000, end: 7000, text: "Second line\ncontinues here" },
+    ]);
+  });
+
+  it("应该兼容 Windows 换行", () => {
+    expect(parseSrt("1\r\n00:00:01,000 --> 00:00:02,000\r\nHi\r\n")).toEqual([{ start: 1000, end: 2000, text: "Hi" }]);
+  });
+});
+
+describe("parseVtt", () => {
+  it("应该跳过头部与注释，支持省略小时和时间行设置", () => {
+    expect(parseVtt(VTT)).toEqual([
+      { start: 1000, end: 3250, text: "Hi & welcome" },
+      { start: 3600000, end: 3602000, text: "Late cue" },
+    ]);
+  });
+});
+
+describe("parseTimestampMap", () => {
+  it("应该把 MPEGTS 与 LOCAL 换算成毫秒偏移", () => {
+    expect(parseTimestampMap("WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000\n")).toBe(10000);
+    expect(parseTimestampMap("WEBVTT\nX-TIMESTAMP-MAP=LOCAL:00:00:02.000,MPEGTS:1080000\n")).toBe(10000);
+  });
+
+  it("没有声明时返回 undefined", () => {
+    expect(parseTimestampMap("WEBVTT\n\n00:01.000 --> 00:02.000\n第一句\n")).toBeUndefined();
+  });
+});
+
+describe("parseAss", () => {
+  it("应该只解析 Dialogue 行，去掉样式标签并按开始时间排序", () => {
+    expect(parseAss(ASS)).toEqual([
+      { start: 1000, end: 2000, text: "First cue" },
+      { start: 2500, end: 4000, text: "Bold, with comma\nsecond line" },
+    ]);
+  });
+
+  it("应该按 Format 行的字段顺序读取", () => {
+    const content = `[Events]
+Format: Start, End, Text
+Dialogue: 0:00:01.00,0:00:02.00,Custom order`;
+    expect(parseAss(content)).toEqual([{ start: 1000, end: 2000, text: "Custom order" }]);
+  });
+});
+
+describe("detectSubtitleFormat", () => {
+  it("优先根据内容判断，其次参考扩展名", () => {
+    expect(detectSubtitleFormat(VTT)).toBe("vtt");
+    expect(detectSubtitleFormat(ASS)).toBe("ass");
+    expect(detectSubtitleFormat(SRT)).toBe("srt");
+    expect(detectSubtitleFormat("", "http://example.com/a.SSA?token=1")).toBe("ass");
+    expect(detectSubtitleFormat(VTT, "http://example.com/a.srt")).toBe("vtt");
+  });
+
+  it("parseSubtitles 自动识别格式", () => {
+    expect(parseSubtitles(ASS)).toHaveLength(2);
+    expect(parseSubtitles(VTT)).toHaveLength(2);
+  });
+});
+
+describe("findActiveCueText", () => {
+  const cues = [
+    { start: 1000, end: 3000, text: "A" },
+    { start: 2000, end: 4000, text: "B" },
+    { start: 5000, end: 6000, text: "C" },
+  ];
+
+  it("应该返回当前时间正在显示的字幕，重叠时按顺序拼接", () => {
+    expect(findActiveCueText(cues, 500)).toBe("");
+    expect(findActiveCueText(cues, 1000)).toBe("A");
+    expect(findActiveCueText(cues, 2500)).toBe("A\nB");
+    expect(findActiveCueText(cues, 3500)).toBe("B");
+    expect(findActiveCueText(cues, 4500)).toBe("");
+    expect(findActiveCueText(cues, 6000)).toBe("");
+  });
+
+  it("空字幕列表返回空字符串", () => {
+    expect(findActiveCueText([], 1000)).toBe("");
+  });
+});
+
+describe("fetchSubtitles", () => {
+  const mockFetch = jest.fn();
+  const respond = (url: string, body: string) => ({ ok: true, status: 200, url, text: () => Promise.resolve(body) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+  });
+
+  it("应该下载 HLS 字幕组的所有分片并去重", async () => {
+    const segment1 = "WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000\n\n00:01.000 --> 00:02.000\n第一句\n";
+    const segment2 = "WEBVTT\n\n00:01.000 --> 00:02.000\n第一句\n\n00:11.000 --> 00:12.000\n第二句\n";
+    mockFetch.mockImplementation((url: string) => {
+      if (url.endsWith("zh.m3u8")) {
+        return Promise.resolve(respond(url, "#EXTM3U\n#EXTINF:10,\nseg1.vtt\n#EXTINF:10,\nseg2.vtt\n#EXT-X-ENDLIST"));
+      }
+      return Promise.resolve(respond(url, url.endsWith("seg1.vtt") ? segment1 : segment2));
+    });
+
+    const cues = await fetchSubtitles("http://example.com/subs/zh.m3u8");
+    expect(mockFetch).toHaveBeenCalledWith("http://example.com/subs/seg2.vtt", expect.anything());
+    expect(cues).toEqual([
+      { start: 1000, end: 2000, text: "第一句" },
+      { start: 11000, end: 12000, text: "第二句" },
+    ]);
+  });
+
+  it("应该按各分片的 X-TIMESTAMP-MAP 对齐字幕时间", async () => {
+    const segment1 = "WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000\n\n00:01.000 --> 00:02.000\n第一句\n";
+    const segment2 = "WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:1800000,LOCAL:00:00:00.000\n\n00:01.000 --> 00:02.000\n第二句\n";
+    mockFetch.mockImplementation((url: string) => {
+      if (url.endsWith("zh.m3u8")) {
+        return Promise.resolve(respond(url, "#EXTM3U\n#EXTINF:10,\nseg1.vtt\n#EXTINF:10,\nseg2.vtt\n#EXT-X-ENDLIST"));
+      }
+      return Promise.resolve(respond(url, url.endsWith("seg1.vtt") ? segment1 : segment2));
+    });
+
+    expect(await fetchSubtitles("http://example.com/subs/zh.m3u8")).toEqual([
+      { start: 1000, end: 2000, text: "第一句" },
+      { start: 11000, end: 12000, text: "第二句" },
+    ]);
+  });
+
+  it("没有可用字幕时抛出异常", async () => {
+    mockFetch.mockResolvedValue(respond("http://example.com/empty.srt", "not a subtitle"));
+    await expect(fetchSubtitles("http://example.com/empty.srt")).rejects.toThrow();
+  });
+});
+
+describe("getSubtitleLabel", () => {
+  it("应该取地址中的文件名", () => {
+    expect(getSubtitleLabel("http://example.com/subs/%E4%B8%AD%E6%96%87.srt?x=1")).toBe("中文.srt");
+    expect(getSubtitleLabel("http://example.com/")).toBe("http://example.com/");
+  });
+});
@@ -0,0 +1,47 @@
+import { createTaskPool } from "../taskPool";
+
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createTaskPool", () => {
+  it("同时运行的任务不超过并发数，完成一个再开始下一个", async () => {
+    const pool = createTaskPool(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = tasks.map((task, index) =>
+      pool.run(() => {
+        started.push(index);
+        return task.promise.then(() => index);
+      }),
+    );
+
+    expect(started).toEqual([0, 1]);
+    tasks[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve();
+    tasks[2].resolve();
+    expect(await Promise.all(results)).toEqual([0, 1, 2]);
+  });
+
+  it("任务失败时返回错误并继续运行排队的任务", async () => {
+    const pool = createTaskPool(1);
+    const failing = deferred();
+    const first = pool.run(() => failing.promise);
+    const second = pool.run(() => Promise.resolve("done"));
+
+    failing.reject(new Error("timeout"));
+    await expect(first).rejects.toThrow("timeout");
+    await expect(second).resolves.toBe("done");
+  });
+});
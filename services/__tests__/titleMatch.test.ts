@@ -0,0 +1,87 @@
+import {
+  clusterSearchResults,
+  isSameTitle,
+  normalizeTitle,
+  parseChineseNumber,
+  parseTitle,
+  titleSimilarity,
+} from "../titleMatch";
+
+describe("normalizeTitle", () => {
+  it("应该忽略括号注释、空白、标点与全半角差异", () => {
+    expect(normalizeTitle("庆余年 第二季【蓝光】")).toBe("庆余年第二季");
+    expect(normalizeTitle("《庆余年：第二季》(2024)")).toBe("庆余年第二季");
+    expect(normalizeTitle("Ｔｈｅ Ｌａｓｔ of Us")).toBe("thelastofus");
+  });
+});
+
+describe("parseChineseNumber", () => {
+  it("应该解析一到九十九", () => {
+    expect(parseChineseNumber("二")).toBe(2);
+    expect(parseChineseNumber("十")).toBe(10);
+    expect(parseChineseNumber("十二")).toBe(12);
+    expect(parseChineseNumber("二十")).toBe(20);
+    expect(parseChineseNumber("三十五")).toBe(35);
+    expect(parseChineseNumber("12")).toBe(12);
+    expect(parseChineseNumber("二二")).toBeUndefined();
+  });
+});
+
+describe("parseTitle", () => {
+  it("应该拆分季数和年份", () => {
+    expect(parseTitle("庆余年 第二季 (2024)")).toEqual({ name: "庆余年", season: 2, year: 2024 });
+    expect(parseTitle("庆余年2")).toEqual({ name: "庆余年", season: 2, year: undefined });
+    expect(parseTitle("Ｌｏｋｉ Ｓｅａｓｏｎ ２")).toEqual({ name: "loki", season: 2, year: undefined });
+    expect(parseTitle("The Boys S04")).toEqual({ name: "theboys", season: 4, year: undefined });
+  });
+
+  it("整个名称都是数字时不视为季数", () => {
+    expect(parseTitle("1917")).toEqual({ name: "1917", season: undefined, year: undefined });
+    expect(parseTitle("快乐大本营2024")).toMatchObject({ name: "快乐大本营2024", season: undefined });
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("按相邻两字的组合计算相似度", () => {
+    expect(titleSimilarity("庆余年", "庆余年")).toBe(1);
+    expect(titleSimilarity("庆余年", "庆余生")).toBe(0.5);
+    expect(titleSimilarity("a", "b")).toBe(0);
+  });
+});
+
+describe("isSameTitle", () => {
+  it("应该忽略空白、标点、全半角与季数写法的差异", () => {
+    expect(isSameTitle("庆余年 第二季", "庆余年2")).toBe(true);
+    expect(isSameTitle("庆余年：第二季", "庆余年 第2季")).toBe(true);
+    expect(isSameTitle("庆余年", "庆余年 第一季")).toBe(true);
+    expect(isSameTitle("繁花 ", "《繁花》")).toBe(true);
+  });
+
+  it("季数或年份不同时不是同一部剧", () => {
+    expect(isSameTitle("庆余年", "庆余年2")).toBe(false);
+    expect(isSameTitle("射雕英雄传", "射雕英雄传", "2017", "2008")).toBe(false);
+    expect(isSameTitle("射雕英雄传(2017)", "射雕英雄传", undefined, "2016")).toBe(true);
+  });
+
+  it("不同名称不匹配", () => {
+    expect(isSameTitle("庆余年", "庆余生")).toBe(false);
+  });
+});
+
+describe("clusterSearchResults", () => {
+  it("应该把同一部剧的结果合并，保持首次出现的顺序", () => {
+    const results = [
+      { title: "庆余年 第二季", year: "2024", source: "a" },
+      { title: "繁花", year: "2023", source: "a" },
+      { title: "庆余年2", year: "2024", source: "b" },
+      { title: "庆余年", year: "2019", source: "b" },
+    ];
+    const clusters = clusterSearchResults(results);
+    expect(clusters.map((cluster) => cluster.results.map((result) => result.source))).toEqual([
+      ["a", "b"],
+      ["a"],
+      ["b"],
+    ]);
+    expect(clusters[0].title).toBe("庆余年 第二季");
+  });
+});
@@ -0,0 +1,56 @@
+import { buildXtreamApiUrl, buildXtreamLiveUrl, xtreamStreamToChannel } from "../xtream";
+import { buildCatchupUrl } from "../catchup";
+
+const credentials = { server: "provider.example.com:8080/", username: "user", password: "p@ss" };
+
+describe("Xtream URL", () => {
+  it("应该补全协议并编码用户名密码", () => {
+    expect(buildXtreamApiUrl(credentials, "get_live_streams")).toBe(
+      "http://provider.example.com:8080/player_api.php?username=user&password=p%40ss&action=get_live_streams"
+    );
+    expect(buildXtreamLiveUrl(credentials, 42)).toBe("http://provider.example.com:8080/live/user/p%40ss/42.m3u8");
+  });
+});
+
+describe("xtreamStreamToChannel", () => {
+  it("应该转换为 Channel 并使用分类名作为分组", () => {
+    const channel = xtreamStreamToChannel(
+      {
+        num: 5,
+        name: " CNN ",
+        stream_id: 42,
+        stream_icon: "http://logo/cnn.png",
+        epg_channel_id: "cnn.us",
+        category_id: "1",
+      },
+      { "1": "News" },
+      credentials,
+      "ts"
+    );
+
+    expect(channel).toEqual({
+      id: "http://provider.example.com:8080/live/user/p%40ss/42.ts",
+      name: "CNN",
+      url: "http://provider.example.com:8080/live/user/p%40ss/42.ts",
+      logo: "http://logo/cnn.png",
+      group: "News",
+      number: 5,
+      tvgId: "cnn.us",
+      catchup: undefined,
+    });
+  });
+
+  it("支持回看的频道应该生成 timeshift 地址", () => {
+    const channel = xtreamStreamToChannel(
+      { name: "BBC", stream_id: 7, tv_archive: 1, tv_archive_duration: "3" },
+      {},
+      credentials
+    );
+    expect(channel.catchup?.days).toBe(3);
+
+    const start = new Date(2024, 0, 1, 20, 0).getTime();
+    expect(buildCatchupUrl(channel, start, start + 90 * 60 * 1000)).toBe(
+      "http://provider.example.com:8080/timeshift/user/p%40ss/90/2024-01-01:20-00/7.ts"
+    );
+  });
+});
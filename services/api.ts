@@ -1,4 +1,5 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { isSameTitle } from "./titleMatch";
 
 // region: --- Interface Definitions ---
 export interface DoubanItem {
@@ -33,6 +34,7 @@ export interface SearchResult {
   title: string;
   poster: string;
   episodes: string[];
+  episodes_titles?: string[]; // 与 episodes 一一对应的剧集名称，部分源不提供
   source: string;
   source_name: string;
   class?: string;
@@ -43,7 +45,6 @@ export interface SearchResult {
   videoInfo?: {
     quality: string; // 视频质量，如 '1080p', '720p', '4K' 等
     loadSpeed: string; // 加载速度，如 '1.2 MB/s', '500 KB/s'
-    pingTime: number; // 网络延迟（毫秒）
   };
 }
 
@@ -69,6 +70,12 @@ export interface PlayRecord {
   year: string;
 }
 
+export interface LiveChannelState {
+  favorites: string[]; // 收藏的频道标识
+  recent: string[]; // 最近观看的频道标识，最新的在前
+  lastChannel?: string;
+}
+
 export interface ApiSite {
   key: string;
   api: string;
@@ -235,6 +242,20 @@ export class API {
     return response.json();
   }
 
+  async getLiveChannelState(): Promise<LiveChannelState | null> {
+    const response = await this._fetch("/api/live/channels");
+    return response.json();
+  }
+
+  async saveLiveChannelState(state: LiveChannelState): Promise<{ success: boolean }> {
+    const response = await this._fetch("/api/live/channels", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ state }),
+    });
+    return response.json();
+  }
+
   getImageProxyUrl(imageUrl: string): string {
     return `${this.baseURL}/api/image-proxy?url=${encodeURIComponent(imageUrl)}`;
   }
@@ -260,7 +281,8 @@ export class API {
     const url = `/api/search/one?q=${encodeURIComponent(query)}&resourceId=${encodeURIComponent(resourceId)}`;
     const response = await this._fetch(url, { signal });
     const { results } = await response.json();
-    return { results: results.filter((item: any) => item.title === query) };
+    // 不同播放源的剧名写法不一，按归一化后的剧名与季数匹配
+    return { results: results.filter((item: any) => isSameTitle(item.title, query)) };
   }
 
   async getResources(signal?: AbortSignal): Promise<ApiSite[]> {
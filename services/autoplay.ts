@@ -0,0 +1,52 @@
+/**
+ * 连播控制：自动播放下一集的倒计时、“还在看吗？”提示与睡眠定时
+ */
+
+export interface AutoplayOptions {
+  enabled: boolean;
+  countdown: number; // 秒，结束前这么久开始倒计时
+  stillWatchingEpisodes: number; // 连续自动播放这么多集后暂停询问，0 表示不询问
+}
+
+export const DEFAULT_AUTOPLAY_OPTIONS: AutoplayOptions = {
+  enabled: true,
+  countdown: 10,
+  stillWatchingEpisodes: 3,
+};
+
+// 本集结束时暂停，或者播放若干分钟后暂停
+export type SleepTimerOption = "episode" | number;
+
+export const SLEEP_TIMER_OPTIONS: SleepTimerOption[] = ["episode", 15, 30, 60];
+
+export const getSleepTimerLabel = (option: SleepTimerOption): string =>
+  option === "episode" ? "本集结束" : `${option} 分钟`;
+
+/**
+ * 距离自动切到下一集还有多久（毫秒）
+ * @param outroStartTime 手动设置的片尾时长，片尾开始时就切到下一集
+ */
+export const getAutoAdvanceRemaining = (
+  positionMillis: number,
+  durationMillis: number,
+  outroStartTime?: number,
+): number => Math.max(0, durationMillis - (outroStartTime || 0) - positionMillis);
+
+/**
+ * 倒计时显示的秒数，倍速播放时按实际经过的时间计算
+ * @returns 还没到倒计时开始的时候返回 undefined
+ */
+export const getAutoplayCountdown = (
+  remaining: number,
+  options: AutoplayOptions,
+  playbackRate = 1,
+): number | undefined => {
+  const seconds = Math.ceil(remaining / Math.max(playbackRate, 0.1) / 1000);
+  return seconds <= options.countdown ? seconds : undefined;
+};
+
+/**
+ * 已经连续自动播放了 autoAdvanceCount 集，下一次自动播放前是否需要询问
+ */
+export const shouldAskStillWatching = (autoAdvanceCount: number, options: AutoplayOptions): boolean =>
+  options.stillWatchingEpisodes > 0 && autoAdvanceCount >= options.stillWatchingEpisodes;
@@ -0,0 +1,171 @@
+import { Channel } from "./m3u";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type CatchupType = "default" | "append" | "shift" | "flussonic";
+
+export interface CatchupInfo {
+  type: CatchupType;
+  source?: string;
+  days: number;
+}
+
+const CATCHUP_TYPE_ALIASES: Record<string, CatchupType> = {
+  default: "default",
+  append: "append",
+  shift: "shift",
+  timeshift: "shift",
+  flussonic: "flussonic",
+  "flussonic-hls": "flussonic",
+  "flussonic-ts": "flussonic",
+  fs: "flussonic",
+};
+
+const DEFAULT_CATCHUP_DAYS = 1;
+
+/**
+ * 从 #EXTINF 的 catchup / catchup-source / catchup-days（以及旧式 timeshift）属性构造回看信息
+ */
+export const parseCatchupAttributes = (attributes: {
+  catchup?: string;
+  source?: string;
+  days?: string;
+  timeshift?: string;
+}): CatchupInfo | undefined => {
+  const rawType = attributes.catchup?.trim().toLowerCase();
+  const days = parseInt(attributes.days || attributes.timeshift || "", 10);
+  let type = rawType ? CATCHUP_TYPE_ALIASES[rawType] : undefined;
+
+  // 只有 timeshift 天数或 catchup-source 时，按 shift / default 处理
+  if (!type && !rawType) {
+    if (attributes.source) {
+      type = "default";
+    } else if (attributes.timeshift && !isNaN(days)) {
+      type = "shift";
+    }
+  }
+  if (!type) {
+    return undefined;
+  }
+  return {
+    type,
+    source: attributes.source || undefined,
+    days: !isNaN(days) && days > 0 ? days : DEFAULT_CATCHUP_DAYS,
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+const formatTemplateDate = (timestamp: number, format: string, utc: boolean) => {
+  const date = new Date(timestamp);
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = pad((utc ? date.getUTCMonth() : date.getMonth()) + 1);
+  const day = pad(utc ? date.getUTCDate() : date.getDate());
+  const hours = pad(utc ? date.getUTCHours() : date.getHours());
+  const minutes = pad(utc ? date.getUTCMinutes() : date.getMinutes());
+  const seconds = pad(utc ? date.getUTCSeconds() : date.getSeconds());
+  const tokens: Record<string, string> = {
+    yyyy: `${year}`,
+    MM: month,
+    dd: day,
+    HH: hours,
+    mm: minutes,
+    ss: seconds,
+    Y: `${year}`,
+    m: month,
+    d: day,
+    H: hours,
+    M: minutes,
+    S: seconds,
+  };
+  return format.replace(/yyyy|MM|dd|HH|mm|ss|Y|m|d|H|M|S/g, (token) => tokens[token]);
+};
+
+/**
+ * 替换 catchup-source 模板中的占位符，兼容 Kodi ({utc}、{Y}…) 与 TiviMate (${start}、${(b)yyyyMMdd}…) 两种写法
+ */
+export const fillCatchupTemplate = (
+  template: string,
+  start: number,
+  stop: number,
+  now: number = Date.now(),
+): string => {
+  const startSec = Math.floor(start / 1000);
+  const stopSec = Math.floor(stop / 1000);
+  const nowSec = Math.floor(now / 1000);
+  const duration = stopSec - startSec;
+
+  return template
+    .replace(/\$\{\(b\)([^}]+)\}/g, (_, format) => formatTemplateDate(start, format, false))
+    .replace(/\$\{\(e\)([^}]+)\}/g, (_, format) => formatTemplateDate(stop, format, false))
+    .replace(/\{utc:([^}]+)\}/g, (_, format) => formatTemplateDate(start, format, true))
+    .replace(/\{utcend:([^}]+)\}/g, (_, format) => formatTemplateDate(stop, format, true))
+    .replace(/\{duration:(\d+)\}/g, (_, divider) => `${Math.floor(duration / parseInt(divider, 10))}`)
+    .replace(/\{offset:(\d+)\}/g, (_, divider) => `${Math.floor((nowSec - startSec) / parseInt(divider, 10))}`)
+    .replace(/\$\{start\}|\{utc\}|\{start\}/g, `${startSec}`)
+    .replace(/\$\{end\}|\{utcend\}|\{end\}/g, `${stopSec}`)
+    .replace(/\$\{now\}|\$\{timestamp\}|\{lutc\}|\{now\}|\{timestamp\}/g, `${nowSec}`)
+    .replace(/\$\{duration\}|\{duration\}/g, `${duration}`)
+    .replace(/\{offset\}/g, `${nowSec - startSec}`)
+    .replace(/\{(Y|m|d|H|M|S)\}/g, (_, token) => formatTemplateDate(start, token, true));
+};
+
+const appendQuery = (url: string, query: string) => {
+  if (query.startsWith("?") || query.startsWith("&")) {
+    const separator = url.includes("?") ? "&" : "?";
+    return `${url}${separator}${query.substring(1)}`;
+  }
+  return `${url}${query}`;
+};
+
+/**
+ * Flussonic 回看地址：
+ * http://host/ch/index.m3u8?token=x -> http://host/ch/index-{start}-{duration}.m3u8?token=x
+ * http://host/ch/mpegts?token=x     -> http://host/ch/timeshift_abs-{start}.ts?token=x
+ */
+const buildFlussonicUrl = (url: string, start: number, stop: number): string | null => {
+  const match = url.match(/^(.+\/)([^/?]*?)(\.m3u8|mpegts)(\?.*)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, base, fileName, extension, query = ""] = match;
+  const startSec = Math.floor(start / 1000);
+  const duration = Math.floor((stop - start) / 1000);
+  if (extension === "mpegts") {
+    return `${base}timeshift_abs-${startSec}.ts${query}`;
+  }
+  return `${base}${fileName || "index"}-${startSec}-${duration}.m3u8${query}`;
+};
+
+/**
+ * 生成指定时间段的回看播放地址
+ * @returns 回看地址；频道不支持回看或模板无法解析时返回 null
+ */
+export const buildCatchupUrl = (channel: Channel, start: number, stop: number, now: number = Date.now()) => {
+  const { catchup } = channel;
+  if (!catchup) {
+    return null;
+  }
+
+  switch (catchup.type) {
+    case "flussonic":
+      return buildFlussonicUrl(channel.url, start, stop);
+    case "shift":
+      return appendQuery(channel.url, fillCatchupTemplate("?utc={utc}&lutc={lutc}", start, stop, now));
+    case "append":
+      return catchup.source ? appendQuery(channel.url, fillCatchupTemplate(catchup.source, start, stop, now)) : null;
+    case "default":
+    default:
+      if (!catchup.source) {
+        return null;
+      }
+      // 相对模板（以 ? 或 & 开头）等同于 append
+      if (!catchup.source.includes("://")) {
+        return appendQuery(channel.url, fillCatchupTemplate(catchup.source, start, stop, now));
+      }
+      return fillCatchupTemplate(catchup.source, start, stop, now);
+  }
+};
+
+export const isCatchupAvailable = (channel: Channel, start: number, now: number = Date.now()) =>
+  !!channel.catchup && start < now && now - start <= channel.catchup.days * DAY;
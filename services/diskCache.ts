@@ -0,0 +1,46 @@
+import * as FileSystem from "expo-file-system";
+import Logger from "@/utils/Logger";
+
+const logger = Logger.withTag("DiskCache");
+
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const getCacheDir = (namespace: string) => `${FileSystem.cacheDirectory}${namespace}/`;
+
+const getCacheFileUri = (namespace: string, key: string) => `${getCacheDir(namespace)}${hashString(key)}.json`;
+
+/**
+ * 读取 cacheDirectory/<namespace>/ 下以 key 哈希命名的 JSON 缓存，不存在或损坏时返回 null
+ */
+export const readJsonCache = async <T>(namespace: string, key: string): Promise<T | null> => {
+  try {
+    const fileUri = getCacheFileUri(namespace, key);
+    const info = await FileSystem.getInfoAsync(fileUri);
+    if (!info.exists) {
+      return null;
+    }
+    return JSON.parse(await FileSystem.readAsStringAsync(fileUri));
+  } catch (error) {
+    logger.info(`Failed to read ${namespace} cache`, error);
+    return null;
+  }
+};
+
+export const writeJsonCache = async <T>(namespace: string, key: string, value: T): Promise<void> => {
+  try {
+    await FileSystem.makeDirectoryAsync(getCacheDir(namespace), { intermediates: true });
+    await FileSystem.writeAsStringAsync(getCacheFileUri(namespace, key), JSON.stringify(value));
+  } catch (error) {
+    logger.info(`Failed to write ${namespace} cache`, error);
+  }
+};
+
+export const clearJsonCache = async (namespace: string): Promise<void> => {
+  await FileSystem.deleteAsync(getCacheDir(namespace), { idempotent: true });
+};
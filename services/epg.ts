@@ -0,0 +1,271 @@
+import pako from "pako";
+import Logger from "@/utils/Logger";
+import { Channel, normalizeChannelName } from "./m3u";
+import { readJsonCache, writeJsonCache, clearJsonCache } from "./diskCache";
+
+const logger = Logger.withTag("EPG");
+
+const EPG_CACHE_NAMESPACE = "epg";
+const EPG_CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
+const EPG_FETCH_TIMEOUT = 30000; // 30 seconds
+
+export interface EpgProgramme {
+  channelId: string;
+  start: number; // 开始时间（毫秒时间戳）
+  stop: number; // 结束时间（毫秒时间戳）
+  title: string;
+  desc?: string;
+  category?: string;
+}
+
+export interface EpgChannel {
+  id: string;
+  names: string[];
+}
+
+export interface EpgData {
+  channels: EpgChannel[];
+  // 以 XMLTV channel id 为键，按开始时间升序排列
+  programmes: Record<string, EpgProgramme[]>;
+}
+
+export interface NowNext {
+  now?: EpgProgramme;
+  next?: EpgProgramme;
+}
+
+interface EpgCacheEntry {
+  timestamp: number;
+  data: EpgData;
+}
+
+// --- XMLTV Parsing ---
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+const parseAttributes = (attributesPart: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attrRegex = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrRegex.exec(attributesPart)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+};
+
+const getFirstTagText = (content: string, tag: string): string | undefined => {
+  const match = content.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+};
+
+/**
+ * 解析 XMLTV 时间格式，例如 "20240101203000 +0800"，未带时区时按 UTC 处理
+ * @returns 毫秒时间戳，格式不正确时返回 NaN
+ */
+export const parseXmltvDate = (value: string): number => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?\s*([+-]\d{2}:?\d{2})?/);
+  if (!match) {
+    return NaN;
+  }
+  const [, year, month, day, hour, minute, second = "00", offset] = match;
+  let timestamp = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (offset) {
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.replace(/[+:-]/g, "");
+    const offsetMinutes = parseInt(digits.substring(0, 2), 10) * 60 + parseInt(digits.substring(2, 4), 10);
+    timestamp -= sign * offsetMinutes * 60 * 1000;
+  }
+  return timestamp;
+};
+
+export const parseXMLTV = (xmlText: string): EpgData => {
+  const channels: EpgChannel[] = [];
+  const programmes: Record<string, EpgProgramme[]> = {};
+
+  const channelRegex = /<channel\s([^>]*)>([\s\S]*?)<\/channel>/gi;
+  let channelMatch: RegExpExecArray | null;
+  while ((channelMatch = channelRegex.exec(xmlText)) !== null) {
+    const { id } = parseAttributes(channelMatch[1]);
+    if (!id) continue;
+    const names: string[] = [];
+    const nameRegex = /<display-name(?:\s[^>]*)?>([\s\S]*?)<\/display-name>/gi;
+    let nameMatch: RegExpExecArray | null;
+    while ((nameMatch = nameRegex.exec(channelMatch[2])) !== null) {
+      const name = decodeXmlEntities(nameMatch[1]);
+      if (name) names.push(name);
+    }
+    channels.push({ id, names });
+  }
+
+  const programmeRegex = /<programme\s([^>]*)>([\s\S]*?)<\/programme>/gi;
+  let programmeMatch: RegExpExecArray | null;
+  while ((programmeMatch = programmeRegex.exec(xmlText)) !== null) {
+    const attributes = parseAttributes(programmeMatch[1]);
+    const start = parseXmltvDate(attributes.start || "");
+    const stop = parseXmltvDate(attributes.stop || "");
+    if (!attributes.channel || isNaN(start) || isNaN(stop)) continue;
+
+    const content = programmeMatch[2];
+    const programme: EpgProgramme = {
+      channelId: attributes.channel,
+      start,
+      stop,
+      title: getFirstTagText(content, "title") || "",
+      desc: getFirstTagText(content, "desc"),
+      category: getFirstTagText(content, "category"),
+    };
+    if (!programmes[programme.channelId]) {
+      programmes[programme.channelId] = [];
+    }
+    programmes[programme.channelId].push(programme);
+  }
+
+  for (const channelId in programmes) {
+    programmes[channelId].sort((a, b) => a.start - b.start);
+  }
+
+  return { channels, programmes };
+};
+
+// --- Channel Mapping ---
+
+/**
+ * 将 EPG 节目单映射到频道：优先匹配 tvg-id，其次 tvg-name，最后使用频道名称
+ * @returns 以 Channel.id 为键的节目列表
+ */
+export const mapProgrammesToChannels = (data: EpgData, channels: Channel[]): Record<string, EpgProgramme[]> => {
+  const idIndex: Record<string, string> = {};
+  const nameIndex: Record<string, string> = {};
+
+  for (const channelId in data.programmes) {
+    idIndex[channelId.toLowerCase()] = channelId;
+  }
+  for (const epgChannel of data.channels) {
+    idIndex[epgChannel.id.toLowerCase()] = epgChannel.id;
+    for (const name of epgChannel.names) {
+      const normalized = normalizeChannelName(name);
+      if (!nameIndex[normalized]) {
+        nameIndex[normalized] = epgChannel.id;
+      }
+    }
+  }
+
+  const result: Record<string, EpgProgramme[]> = {};
+  for (const channel of channels) {
+    const candidates = [
+      channel.tvgId ? idIndex[channel.tvgId.toLowerCase()] : undefined,
+      channel.tvgName ? nameIndex[normalizeChannelName(channel.tvgName)] : undefined,
+      channel.tvgName ? idIndex[channel.tvgName.toLowerCase()] : undefined,
+      nameIndex[normalizeChannelName(channel.name)],
+    ];
+    const epgChannelId = candidates.find((id) => id && data.programmes[id]);
+    if (epgChannelId) {
+      result[channel.id] = data.programmes[epgChannelId];
+    }
+  }
+  return result;
+};
+
+export const getNowNext = (programmes: EpgProgramme[] | undefined, now: number = Date.now()): NowNext => {
+  if (!programmes || programmes.length === 0) {
+    return {};
+  }
+  const nowIndex = programmes.findIndex((p) => p.start <= now && now < p.stop);
+  if (nowIndex !== -1) {
+    return { now: programmes[nowIndex], next: programmes[nowIndex + 1] };
+  }
+  return { next: programmes.find((p) => p.start > now) };
+};
+
+// --- Fetching & Disk Cache ---
+
+const bytesToString = (bytes: Uint8Array): string => {
+  if (typeof TextDecoder !== "undefined") {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return decodeURIComponent(escape(binary));
+};
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const downloadXMLTV = async (url: string): Promise<string> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), EPG_FETCH_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch EPG: ${response.status}`);
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // .xml.gz 文件需要手动解压；服务端通过 Content-Encoding 压缩的内容已由网络层自动解压
+    return isGzip(bytes) ? pako.ungzip(bytes, { to: "string" }) : bytesToString(bytes);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// 日志中去掉地址里的账号和查询参数，Xtream 的 EPG 地址在查询参数中带有用户名和密码
+const redactUrl = (url: string) => url.replace(/\/\/[^/@]*@/, "//").replace(/[?#].*$/, "");
+
+/**
+ * 获取单个 XMLTV 源，支持 .xml 与 .xml.gz，结果缓存到磁盘
+ * 网络失败时回退到过期缓存
+ */
+export const fetchEpg = async (url: string, forceRefresh = false): Promise<EpgData | null> => {
+  const cached = await readJsonCache<EpgCacheEntry>(EPG_CACHE_NAMESPACE, url);
+  if (cached && !forceRefresh && Date.now() - cached.timestamp < EPG_CACHE_DURATION) {
+    logger.info(`Using cached EPG for ${redactUrl(url)}`);
+    return cached.data;
+  }
+
+  try {
+    const perfStart = performance.now();
+    const xmlText = await downloadXMLTV(url);
+    const data = parseXMLTV(xmlText);
+    logger.info(
+      `[PERF] EPG ${redactUrl(url)} parsed in ${(performance.now() - perfStart).toFixed(2)}ms, channels: ${data.channels.length}`,
+    );
+    await writeJsonCache<EpgCacheEntry>(EPG_CACHE_NAMESPACE, url, { timestamp: Date.now(), data });
+    return data;
+  } catch (error) {
+    logger.info(`Error fetching or parsing EPG ${redactUrl(url)}:`, error);
+    return cached ? cached.data : null;
+  }
+};
+
+/**
+ * 获取并合并多个 XMLTV 源，先出现的源优先
+ */
+export const fetchAndMergeEpg = async (urls: string[], forceRefresh = false): Promise<EpgData> => {
+  const results = await Promise.all(urls.map((url) => fetchEpg(url, forceRefresh)));
+  const merged: EpgData = { channels: [], programmes: {} };
+  for (const data of results) {
+    if (!data) continue;
+    merged.channels.push(...data.channels);
+    for (const channelId in data.programmes) {
+      if (!merged.programmes[channelId]) {
+        merged.programmes[channelId] = data.programmes[channelId];
+      }
+    }
+  }
+  return merged;
+};
+
+export const clearEpgCache = async (): Promise<void> => {
+  await clearJsonCache(EPG_CACHE_NAMESPACE);
+};
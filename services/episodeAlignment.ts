@@ -0,0 +1,100 @@
+/**
+ * 剧集对齐：不同播放源的剧集列表可能多出预告、花絮或拆分的特别篇，按集数而不是位置在播放源之间对应
+ */
+import { parseChineseNumber } from "./titleMatch";
+
+// 能解析出集数的剧集少于这个比例时，认为名称里没有集数，按位置编号
+const MIN_PARSED_RATIO = 0.5;
+
+// 预告、花絮等不是正片的剧集
+const EXTRA_PATTERN = /预告|花絮|特辑|彩蛋|幕后|片花|trailer|teaser|preview|making/i;
+
+const TITLE_PATTERNS = [
+  /第\s*([0-9]+|[一二两三四五六七八九十]+)\s*[集话話期]/,
+  /(?:^|[^a-z])(?:ep(?:isode)?|e)\s*\.?\s*([0-9]+)(?![0-9])/i,
+  /^\s*([0-9]+)\s*(?:集|话|話)?\s*$/,
+];
+
+// 地址中只识别明确的写法，避免把日期或哈希中的数字当成集数
+const URL_PATTERNS = [/第([0-9]+)[集话話]/, /(?:^|[^a-z0-9])ep([0-9]{1,4})(?![0-9])/i];
+
+export interface EpisodeSource {
+  episodes: string[];
+  episodes_titles?: string[];
+}
+
+/**
+ * 从剧集名称中解析集数，例如“第12集”、“EP12”、“12”
+ * @returns 不是正片或没有集数时返回 undefined
+ */
+export const parseEpisodeNumber = (title: string): number | undefined => {
+  const text = title.normalize("NFKC");
+  if (EXTRA_PATTERN.test(text)) {
+    return undefined;
+  }
+  for (const pattern of TITLE_PATTERNS) {
+    const match = text.match(pattern);
+    const value = match && parseChineseNumber(match[1]);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * 从剧集地址的文件名和目录名中解析集数
+ */
+export const parseEpisodeNumberFromUrl = (url: string): number | undefined => {
+  let path: string;
+  try {
+    path = decodeURIComponent(url.split(/[?#]/)[0]);
+  } catch {
+    path = url.split(/[?#]/)[0];
+  }
+  const segments = path.split("/").reverse();
+  for (const segment of segments.slice(0, 3)) {
+    if (EXTRA_PATTERN.test(segment)) {
+      return undefined;
+    }
+    for (const pattern of URL_PATTERNS) {
+      const match = segment.match(pattern);
+      if (match) {
+        return parseInt(match[1], 10);
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * 各集对应的集数，按名称、地址的顺序解析；大部分都解析不出时按位置编号
+ * @returns 与 episodes 一一对应，预告等不是正片的剧集为 undefined
+ */
+export const getEpisodeNumbers = (source: EpisodeSource): (number | undefined)[] => {
+  const parsed = source.episodes.map((url, index) => {
+    const title = source.episodes_titles?.[index];
+    if (title && EXTRA_PATTERN.test(title)) {
+      return undefined;
+    }
+    return (title && parseEpisodeNumber(title)) || parseEpisodeNumberFromUrl(url);
+  });
+  const parsedCount = parsed.filter((value) => value !== undefined).length;
+  if (parsedCount < source.episodes.length * MIN_PARSED_RATIO) {
+    return source.episodes.map((_, index) => index + 1);
+  }
+  return parsed;
+};
+
+/**
+ * 找到另一个播放源中的同一集。不同播放源的剧集列表可能多出预告等，按集数而不是位置对应
+ * @returns 另一个播放源没有这一集时返回 undefined
+ */
+export const mapEpisodeIndex = (from: EpisodeSource, index: number, to: EpisodeSource): number | undefined => {
+  const episodeNumber = getEpisodeNumbers(from)[index];
+  if (episodeNumber === undefined) {
+    return undefined;
+  }
+  const targetIndex = getEpisodeNumbers(to).indexOf(episodeNumber);
+  return targetIndex === -1 ? undefined : targetIndex;
+};
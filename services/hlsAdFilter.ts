@@ -0,0 +1,248 @@
+import Logger from "@/utils/Logger";
+import { resolveUrl } from "./m3u8";
+
+const logger = Logger.withTag("HlsAdFilter");
+
+const AD_FILTER_FETCH_TIMEOUT = 10000; // 10 seconds
+// 安全上限：识别出的广告超过总时长的该比例时认为判断有误，不做处理
+const MAX_REMOVED_SHARE = 0.3;
+// 正片特征至少要覆盖该比例的时长才可信，例如文件名完全随机时不按文件名判断
+const MIN_DOMINANT_SHARE = 0.5;
+
+export interface AdFilterOptions {
+  enabled: boolean;
+  checkHost: boolean; // 分片域名与正片不同
+  checkPath: boolean; // 分片目录与正片不同
+  checkFileName: boolean; // 分片文件名前缀与正片不同
+  maxAdDuration: number; // 秒，超过该时长的片段不会被当作广告
+}
+
+export const DEFAULT_AD_FILTER_OPTIONS: AdFilterOptions = {
+  enabled: true,
+  checkHost: true,
+  checkPath: true,
+  checkFileName: true,
+  maxAdDuration: 120,
+};
+
+interface MediaSegment {
+  uri: string; // 已解析为绝对地址
+  duration: number;
+  block: number; // 以 #EXT-X-DISCONTINUITY 分隔的片段序号
+  discontinuity: boolean;
+  tags: string[]; // 分片前的标签，不含 #EXT-X-DISCONTINUITY
+}
+
+interface ParsedMediaPlaylist {
+  header: string[];
+  segments: MediaSegment[];
+  footer: string[];
+}
+
+export interface AdFilterResult {
+  content: string;
+  removedSegments: number;
+  removedDuration: number; // 秒
+}
+
+// 这些标签对后续所有分片生效，删除广告分片时需要保留
+const PERSISTENT_TAGS = ["#EXT-X-KEY", "#EXT-X-MAP"];
+
+const absolutizeUriAttribute = (line: string, baseUrl: string) =>
+  line.replace(/URI="([^"]*)"/, (_, uri) => `URI="${resolveUrl(uri, baseUrl)}"`);
+
+const parseMediaPlaylist = (content: string, url: string): ParsedMediaPlaylist => {
+  const header: string[] = [];
+  const segments: MediaSegment[] = [];
+  let pendingTags: string[] = [];
+  let pendingDiscontinuity = false;
+  let pendingDuration = 0;
+  let block = 0;
+  let hasSegmentTags = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#")) {
+      if (line.startsWith("#EXTINF:")) {
+        pendingDuration = parseFloat(line.substring("#EXTINF:".length)) || 0;
+        hasSegmentTags = true;
+      } else if (line === "#EXT-X-DISCONTINUITY") {
+        pendingDiscontinuity = true;
+        hasSegmentTags = true;
+        continue;
+      }
+      if (!hasSegmentTags && !PERSISTENT_TAGS.some((tag) => line.startsWith(tag))) {
+        header.push(line);
+      } else {
+        pendingTags.push(absolutizeUriAttribute(line, url));
+      }
+      continue;
+    }
+
+    if (pendingDiscontinuity && segments.length > 0) {
+      block++;
+    }
+    segments.push({
+      uri: resolveUrl(line, url),
+      duration: pendingDuration,
+      block,
+      discontinuity: pendingDiscontinuity,
+      tags: pendingTags,
+    });
+    pendingTags = [];
+    pendingDiscontinuity = false;
+    pendingDuration = 0;
+  }
+
+  return { header, segments, footer: pendingTags };
+};
+
+const getHost = (uri: string) => uri.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i)?.[1] || "";
+
+const getPath = (uri: string) => uri.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, "").split(/[?#]/)[0];
+
+const getDirectory = (uri: string) => {
+  const path = getPath(uri);
+  return path.substring(0, path.lastIndexOf("/") + 1);
+};
+
+// 去掉扩展名和末尾序号，例如 abc123def000045.ts -> abc123def
+const getFileNamePrefix = (uri: string) => {
+  const fileName = getPath(uri).split("/").pop() || "";
+  return fileName.replace(/\.[^.]*$/, "").replace(/\d+$/, "");
+};
+
+/**
+ * 找出总时长最长的特征值，视为正片的特征
+ * @returns 该特征覆盖的时长不足以代表正片时返回 null
+ */
+const getDominantValue = (segments: MediaSegment[], getValue: (uri: string) => string) => {
+  const durations = new Map<string, number>();
+  let totalDuration = 0;
+  segments.forEach((segment) => {
+    const value = getValue(segment.uri);
+    durations.set(value, (durations.get(value) || 0) + segment.duration);
+    totalDuration += segment.duration;
+  });
+  let dominant: string | null = null;
+  let maxDuration = -1;
+  for (const [value, duration] of durations) {
+    if (duration > maxDuration) {
+      dominant = value;
+      maxDuration = duration;
+    }
+  }
+  return maxDuration >= totalDuration * MIN_DOMINANT_SHARE ? dominant : null;
+};
+
+/**
+ * 识别广告片段：以 #EXT-X-DISCONTINUITY 分隔、时长较短，且域名、目录或文件名与正片不一致的片段
+ * @returns 广告片段的序号
+ */
+const detectAdBlocks = (segments: MediaSegment[], options: AdFilterOptions): Set<number> => {
+  const adBlocks = new Set<number>();
+  const blockCount = segments.length > 0 ? segments[segments.length - 1].block + 1 : 0;
+  if (blockCount < 2) {
+    return adBlocks;
+  }
+
+  const checks: { getValue: (uri: string) => string; dominant: string }[] = [];
+  const addCheck = (enabled: boolean, getValue: (uri: string) => string) => {
+    const dominant = enabled ? getDominantValue(segments, getValue) : null;
+    if (dominant !== null) {
+      checks.push({ getValue, dominant });
+    }
+  };
+  addCheck(options.checkHost, getHost);
+  addCheck(options.checkPath, getDirectory);
+  addCheck(options.checkFileName, getFileNamePrefix);
+  if (checks.length === 0) {
+    return adBlocks;
+  }
+
+  for (let block = 0; block < blockCount; block++) {
+    const blockSegments = segments.filter((segment) => segment.block === block);
+    const duration = blockSegments.reduce((total, segment) => total + segment.duration, 0);
+    if (blockSegments.length === 0 || duration > options.maxAdDuration) {
+      continue;
+    }
+    const isAd = checks.some(({ getValue, dominant }) =>
+      blockSegments.every((segment) => getValue(segment.uri) !== dominant),
+    );
+    if (isAd) {
+      adBlocks.add(block);
+    }
+  }
+  return adBlocks;
+};
+
+/**
+ * 从媒体播放列表中删除广告片段，所有地址改为绝对地址
+ * @returns 没有识别出广告或识别结果不可信时返回 null
+ */
+export const filterAdSegments = (content: string, url: string, options: AdFilterOptions): AdFilterResult | null => {
+  if (content.includes("#EXT-X-STREAM-INF")) {
+    return null;
+  }
+  const { header, segments, footer } = parseMediaPlaylist(content, url);
+  const adBlocks = detectAdBlocks(segments, options);
+  if (adBlocks.size === 0) {
+    return null;
+  }
+
+  const totalDuration = segments.reduce((total, segment) => total + segment.duration, 0);
+  const removed = segments.filter((segment) => adBlocks.has(segment.block));
+  const removedDuration = removed.reduce((total, segment) => total + segment.duration, 0);
+  if (removed.length === segments.length || removedDuration > totalDuration * MAX_REMOVED_SHARE) {
+    logger.info(`Skip ad filtering, ${removedDuration.toFixed(1)}s of ${totalDuration.toFixed(1)}s looks like ads`);
+    return null;
+  }
+
+  const output = [...header];
+  let hasOutputSegment = false;
+  segments.forEach((segment) => {
+    if (adBlocks.has(segment.block)) {
+      output.push(...segment.tags.filter((tag) => PERSISTENT_TAGS.some((name) => tag.startsWith(name))));
+      return;
+    }
+    // 开头的广告删除后，正片前的不连续标记也不再需要
+    if (segment.discontinuity && hasOutputSegment) {
+      output.push("#EXT-X-DISCONTINUITY");
+    }
+    output.push(...segment.tags, segment.uri);
+    hasOutputSegment = true;
+  });
+  output.push(...footer);
+
+  return { content: output.join("\n"), removedSegments: removed.length, removedDuration };
+};
+
+/**
+ * 获取媒体播放列表并删除广告片段
+ * @returns 请求失败、不是媒体播放列表或没有广告时返回 null
+ */
+export const fetchAdFilteredPlaylist = async (
+  url: string,
+  options: AdFilterOptions,
+): Promise<AdFilterResult | null> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), AD_FILTER_FETCH_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      return null;
+    }
+    const result = filterAdSegments(await response.text(), response.url || url, options);
+    if (result) {
+      logger.info(`Removed ${result.removedSegments} ad segments (${result.removedDuration.toFixed(1)}s) from ${url}`);
+    }
+    return result;
+  } catch (error) {
+    logger.info(`Failed to filter ads for ${url.substring(0, 100)}:`, error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -0,0 +1,70 @@
+import TCPHttpServer, { HttpResponse } from "./tcpHttpServer";
+import Logger from "@/utils/Logger";
+
+const logger = Logger.withTag("HlsPlaylistServer");
+
+const PORT = 12347;
+const MAX_PLAYLISTS = 20;
+
+/**
+ * 在本机提供改写后的 HLS 播放列表，播放器无法直接播放内存中的播放列表，
+ * 只能通过 http://127.0.0.1 地址加载
+ */
+class HlsPlaylistServer {
+  private httpServer: TCPHttpServer;
+  private playlists = new Map<string, string>();
+  private startPromise: Promise<string> | null = null;
+
+  constructor() {
+    this.httpServer = new TCPHttpServer({ port: PORT, host: "127.0.0.1" });
+    this.setupRequestHandler();
+  }
+
+  private setupRequestHandler() {
+    this.httpServer.setRequestHandler((request): HttpResponse => {
+      const match = request.url.match(/^\/playlist\/([^/?]+)\.m3u8/);
+      const playlist = match ? this.playlists.get(decodeURIComponent(match[1])) : undefined;
+      if (request.method !== "GET" || playlist === undefined) {
+        return {
+          statusCode: 404,
+          headers: { "Content-Type": "text/plain" },
+          body: "Not Found",
+        };
+      }
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/vnd.apple.mpegurl; charset=utf-8", "Cache-Control": "no-cache" },
+        body: playlist,
+      };
+    });
+  }
+
+  private async ensureStarted(): Promise<string> {
+    if (!this.startPromise) {
+      this.startPromise = this.httpServer.start().catch((error) => {
+        this.startPromise = null;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * 发布播放列表，相同 id 会覆盖旧内容
+   * @returns 播放器可直接加载的本地地址
+   */
+  public async serve(id: string, content: string): Promise<string> {
+    const baseUrl = await this.ensureStarted();
+    this.playlists.delete(id);
+    this.playlists.set(id, content);
+    // 只保留最近发布的播放列表
+    while (this.playlists.size > MAX_PLAYLISTS) {
+      const oldestId = this.playlists.keys().next().value as string;
+      this.playlists.delete(oldestId);
+    }
+    logger.debug(`Serving playlist ${id}`);
+    return `${baseUrl}/playlist/${encodeURIComponent(id)}.m3u8`;
+  }
+}
+
+export const hlsPlaylistServer = new HlsPlaylistServer();
@@ -0,0 +1,137 @@
+import Logger from "@/utils/Logger";
+import { LiveSource } from "./storage";
+import { Channel, M3UPlaylist, fetchM3u, groupChannelMirrors, assignChannelNumbers } from "./m3u";
+import { fetchXtreamPlaylist } from "./xtream";
+import { readJsonCache, writeJsonCache } from "./diskCache";
+
+const logger = Logger.withTag("LiveSources");
+
+const PLAYLIST_CACHE_NAMESPACE = "playlists";
+
+interface PlaylistCacheEntry {
+  timestamp: number;
+  etag?: string;
+  lastModified?: string;
+  playlist: M3UPlaylist;
+}
+
+export interface LiveSourceResult {
+  playlist: M3UPlaylist;
+  stale: boolean; // 拉取失败，使用的是上一次成功的缓存
+}
+
+export interface MergedLivePlaylist extends M3UPlaylist {
+  staleSources: string[]; // 使用离线缓存的订阅名称
+}
+
+const getCacheKey = (source: LiveSource) =>
+  source.type === "xtream" ? `xtream:${source.url}|${source.username}` : source.url;
+
+const readPlaylistCache = (source: LiveSource) =>
+  readJsonCache<PlaylistCacheEntry>(PLAYLIST_CACHE_NAMESPACE, getCacheKey(source));
+
+const writePlaylistCache = (source: LiveSource, entry: PlaylistCacheEntry) =>
+  writeJsonCache(PLAYLIST_CACHE_NAMESPACE, getCacheKey(source), entry);
+
+/**
+ * 拉取订阅内容；M3U 使用 ETag / Last-Modified 校验，未变化时返回 null
+ */
+const fetchPlaylist = async (
+  source: LiveSource,
+  cached: PlaylistCacheEntry | null,
+): Promise<Omit<PlaylistCacheEntry, "timestamp"> | null> => {
+  if (source.type === "xtream") {
+    const playlist = await fetchXtreamPlaylist({
+      server: source.url,
+      username: source.username || "",
+      password: source.password || "",
+    });
+    return { playlist };
+  }
+  const result = await fetchM3u(source.url, { etag: cached?.etag, lastModified: cached?.lastModified });
+  if (result.notModified) {
+    return null;
+  }
+  return { playlist: result.playlist, etag: result.etag, lastModified: result.lastModified };
+};
+
+/**
+ * 获取单个直播源订阅（M3U 或 Xtream），解析结果缓存到磁盘
+ * 在刷新间隔内直接返回缓存，过期后重新校验；拉取失败时回退到上一次成功的缓存并标记为 stale
+ */
+export const fetchLiveSource = async (source: LiveSource, forceRefresh = false): Promise<LiveSourceResult> => {
+  const cached = await readPlaylistCache(source);
+  const maxAge = source.refreshInterval * 60 * 1000;
+  if (cached && !forceRefresh && maxAge > 0 && Date.now() - cached.timestamp < maxAge) {
+    return { playlist: cached.playlist, stale: false };
+  }
+
+  try {
+    const fetched = await fetchPlaylist(source, cached);
+    if (!fetched && cached) {
+      logger.info(`Live source "${source.name}" not modified`);
+      await writePlaylistCache(source, { ...cached, timestamp: Date.now() });
+      return { playlist: cached.playlist, stale: false };
+    }
+    if (!fetched || fetched.playlist.channels.length === 0) {
+      throw new Error("Empty playlist");
+    }
+    await writePlaylistCache(source, { ...fetched, timestamp: Date.now() });
+    return { playlist: fetched.playlist, stale: false };
+  } catch (error) {
+    logger.info(`Failed to refresh live source "${source.name}":`, error);
+    if (cached) {
+      return { playlist: cached.playlist, stale: true };
+    }
+    return { playlist: { channels: [], epgUrls: [] }, stale: false };
+  }
+};
+
+/**
+ * 合并多个订阅的频道，tvg-id 或名称相同的频道合并为带镜像地址的逻辑频道，排在前面的订阅优先
+ */
+export const mergePlaylists = (entries: { source: LiveSource; playlist: M3UPlaylist }[]): M3UPlaylist => {
+  const channels: Channel[] = [];
+  const epgUrls: string[] = [];
+
+  for (const { source, playlist } of entries) {
+    playlist.channels.forEach((channel) => channels.push({ ...channel, sourceId: source.id, sourceName: source.name }));
+    playlist.epgUrls.filter((url) => !epgUrls.includes(url)).forEach((url) => epgUrls.push(url));
+  }
+  return { channels: assignChannelNumbers(groupChannelMirrors(channels)), epgUrls };
+};
+
+const getEnabledSources = (sources: LiveSource[]) => sources.filter((source) => source.enabled && source.url);
+
+/**
+ * 只读取磁盘缓存并合并，用于进入直播页时立即显示频道；没有任何缓存时返回 null
+ */
+export const loadCachedLiveSources = async (sources: LiveSource[]): Promise<MergedLivePlaylist | null> => {
+  const enabledSources = getEnabledSources(sources);
+  const cachedEntries = await Promise.all(enabledSources.map(readPlaylistCache));
+  if (cachedEntries.every((entry) => !entry)) {
+    return null;
+  }
+  const merged = mergePlaylists(
+    enabledSources.map((source, index) => ({
+      source,
+      playlist: cachedEntries[index]?.playlist || { channels: [], epgUrls: [] },
+    })),
+  );
+  return { ...merged, staleSources: [] };
+};
+
+/**
+ * 拉取所有已启用的订阅并合并为一个频道列表
+ */
+export const fetchAndMergeLiveSources = async (
+  sources: LiveSource[],
+  forceRefresh = false,
+): Promise<MergedLivePlaylist> => {
+  const enabledSources = getEnabledSources(sources);
+  const results = await Promise.all(enabledSources.map((source) => fetchLiveSource(source, forceRefresh)));
+  const merged = mergePlaylists(enabledSources.map((source, index) => ({ source, playlist: results[index].playlist })));
+  const staleSources = enabledSources.filter((_, index) => results[index].stale).map((source) => source.name);
+  logger.info(`Merged ${merged.channels.length} channels from ${enabledSources.length} live sources`);
+  return { ...merged, staleSources };
+};
@@ -1,24 +1,169 @@
 import Logger from '@/utils/Logger';
+import { CatchupInfo, parseCatchupAttributes } from './catchup';
 
 const logger = Logger.withTag('M3U');
 
+export interface StreamOptions {
+  headers?: Record<string, string>;
+  // #KODIPROP 属性，例如 inputstream.adaptive.manifest_type / license_type / license_key
+  properties?: Record<string, string>;
+}
+
 export interface Channel {
   id: string;
   name: string;
   url: string;
+  // 同一频道的所有镜像地址（按优先级排序，包含 url）
+  urls?: string[];
   logo: string;
   group: string;
+  // 频道号：来自 tvg-chno，没有时由 assignChannelNumbers 顺序分配
+  number?: number;
+  tvgId?: string;
+  tvgName?: string;
+  catchup?: CatchupInfo;
+  // 多个直播源合并后，记录频道来自哪个订阅
+  sourceId?: string;
+  sourceName?: string;
+  // 以播放地址为键的请求头等选项，合并镜像后每个地址保留各自的选项
+  streamOptions?: Record<string, StreamOptions>;
+}
+
+export interface M3UPlaylist {
+  channels: Channel[];
+  epgUrls: string[];
 }
 
+/**
+ * 解析 #EXTM3U 头部声明的 EPG 地址（x-tvg-url / url-tvg），多个地址可用逗号分隔
+ */
+export const parseM3UEpgUrls = (m3uText: string): string[] => {
+  const headerLine = m3uText
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.startsWith('#EXTM3U'));
+  if (!headerLine) {
+    return [];
+  }
+  const urls: string[] = [];
+  const attrRegex = /(?:x-tvg-url|url-tvg)="([^"]*)"/gi;
+  let match: RegExpExecArray | null;
+  while ((match = attrRegex.exec(headerLine)) !== null) {
+    match[1]
+      .split(',')
+      .map((url) => url.trim())
+      .filter((url) => url && !urls.includes(url))
+      .forEach((url) => urls.push(url));
+  }
+  return urls;
+};
+
+const getAttribute = (attributesPart: string, name: string): string | undefined => {
+  const match = attributesPart.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`, 'i'));
+  return match && match[1] ? match[1].trim() : undefined;
+};
+
+// 播放器选项 / 属性名到 HTTP 请求头的映射
+const HEADER_NAMES: Record<string, string> = {
+  'user-agent': 'User-Agent',
+  'http-user-agent': 'User-Agent',
+  referer: 'Referer',
+  referrer: 'Referer',
+  'http-referer': 'Referer',
+  'http-referrer': 'Referer',
+  origin: 'Origin',
+  'http-origin': 'Origin',
+  cookie: 'Cookie',
+  'http-cookie': 'Cookie',
+};
+
+const normalizeHeaderName = (name: string) => HEADER_NAMES[name.trim().toLowerCase()] || name.trim();
+
+/**
+ * 解析 Kodi 风格的请求头字符串："User-Agent=abc&Referer=http%3A%2F%2Fexample.com"
+ */
+const parseHeaderString = (value: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const pair of value.split('&')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex <= 0) continue;
+    let headerValue = pair.substring(separatorIndex + 1).trim();
+    try {
+      headerValue = decodeURIComponent(headerValue);
+    } catch {
+      // 保留原始值
+    }
+    headers[normalizeHeaderName(pair.substring(0, separatorIndex))] = headerValue;
+  }
+  return headers;
+};
+
+// #EXTM3U / #EXTINF 上的请求头属性
+const getHeaderAttributes = (attributesPart: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const name of Object.keys(HEADER_NAMES)) {
+    const value = getAttribute(attributesPart, name);
+    if (value) {
+      headers[HEADER_NAMES[name]] = value;
+    }
+  }
+  return headers;
+};
+
+const splitKeyValue = (text: string): [string, string] | null => {
+  const separatorIndex = text.indexOf('=');
+  if (separatorIndex <= 0) return null;
+  return [text.substring(0, separatorIndex).trim(), text.substring(separatorIndex + 1).trim()];
+};
+
 export const parseM3U = (m3uText: string): Channel[] => {
   const parsedChannels: Channel[] = [];
   const lines = m3uText.split('\n');
   let currentChannelInfo: Partial<Channel> | null = null;
+  // #EXTM3U 头部的回看属性作为所有频道的默认值
+  let defaultCatchup: { catchup?: string; source?: string; days?: string } = {};
+  let defaultHeaders: Record<string, string> = {};
+  let entryHeaders: Record<string, string> = {};
+  // #EXTVLCOPT / #EXTHTTP / #KODIPROP 可能出现在 #EXTINF 之前或之后，直到遇到播放地址为止
+  let pendingHeaders: Record<string, string> = {};
+  let pendingProperties: Record<string, string> = {};
 
   for (const line of lines) {
     const trimmedLine = line.trim();
-    if (trimmedLine.startsWith('#EXTINF:')) {
+    if (trimmedLine.startsWith('#EXTM3U')) {
+      defaultCatchup = {
+        catchup: getAttribute(trimmedLine, 'catchup'),
+        source: getAttribute(trimmedLine, 'catchup-source'),
+        days: getAttribute(trimmedLine, 'catchup-days'),
+      };
+      defaultHeaders = getHeaderAttributes(trimmedLine);
+    } else if (trimmedLine.startsWith('#EXTVLCOPT:')) {
+      const option = splitKeyValue(trimmedLine.substring(11));
+      if (option && HEADER_NAMES[option[0].toLowerCase()]) {
+        pendingHeaders[HEADER_NAMES[option[0].toLowerCase()]] = option[1];
+      }
+    } else if (trimmedLine.startsWith('#EXTHTTP:')) {
+      try {
+        const headers = JSON.parse(trimmedLine.substring(9));
+        for (const name in headers) {
+          pendingHeaders[normalizeHeaderName(name)] = String(headers[name]);
+        }
+      } catch {
+        logger.info(`Invalid #EXTHTTP line: ${trimmedLine}`);
+      }
+    } else if (trimmedLine.startsWith('#KODIPROP:')) {
+      const property = splitKeyValue(trimmedLine.substring(10));
+      if (property) {
+        const [name, value] = property;
+        if (name === 'inputstream.adaptive.stream_headers' || name === 'inputstream.adaptive.common_headers') {
+          Object.assign(pendingHeaders, parseHeaderString(value));
+        } else {
+          pendingProperties[name] = value;
+        }
+      }
+    } else if (trimmedLine.startsWith('#EXTINF:')) {
       currentChannelInfo = {}; // Start a new channel
+      entryHeaders = {};
       const commaIndex = trimmedLine.lastIndexOf(',');
       if (commaIndex !== -1) {
         currentChannelInfo.name = trimmedLine.substring(commaIndex + 1).trim();
@@ -31,12 +176,43 @@ export const parseM3U = (m3uText: string): Channel[] => {
         if (groupMatch && groupMatch[1]) {
           currentChannelInfo.group = groupMatch[1];
         }
+        const tvgIdMatch = attributesPart.match(/tvg-id="([^"]*)"/i);
+        if (tvgIdMatch && tvgIdMatch[1]) {
+          currentChannelInfo.tvgId = tvgIdMatch[1].trim();
+        }
+        const channelNumber = parseInt(getAttribute(attributesPart, 'tvg-chno') || '', 10);
+        if (!isNaN(channelNumber) && channelNumber > 0) {
+          currentChannelInfo.number = channelNumber;
+        }
+        const tvgNameMatch = attributesPart.match(/tvg-name="([^"]*)"/i);
+        if (tvgNameMatch && tvgNameMatch[1]) {
+          currentChannelInfo.tvgName = tvgNameMatch[1].trim();
+        }
+        entryHeaders = getHeaderAttributes(attributesPart);
+        currentChannelInfo.catchup = parseCatchupAttributes({
+          catchup: getAttribute(attributesPart, 'catchup') ?? defaultCatchup.catchup,
+          source: getAttribute(attributesPart, 'catchup-source') ?? defaultCatchup.source,
+          days: getAttribute(attributesPart, 'catchup-days') ?? defaultCatchup.days,
+          timeshift: getAttribute(attributesPart, 'timeshift'),
+        });
       } else {
         currentChannelInfo.name = trimmedLine.substring(8).trim();
       }
     } else if (currentChannelInfo && trimmedLine && !trimmedLine.startsWith('#') && trimmedLine.includes('://')) {
-      currentChannelInfo.url = trimmedLine;
+      // Kodi 风格的地址可以在 | 之后附带请求头：http://host/live.m3u8|User-Agent=abc&Referer=...
+      const pipeIndex = trimmedLine.indexOf('|');
+      currentChannelInfo.url = pipeIndex !== -1 ? trimmedLine.substring(0, pipeIndex) : trimmedLine;
       currentChannelInfo.id = currentChannelInfo.url; // Use URL as ID
+
+      const headers = {
+        ...defaultHeaders,
+        ...entryHeaders,
+        ...pendingHeaders,
+        ...(pipeIndex !== -1 ? parseHeaderString(trimmedLine.substring(pipeIndex + 1)) : {}),
+      };
+      const options: StreamOptions = {};
+      if (Object.keys(headers).length > 0) options.headers = headers;
+      if (Object.keys(pendingProperties).length > 0) options.properties = pendingProperties;
       
       // Ensure all required fields are present, providing defaults if necessary
       const finalChannel: Channel = {
@@ -45,27 +221,152 @@ export const parseM3U = (m3uText: string): Channel[] => {
         name: currentChannelInfo.name || 'Unknown',
         logo: currentChannelInfo.logo || '',
         group: currentChannelInfo.group || 'Default',
+        number: currentChannelInfo.number,
+        tvgId: currentChannelInfo.tvgId,
+        tvgName: currentChannelInfo.tvgName,
+        catchup: currentChannelInfo.catchup,
+        streamOptions: options.headers || options.properties ? { [currentChannelInfo.url]: options } : undefined,
       };
       
       parsedChannels.push(finalChannel);
       currentChannelInfo = null; // Reset for the next channel
+      entryHeaders = {};
+      pendingHeaders = {};
+      pendingProperties = {};
     }
   }
   return parsedChannels;
 };
 
-export const fetchAndParseM3u = async (m3uUrl: string): Promise<Channel[]> => {
-  try {
-    const response = await fetch(m3uUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch M3U: ${response.statusText}`);
+export const normalizeChannelName = (name: string) => name.toLowerCase().replace(/[\s\-_]+/g, '');
+
+/**
+ * 逻辑频道的标识：优先使用 tvg-id，否则使用归一化后的频道名称
+ */
+export const getChannelKey = (channel: Channel) =>
+  channel.tvgId ? `tvg:${channel.tvgId.toLowerCase()}` : `name:${normalizeChannelName(channel.name)}`;
+
+export const getChannelUrls = (channel: Channel): string[] =>
+  channel.urls && channel.urls.length > 0 ? channel.urls : [channel.url];
+
+/**
+ * 将 tvg-id 或名称相同的频道合并为一个逻辑频道，其余地址作为镜像按出现顺序排在后面
+ * 完全相同的地址只保留一次
+ */
+export const groupChannelMirrors = (channels: Channel[]): Channel[] => {
+  const result: Channel[] = [];
+  const channelsByKey = new Map<string, Channel>();
+  const seenUrls = new Set<string>();
+
+  for (const channel of channels) {
+    const urls = getChannelUrls(channel).filter((url) => !seenUrls.has(url));
+    if (urls.length === 0) continue;
+    urls.forEach((url) => seenUrls.add(url));
+
+    const key = getChannelKey(channel);
+    const existing = channelsByKey.get(key);
+    if (existing) {
+      existing.urls = [...getChannelUrls(existing), ...urls];
+      if (channel.streamOptions) {
+        existing.streamOptions = { ...channel.streamOptions, ...existing.streamOptions };
+      }
+      continue;
+    }
+    const logicalChannel: Channel = { ...channel, url: urls[0], urls };
+    channelsByKey.set(key, logicalChannel);
+    result.push(logicalChannel);
+  }
+  return result;
+};
+
+/**
+ * 为频道分配频道号：保留 tvg-chno（重复时只保留第一个），其余频道按顺序使用未被占用的最小号码
+ */
+export const assignChannelNumbers = (channels: Channel[]): Channel[] => {
+  const usedNumbers = new Set<number>();
+  const withNumbers = channels.map((channel) => {
+    if (channel.number && !usedNumbers.has(channel.number)) {
+      usedNumbers.add(channel.number);
+      return channel;
     }
-    const m3uText = await response.text();
-    return parseM3U(m3uText);
+    return { ...channel, number: undefined };
+  });
+
+  let nextNumber = 1;
+  return withNumbers.map((channel) => {
+    if (channel.number) return channel;
+    while (usedNumbers.has(nextNumber)) nextNumber++;
+    usedNumbers.add(nextNumber);
+    return { ...channel, number: nextNumber };
+  });
+};
+
+export interface M3UValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type M3UFetchResult =
+  | { notModified: true }
+  | { notModified: false; playlist: M3UPlaylist; etag?: string; lastModified?: string };
+
+/**
+ * 带 ETag / Last-Modified 校验的拉取，服务器返回 304 时 notModified 为 true
+ * 网络或解析失败时抛出异常，由调用方决定是否回退到缓存
+ */
+export const fetchM3u = async (m3uUrl: string, validators: M3UValidators = {}): Promise<M3UFetchResult> => {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await fetch(m3uUrl, { headers });
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch M3U: ${response.status} ${response.statusText}`);
+  }
+  const m3uText = await response.text();
+  return {
+    notModified: false,
+    playlist: { channels: parseM3U(m3uText), epgUrls: parseM3UEpgUrls(m3uText) },
+    etag: response.headers.get('ETag') || undefined,
+    lastModified: response.headers.get('Last-Modified') || undefined,
+  };
+};
+
+export const fetchAndParseM3u = async (m3uUrl: string): Promise<M3UPlaylist> => {
+  try {
+    const result = await fetchM3u(m3uUrl);
+    return result.notModified ? { channels: [], epgUrls: [] } : result.playlist;
   } catch (error) {
     logger.info("Error fetching or parsing M3U:", error);
-    return []; // Return empty array on error
+    return { channels: [], epgUrls: [] }; // Return empty playlist on error
+  }
+};
+
+export interface LiveVideoSource {
+  uri: string;
+  headers?: Record<string, string>;
+  overrideFileExtensionAndroid?: string;
+}
+
+const MANIFEST_EXTENSIONS: Record<string, string> = { hls: 'm3u8', mpd: 'mpd', ism: 'ism' };
+
+/**
+ * 生成传给 Video 组件的 source，附带该地址的请求头
+ * 播放器不支持 DRM 授权，license 相关的 KODIPROP 只会保留在 Channel 上
+ */
+export const buildVideoSource = (uri: string, options?: StreamOptions): LiveVideoSource => {
+  const source: LiveVideoSource = { uri };
+  if (options?.headers) {
+    source.headers = options.headers;
+  }
+  const manifestType = options?.properties?.['inputstream.adaptive.manifest_type']?.toLowerCase();
+  if (manifestType && MANIFEST_EXTENSIONS[manifestType]) {
+    source.overrideFileExtensionAndroid = MANIFEST_EXTENSIONS[manifestType];
   }
+  return source;
 };
 
 export const getPlayableUrl = (originalUrl: string | null): string | null => {
@@ -10,36 +10,6 @@ interface CacheEntry {
 const resolutionCache: { [url: string]: CacheEntry } = {};
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-/**
- * 测量 M3U8 URL 的网络延迟（ping time）
- * @param url M3U8 URL
- * @param signal AbortSignal for cancellation
- * @returns ping time in milliseconds, or null if failed
- */
-export const pingM3U8Url = async (url: string, signal?: AbortSignal): Promise<number | null> => {
-  try {
-    const startTime = performance.now();
-    const response = await fetch(url, {
-      method: "HEAD",
-      signal,
-      cache: "no-store", // 避免缓存影响测速
-    });
-    const endTime = performance.now();
-
-    if (response.ok) {
-      const pingTime = Math.round(endTime - startTime);
-      logger.info(`[PING] ${url.substring(0, 50)}... - ${pingTime}ms`);
-      return pingTime;
-    }
-    return null;
-  } catch (error) {
-    if ((error as Error).name !== "AbortError") {
-      logger.info(`[PING] Failed for ${url.substring(0, 50)}...`, error);
-    }
-    return null;
-  }
-};
-
 export const getResolutionFromM3U8 = async (url: string, signal?: AbortSignal): Promise<string | null> => {
   const perfStart = performance.now();
   logger.info(`[PERF] M3U8 resolution detection START - url: ${url.substring(0, 100)}...`);
@@ -109,3 +79,334 @@ export const getResolutionFromM3U8 = async (url: string, signal?: AbortSignal):
     return null;
   }
 };
+
+export interface HlsResolution {
+  width: number;
+  height: number;
+}
+
+export interface HlsVariant {
+  uri: string; // 已解析为绝对地址
+  bandwidth: number;
+  averageBandwidth?: number;
+  resolution?: HlsResolution;
+  codecs?: string;
+  frameRate?: number;
+  audioGroup?: string;
+  subtitleGroup?: string;
+}
+
+export interface HlsRendition {
+  type: "AUDIO" | "SUBTITLES";
+  groupId: string;
+  name: string;
+  language?: string;
+  uri?: string; // 已解析为绝对地址；音频没有 URI 表示音轨已混合在视频流中
+  isDefault: boolean;
+  autoselect: boolean;
+}
+
+// #EXT-X-IMAGE-STREAM-INF 声明的缩略图流
+export interface HlsImageStream {
+  uri: string; // 已解析为绝对地址
+  bandwidth: number;
+  resolution?: HlsResolution;
+}
+
+export interface HlsMasterPlaylist {
+  url: string;
+  content: string;
+  variants: HlsVariant[];
+  audioRenditions: HlsRendition[];
+  subtitleRenditions: HlsRendition[];
+  imageStreams: HlsImageStream[];
+  iFrameStreams: HlsImageStream[]; // #EXT-X-I-FRAME-STREAM-INF 声明的只有关键帧的流，属性与缩略图流相同
+}
+
+export interface HlsByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface HlsTimedSegment {
+  uri: string; // 已解析为绝对地址
+  start: number; // 毫秒
+  duration: number; // 毫秒
+  byteRange?: HlsByteRange; // 分片只是文件中的一段，例如 I 帧播放列表
+}
+
+/**
+ * 解析 HLS 属性列表，例如 TYPE=AUDIO,GROUP-ID="aac",NAME="粤语"，引号内的值可以包含逗号
+ */
+export const parseAttributeList = (input: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(input)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, "");
+  }
+  return attributes;
+};
+
+/**
+ * 将播放列表中的相对地址解析为绝对地址
+ */
+export const resolveUrl = (uri: string, baseUrl: string): string => {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    return uri;
+  }
+  const baseMatch = baseUrl.match(/^([a-z][a-z0-9+.-]*:)(\/\/[^/?#]*)?([^?#]*)/i);
+  if (!baseMatch) {
+    return uri;
+  }
+  const [, protocol, authority = "", basePath] = baseMatch;
+  if (uri.startsWith("//")) {
+    return `${protocol}${uri}`;
+  }
+
+  const queryIndex = uri.search(/[?#]/);
+  const uriPath = queryIndex === -1 ? uri : uri.substring(0, queryIndex);
+  const suffix = queryIndex === -1 ? "" : uri.substring(queryIndex);
+  const path = uriPath.startsWith("/") ? uriPath : `${basePath.substring(0, basePath.lastIndexOf("/") + 1)}${uriPath}`;
+
+  const segments: string[] = [];
+  path.split("/").forEach((segment, index, all) => {
+    if (segment === "..") {
+      if (segments.length > 1) segments.pop();
+    } else if (segment !== "." || index === all.length - 1) {
+      segments.push(segment === "." ? "" : segment);
+    }
+  });
+  return `${protocol}${authority}${segments.join("/")}${suffix}`;
+};
+
+const parseResolution = (value?: string): HlsResolution | undefined => {
+  const match = value?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: parseInt(match[1], 10), height: parseInt(match[2], 10) } : undefined;
+};
+
+const parseRendition = (attributes: Record<string, string>, baseUrl: string): HlsRendition => ({
+  type: attributes["TYPE"] as HlsRendition["type"],
+  groupId: attributes["GROUP-ID"] || "",
+  name: attributes["NAME"] || attributes["LANGUAGE"] || "",
+  language: attributes["LANGUAGE"] || undefined,
+  uri: attributes["URI"] ? resolveUrl(attributes["URI"], baseUrl) : undefined,
+  isDefault: attributes["DEFAULT"] === "YES",
+  autoselect: attributes["AUTOSELECT"] === "YES",
+});
+
+/**
+ * 解析 HLS 主播放列表，得到所有码率变体以及音轨、字幕组
+ * @returns 不是主播放列表（例如直接是媒体播放列表）时返回 null
+ */
+export const parseMasterPlaylist = (content: string, url: string): HlsMasterPlaylist | null => {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+  const variants: HlsVariant[] = [];
+  const audioRenditions: HlsRendition[] = [];
+  const subtitleRenditions: HlsRendition[] = [];
+  const imageStreams: HlsImageStream[] = [];
+  const iFrameStreams: HlsImageStream[] = [];
+  let pendingVariant: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith("#EXT-X-IMAGE-STREAM-INF:") || line.startsWith("#EXT-X-I-FRAME-STREAM-INF:")) {
+      const attributes = parseAttributeList(line.substring(line.indexOf(":") + 1));
+      if (attributes["URI"]) {
+        (line.startsWith("#EXT-X-IMAGE-STREAM-INF:") ? imageStreams : iFrameStreams).push({
+          uri: resolveUrl(attributes["URI"], url),
+          bandwidth: parseInt(attributes["BANDWIDTH"] || "0", 10),
+          resolution: parseResolution(attributes["RESOLUTION"]),
+        });
+      }
+    } else if (line.startsWith("#EXT-X-STREAM-INF:")) {
+      pendingVariant = parseAttributeList(line.substring("#EXT-X-STREAM-INF:".length));
+    } else if (line.startsWith("#EXT-X-MEDIA:")) {
+      const attributes = parseAttributeList(line.substring("#EXT-X-MEDIA:".length));
+      if (attributes["TYPE"] === "AUDIO") {
+        audioRenditions.push(parseRendition(attributes, url));
+      } else if (attributes["TYPE"] === "SUBTITLES" && attributes["URI"]) {
+        subtitleRenditions.push(parseRendition(attributes, url));
+      }
+    } else if (pendingVariant && line && !line.startsWith("#")) {
+      variants.push({
+        uri: resolveUrl(line, url),
+        bandwidth: parseInt(pendingVariant["BANDWIDTH"] || "0", 10),
+        averageBandwidth: pendingVariant["AVERAGE-BANDWIDTH"]
+          ? parseInt(pendingVariant["AVERAGE-BANDWIDTH"], 10)
+          : undefined,
+        resolution: parseResolution(pendingVariant["RESOLUTION"]),
+        codecs: pendingVariant["CODECS"],
+        frameRate: pendingVariant["FRAME-RATE"] ? parseFloat(pendingVariant["FRAME-RATE"]) : undefined,
+        audioGroup: pendingVariant["AUDIO"],
+        subtitleGroup: pendingVariant["SUBTITLES"],
+      });
+      pendingVariant = null;
+    }
+  }
+
+  if (variants.length === 0) {
+    return null;
+  }
+  return { url, content, variants, audioRenditions, subtitleRenditions, imageStreams, iFrameStreams };
+};
+
+/**
+ * 获取并解析主播放列表
+ * @returns 请求失败或不是主播放列表时返回 null
+ */
+export const fetchMasterPlaylist = async (url: string, signal?: AbortSignal): Promise<HlsMasterPlaylist | null> => {
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      return null;
+    }
+    // 跟随重定向后的地址才是相对路径的基准
+    return parseMasterPlaylist(await response.text(), response.url || url);
+  } catch (error) {
+    if ((error as Error).name !== "AbortError") {
+      logger.info(`Failed to fetch master playlist ${url.substring(0, 100)}:`, error);
+    }
+    return null;
+  }
+};
+
+/**
+ * 提取媒体播放列表中的分片地址
+ */
+export const parseMediaPlaylistSegments = (content: string, url: string): string[] =>
+  content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => resolveUrl(line, url));
+
+/**
+ * 提取媒体播放列表中的分片及其时间范围，#EXT-X-BYTERANGE 没有偏移量时接着同一文件的上一段
+ */
+export const parseMediaPlaylistTimeline = (content: string, url: string): HlsTimedSegment[] => {
+  const segments: HlsTimedSegment[] = [];
+  let start = 0;
+  let pendingDuration: number | null = null;
+  let pendingByteRange: { length: number; offset?: number } | null = null;
+  // 同一文件上一段的结束位置
+  let previousEnd: { uri: string; end: number } | undefined;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("#EXTINF:")) {
+      pendingDuration = parseFloat(line.substring("#EXTINF:".length)) * 1000 || 0;
+    } else if (line.startsWith("#EXT-X-BYTERANGE:")) {
+      const [length, offset] = line.substring("#EXT-X-BYTERANGE:".length).split("@");
+      pendingByteRange = { length: parseInt(length, 10), offset: offset ? parseInt(offset, 10) : undefined };
+    } else if (pendingDuration !== null && line && !line.startsWith("#")) {
+      const uri = resolveUrl(line, url);
+      let byteRange: HlsByteRange | undefined;
+      if (pendingByteRange) {
+        const offset: number = pendingByteRange.offset ?? (previousEnd?.uri === uri ? previousEnd.end : 0);
+        byteRange = { offset, length: pendingByteRange.length };
+        previousEnd = { uri, end: offset + pendingByteRange.length };
+      }
+      segments.push({ uri, start, duration: pendingDuration, ...(byteRange ? { byteRange } : {}) });
+      start += pendingDuration;
+      pendingDuration = null;
+      pendingByteRange = null;
+    }
+  }
+  return segments;
+};
+
+/**
+ * 媒体播放列表中的分片是否加密（#EXT-X-KEY 的 METHOD 不是 NONE）
+ */
+export const isEncryptedPlaylist = (content: string): boolean =>
+  content.split(/\r?\n/).some((line) => line.trim().startsWith("#EXT-X-KEY:") && !/METHOD=NONE(,|$)/.test(line.trim()));
+
+/**
+ * 按名称列出可选音轨，同名音轨通常分布在不同码率的音频组中
+ */
+export const getAudioTrackNames = (master: HlsMasterPlaylist): string[] =>
+  Array.from(new Set(master.audioRenditions.map((rendition) => rendition.name)));
+
+const absolutizeUriAttribute = (line: string, baseUrl: string) =>
+  line.replace(/URI="([^"]*)"/, (_, uri) => `URI="${resolveUrl(uri, baseUrl)}"`);
+
+const setFlag = (line: string, name: string, value: boolean) => {
+  const flag = `${name}=${value ? "YES" : "NO"}`;
+  return new RegExp(`${name}=(YES|NO)`).test(line)
+    ? line.replace(new RegExp(`${name}=(YES|NO)`), flag)
+    : `${line},${flag}`;
+};
+
+/**
+ * 码率变体的清晰度标识，用于跨剧集匹配同一档清晰度，例如 "1080p"；没有分辨率时使用码率，例如 "800k"
+ */
+export const getVariantQuality = (variant: HlsVariant) =>
+  variant.resolution ? `${variant.resolution.height}p` : `${Math.round(variant.bandwidth / 1000)}k`;
+
+export const formatBandwidth = (bandwidth: number) =>
+  bandwidth >= 1000000 ? `${(bandwidth / 1000000).toFixed(1)} Mbps` : `${Math.round(bandwidth / 1000)} Kbps`;
+
+/**
+ * 按清晰度、码率从高到低排序
+ */
+export const sortVariants = (variants: HlsVariant[]) =>
+  [...variants].sort(
+    (a, b) => (b.resolution?.height || 0) - (a.resolution?.height || 0) || b.bandwidth - a.bandwidth,
+  );
+
+/**
+ * 查找指定清晰度的变体，同一清晰度有多个码率时取最高码率
+ */
+export const findVariantByQuality = (master: HlsMasterPlaylist, quality: string) =>
+  sortVariants(master.variants).find((variant) => getVariantQuality(variant) === quality);
+
+/**
+ * 重写主播放列表：所有地址改为绝对地址。
+ * audioTrack：每个音频组只保留指定名称的音轨，使播放器只能选择这一条音轨，音频组中没有该音轨时保留原有内容。
+ * variantUri：只保留指定的码率变体。
+ * variantUrls：以变体的绝对地址为键，替换为改写后的媒体播放列表地址。
+ */
+export const buildMasterPlaylist = (
+  master: HlsMasterPlaylist,
+  options: { audioTrack?: string; variantUri?: string; variantUrls?: Record<string, string> },
+): string => {
+  const { audioTrack, variantUri, variantUrls } = options;
+  const groupsWithTrack = new Set(
+    master.audioRenditions.filter((rendition) => rendition.name === audioTrack).map((rendition) => rendition.groupId),
+  );
+
+  const output: string[] = [];
+  let pendingVariant: string | null = null;
+  for (const rawLine of master.content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("#EXT-X-STREAM-INF:")) {
+      pendingVariant = line;
+    } else if (pendingVariant !== null && line && !line.startsWith("#")) {
+      const uri = resolveUrl(line, master.url);
+      if (!variantUri || uri === variantUri) {
+        output.push(pendingVariant, variantUrls?.[uri] || uri);
+      }
+      pendingVariant = null;
+    } else if (line.startsWith("#EXT-X-MEDIA:")) {
+      const attributes = parseAttributeList(line.substring("#EXT-X-MEDIA:".length));
+      if (attributes["TYPE"] === "AUDIO" && groupsWithTrack.has(attributes["GROUP-ID"])) {
+        if (parseRendition(attributes, master.url).name !== audioTrack) {
+          continue;
+        }
+        output.push(setFlag(setFlag(absolutizeUriAttribute(line, master.url), "DEFAULT", true), "AUTOSELECT", true));
+        continue;
+      }
+      output.push(absolutizeUriAttribute(line, master.url));
+    } else if (
+      line.startsWith("#EXT-X-I-FRAME-STREAM-INF:") ||
+      line.startsWith("#EXT-X-IMAGE-STREAM-INF:") ||
+      line.startsWith("#EXT-X-SESSION-KEY:")
+    ) {
+      output.push(absolutizeUriAttribute(line, master.url));
+    } else if (line && !line.startsWith("#")) {
+      output.push(resolveUrl(line, master.url));
+    } else {
+      output.push(line);
+    }
+  }
+  return output.join("\n");
+};
@@ -0,0 +1,41 @@
+/**
+ * 遥控器快进快退：长按时步长逐渐加大，数字键按百分比跳转
+ */
+
+export interface SeekOptions {
+  step: number; // 秒，单次快进快退的步长
+  accelerate: boolean; // 长按时逐渐加大步长
+}
+
+export const DEFAULT_SEEK_OPTIONS: SeekOptions = {
+  step: 20,
+  accelerate: true,
+};
+
+// 每按住这么久步长翻倍
+const ACCELERATION_INTERVAL = 1500;
+const MAX_MULTIPLIER = 16;
+
+/**
+ * 长按 holdMillis 后的步长倍数
+ */
+export const getSeekMultiplier = (holdMillis: number, options: SeekOptions): number =>
+  options.accelerate ? Math.min(MAX_MULTIPLIER, 2 ** Math.floor(Math.max(0, holdMillis) / ACCELERATION_INTERVAL)) : 1;
+
+/**
+ * 按数字键 key 跳转到的位置（毫秒），例如 3 跳到 30%
+ * @returns 不是 0-9 的数字键时返回 null
+ */
+export const getPercentagePosition = (key: string, durationMillis: number): number | null =>
+  /^[0-9]$/.test(key) ? (durationMillis * parseInt(key, 10)) / 10 : null;
+
+/**
+ * 步长的显示文字，例如 "20 秒"、"2 分 40 秒"
+ */
+export const formatSeekStep = (stepMillis: number): string => {
+  const totalSeconds = Math.round(Math.abs(stepMillis) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds} 秒`;
+  return seconds === 0 ? `${minutes} 分钟` : `${minutes} 分 ${seconds} 秒`;
+};
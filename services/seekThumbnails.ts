@@ -0,0 +1,273 @@
+import * as FileSystem from "expo-file-system";
+import { getThumbnailAsync } from "expo-video-thumbnails";
+import Logger from "@/utils/Logger";
+import {
+  HlsResolution,
+  HlsByteRange,
+  HlsTimedSegment,
+  isEncryptedPlaylist,
+  parseAttributeList,
+  parseMasterPlaylist,
+  parseMediaPlaylistTimeline,
+  resolveUrl,
+} from "./m3u8";
+import { parseVtt } from "./subtitles";
+
+const logger = Logger.withTag("SeekThumbnails");
+
+const THUMBNAIL_FETCH_TIMEOUT = 10000; // 10 seconds
+// 非 HLS 视频按这个间隔解码，相邻位置共用一张缩略图
+const VIDEO_FRAME_INTERVAL = 10000; // 10 seconds
+const MAX_CACHED_FRAMES = 50;
+const FRAME_QUALITY = 0.5;
+
+export interface ThumbnailRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SeekThumbnail {
+  uri: string;
+  start: number; // 毫秒
+  end: number; // 毫秒
+  region?: ThumbnailRegion; // 雪碧图中的区域，未设置表示整张图片
+  sheet?: HlsResolution; // 雪碧图的尺寸，WebVTT 缩略图需要加载图片后才能知道
+}
+
+// sprites：源提供的缩略图；segments：解码离目标最近的分片或 I 帧的首帧；video：直接解码视频文件
+export type ThumbnailSource =
+  | { type: "sprites"; thumbnails: SeekThumbnail[] }
+  | { type: "segments"; segments: HlsTimedSegment[] }
+  | { type: "video"; url: string };
+
+const isHlsUrl = (url: string) => /\.m3u8(\?|#|$)/i.test(url);
+
+/**
+ * 解析 WebVTT 缩略图，每条字幕的内容是图片地址，雪碧图用 #xywh=x,y,w,h 指定区域
+ */
+export const parseVttThumbnails = (content: string, url: string): SeekThumbnail[] =>
+  parseVtt(content).map((cue) => {
+    const [path, fragment = ""] = cue.text.split("#");
+    const xywh = fragment.match(/xywh=(\d+),(\d+),(\d+),(\d+)/);
+    return {
+      uri: resolveUrl(path.trim(), url),
+      start: cue.start,
+      end: cue.end,
+      region: xywh
+        ? {
+            x: parseInt(xywh[1], 10),
+            y: parseInt(xywh[2], 10),
+            width: parseInt(xywh[3], 10),
+            height: parseInt(xywh[4], 10),
+          }
+        : undefined,
+    };
+  });
+
+/**
+ * 解析 #EXT-X-IMAGES-ONLY 缩略图播放列表，#EXT-X-TILES 表示每张图片是按 LAYOUT 排列的雪碧图
+ * @returns 不是缩略图播放列表时返回空数组
+ */
+export const parseImagePlaylist = (content: string, url: string): SeekThumbnail[] => {
+  if (!content.includes("#EXT-X-IMAGES-ONLY")) {
+    return [];
+  }
+
+  const thumbnails: SeekThumbnail[] = [];
+  let start = 0;
+  let duration: number | null = null;
+  let tiles: Record<string, string> | null = null;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("#EXTINF:")) {
+      duration = parseFloat(line.substring("#EXTINF:".length)) * 1000 || 0;
+    } else if (line.startsWith("#EXT-X-TILES:")) {
+      tiles = parseAttributeList(line.substring("#EXT-X-TILES:".length));
+    } else if (duration !== null && line && !line.startsWith("#")) {
+      const uri = resolveUrl(line, url);
+      const resolution = tiles?.["RESOLUTION"]?.match(/^(\d+)x(\d+)$/);
+      const layout = tiles?.["LAYOUT"]?.match(/^(\d+)x(\d+)$/);
+      if (resolution && layout) {
+        const [width, height] = [parseInt(resolution[1], 10), parseInt(resolution[2], 10)];
+        const [columns, rows] = [parseInt(layout[1], 10), parseInt(layout[2], 10)];
+        const tileDuration = parseFloat(tiles?.["DURATION"] || "") * 1000 || duration / (columns * rows);
+        for (let index = 0; index < columns * rows && index * tileDuration < duration; index++) {
+          thumbnails.push({
+            uri,
+            start: start + index * tileDuration,
+            end: start + Math.min((index + 1) * tileDuration, duration),
+            region: {
+              x: (index % columns) * width,
+              y: Math.floor(index / columns) * height,
+              width,
+              height,
+            },
+            sheet: { width: width * columns, height: height * rows },
+          });
+        }
+      } else {
+        thumbnails.push({ uri, start, end: start + duration });
+      }
+      start += duration;
+      duration = null;
+      tiles = null;
+    }
+  }
+  return thumbnails;
+};
+
+/**
+ * 查找覆盖指定位置的缩略图或分片
+ */
+export const findAtPosition = <T extends { start: number }>(
+  items: T[],
+  positionMillis: number,
+  getEnd: (item: T) => number,
+): T | undefined => items.find((item) => positionMillis >= item.start && positionMillis < getEnd(item));
+
+const fetchText = async (url: string, signal?: AbortSignal): Promise<{ text: string; url: string } | null> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  const timeoutId = setTimeout(abort, THUMBNAIL_FETCH_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      return null;
+    }
+    // 跟随重定向后的地址才是相对路径的基准
+    return { text: await response.text(), url: response.url || url };
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abort);
+  }
+};
+
+const loadSpriteThumbnails = async (url: string, signal?: AbortSignal): Promise<SeekThumbnail[]> => {
+  const result = await fetchText(url, signal);
+  if (!result) {
+    return [];
+  }
+  return result.text.trimStart().startsWith("WEBVTT")
+    ? parseVttThumbnails(result.text, result.url)
+    : parseImagePlaylist(result.text, result.url);
+};
+
+/**
+ * 以媒体播放列表中的分片作为缩略图来源
+ * @returns 分片加密时无法解码，返回 null
+ */
+const toSegmentSource = (media: { text: string; url: string } | null): ThumbnailSource | null => {
+  if (!media) {
+    return null;
+  }
+  if (isEncryptedPlaylist(media.text)) {
+    logger.info("Segments are encrypted, seek thumbnails are not available");
+    return null;
+  }
+  const segments = parseMediaPlaylistTimeline(media.text, media.url);
+  return segments.length > 0 ? { type: "segments", segments } : null;
+};
+
+/**
+ * 确定播放地址的缩略图来源：优先使用源提供的缩略图，其次是 I 帧播放列表，最后解码码率最低的变体中的分片
+ * @param playbackUrl 播放器实际加载的地址，过滤广告后的本地播放列表与画面时间一致
+ */
+export const loadThumbnailSource = async (
+  playbackUrl: string,
+  signal?: AbortSignal,
+): Promise<ThumbnailSource | null> => {
+  if (!isHlsUrl(playbackUrl)) {
+    return { type: "video", url: playbackUrl };
+  }
+
+  try {
+    const playlist = await fetchText(playbackUrl, signal);
+    if (!playlist) {
+      return null;
+    }
+    const master = parseMasterPlaylist(playlist.text, playlist.url);
+    if (!master) {
+      return toSegmentSource(playlist);
+    }
+
+    const [imageStream] = [...master.imageStreams].sort((a, b) => a.bandwidth - b.bandwidth);
+    if (imageStream) {
+      const thumbnails = await loadSpriteThumbnails(imageStream.uri, signal);
+      if (thumbnails.length > 0) {
+        return { type: "sprites", thumbnails };
+      }
+    }
+
+    // I 帧播放列表的每一项都是一个关键帧，只需下载很小的一段
+    const [iFrameStream] = [...master.iFrameStreams].sort((a, b) => a.bandwidth - b.bandwidth);
+    if (iFrameStream) {
+      const source = toSegmentSource(await fetchText(iFrameStream.uri, signal));
+      if (source) {
+        return source;
+      }
+    }
+
+    const [variant] = [...master.variants].sort((a, b) => a.bandwidth - b.bandwidth);
+    return toSegmentSource(await fetchText(variant.uri, signal));
+  } catch (error) {
+    if ((error as Error).name !== "AbortError") {
+      logger.info(`Failed to load thumbnails for ${playbackUrl.substring(0, 100)}:`, error);
+    }
+    return null;
+  }
+};
+
+const frameCache = new Map<string, Promise<{ uri: string } | null>>();
+
+const decodeFrame = (url: string, time: number, byteRange?: HlsByteRange) => {
+  const key = byteRange ? `${byteRange.offset}-${byteRange.length}@${url}` : `${time}@${url}`;
+  let frame = frameCache.get(key);
+  if (!frame) {
+    const headers = byteRange
+      ? { Range: `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}` }
+      : undefined;
+    frame = getThumbnailAsync(url, { time, quality: FRAME_QUALITY, headers }).catch((error) => {
+      logger.debug(`Failed to decode frame at ${time}ms of ${url.substring(0, 100)}:`, error);
+      frameCache.delete(key);
+      return null;
+    });
+    frameCache.set(key, frame);
+    if (frameCache.size > MAX_CACHED_FRAMES) {
+      const oldestKey = frameCache.keys().next().value as string;
+      const oldest = frameCache.get(oldestKey);
+      frameCache.delete(oldestKey);
+      // 解码出的图片保存在缓存目录中，移出缓存时一并删除
+      oldest
+        ?.then((evicted) => evicted && FileSystem.deleteAsync(evicted.uri, { idempotent: true }))
+        .catch((error) => logger.debug("Failed to delete evicted frame:", error));
+    }
+  }
+  return frame;
+};
+
+/**
+ * 获取指定位置的缩略图，需要解码时可能较慢，调用方应在快进停顿后再调用
+ */
+export const getSeekThumbnail = async (
+  source: ThumbnailSource,
+  positionMillis: number,
+): Promise<SeekThumbnail | null> => {
+  if (source.type === "sprites") {
+    return findAtPosition(source.thumbnails, positionMillis, (thumbnail) => thumbnail.end) || null;
+  }
+
+  if (source.type === "segments") {
+    // HLS 分片以关键帧开头，解码首帧最快
+    const segment = findAtPosition(source.segments, positionMillis, (item) => item.start + item.duration);
+    if (!segment) return null;
+    const frame = await decodeFrame(segment.uri, 0, segment.byteRange);
+    return frame && { uri: frame.uri, start: segment.start, end: segment.start + segment.duration };
+  }
+
+  const start = Math.floor(positionMillis / VIDEO_FRAME_INTERVAL) * VIDEO_FRAME_INTERVAL;
+  const frame = await decodeFrame(source.url, start);
+  return frame && { uri: frame.uri, start, end: start + VIDEO_FRAME_INTERVAL };
+};
@@ -0,0 +1,100 @@
+/**
+ * 片头片尾标记：按剧名归一化后保存，同一部剧的不同播放源共用一份标记
+ */
+
+// 不同集的片头/片尾时长相差不超过该值时视为同一个标记
+const MARKER_TOLERANCE = 10000; // 10 seconds
+// 至少在这么多集中得到一致的结果才推断标记
+const MIN_CONFIRMED_EPISODES = 2;
+// 片头跳过：从开头这段时间内开始快进
+const INTRO_SEEK_MAX_START = 5 * 60 * 1000; // 5 minutes
+const INTRO_SEEK_MIN_JUMP = 30 * 1000; // 30 seconds
+const INTRO_SEEK_MAX_JUMP = 4 * 60 * 1000; // 4 minutes
+// 片尾跳过：在剩余这段时间内切到下一集
+const OUTRO_SKIP_MIN_REMAINING = 10 * 1000; // 10 seconds
+const OUTRO_SKIP_MAX_REMAINING = 5 * 60 * 1000; // 5 minutes
+
+export interface SkipMarkerRecord {
+  introEndTime?: number; // 手动设置的片头结束位置（毫秒）
+  outroStartTime?: number; // 手动设置的片尾时长（毫秒，从结尾往前算）
+  introSamples?: Record<string, number>; // 各集确认过的片头结束位置，以集数为键
+  outroSamples?: Record<string, number>; // 各集确认过的片尾时长，以集数为键
+  updatedAt: number;
+}
+
+export interface SkipMarkers {
+  introEndTime?: number;
+  outroStartTime?: number;
+  isIntroInferred: boolean; // 由之前几集的记录推断而来
+  isOutroInferred: boolean;
+}
+
+/**
+ * 从各集的记录中推断标记：取相互一致的记录最多的一组的中位数
+ * @returns 一致的记录不足 MIN_CONFIRMED_EPISODES 集时返回 undefined
+ */
+export const inferMarker = (samples: Record<string, number> = {}): number | undefined => {
+  const values = Object.values(samples).sort((a, b) => a - b);
+  let best: number[] = [];
+  for (let start = 0; start < values.length; start++) {
+    let end = start;
+    while (end + 1 < values.length && values[end + 1] - values[start] <= MARKER_TOLERANCE) {
+      end++;
+    }
+    if (end - start + 1 > best.length) {
+      best = values.slice(start, end + 1);
+    }
+  }
+  if (best.length < MIN_CONFIRMED_EPISODES) {
+    return undefined;
+  }
+  return best[Math.floor((best.length - 1) / 2)];
+};
+
+/**
+ * 计算当前生效的标记，手动设置的标记优先
+ * @param useInference 是否使用由之前几集推断的标记
+ */
+export const resolveSkipMarkers = (record: SkipMarkerRecord | null, useInference: boolean): SkipMarkers => {
+  const introInferred =
+    useInference && record?.introEndTime === undefined ? inferMarker(record?.introSamples) : undefined;
+  const outroInferred =
+    useInference && record?.outroStartTime === undefined ? inferMarker(record?.outroSamples) : undefined;
+  return {
+    introEndTime: record?.introEndTime ?? introInferred,
+    outroStartTime: record?.outroStartTime ?? outroInferred,
+    isIntroInferred: introInferred !== undefined,
+    isOutroInferred: outroInferred !== undefined,
+  };
+};
+
+/**
+ * 判断一次快进是否像是在跳过片头
+ * @param from 开始快进时的位置（毫秒）
+ * @param to 快进结束后的位置（毫秒）
+ */
+export const isIntroSkip = (from: number, to: number): boolean =>
+  from <= INTRO_SEEK_MAX_START && to - from >= INTRO_SEEK_MIN_JUMP && to - from <= INTRO_SEEK_MAX_JUMP;
+
+/**
+ * 判断在剩余时间 remaining（毫秒）时切到下一集是否像是在跳过片尾
+ */
+export const isOutroSkip = (remaining: number, duration: number): boolean =>
+  remaining >= OUTRO_SKIP_MIN_REMAINING && remaining <= OUTRO_SKIP_MAX_REMAINING && remaining < duration / 4;
+
+/**
+ * 记录某一集确认过的标记，返回新的记录
+ */
+export const addSkipMarkerSample = (
+  record: SkipMarkerRecord | null,
+  type: "intro" | "outro",
+  episodeIndex: number,
+  value: number,
+): SkipMarkerRecord => {
+  const key = type === "intro" ? "introSamples" : "outroSamples";
+  return {
+    ...record,
+    [key]: { ...record?.[key], [episodeIndex]: Math.round(value) },
+    updatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * 播放源健康记录：按 source 持久化播放成功/失败、首帧耗时与播放中卡顿，用于播放源排序
+ */
+
+// 每次播放结果都会让旧的记录按该系数衰减，近期的表现权重更高
+const HEALTH_DECAY = 0.9;
+// 首帧耗时的滑动平均中新样本的权重
+const FIRST_FRAME_SMOOTHING = 0.3;
+const FAST_FIRST_FRAME = 1000; // 1 second
+const SLOW_FIRST_FRAME = 15000; // 15 seconds
+// 平均每次播放卡顿达到这个次数时卡顿评分为 0
+const MAX_STALLS_PER_PLAY = 5;
+// 播放记录达到这么多次时历史评分的权重最大
+const CONFIDENT_SAMPLES = 3;
+const MAX_HISTORY_WEIGHT = 0.5;
+// 连续失败达到这个次数的播放源排到最后
+const FAILING_THRESHOLD = 2;
+// 这段时间内失败过的播放源不作为自动切换的备用源
+const RECENT_FAILURE_WINDOW = 10 * 60 * 1000; // 10 minutes
+
+export interface SourceHealthRecord {
+  successes: number; // 衰减后的成功次数
+  failures: number; // 衰减后的失败次数
+  stalls: number; // 衰减后的卡顿次数
+  consecutiveFailures: number;
+  firstFrameTime?: number; // 首帧耗时的滑动平均（毫秒）
+  lastFailureAt?: number;
+  updatedAt: number;
+}
+
+export type SourceHealthEvent = { type: "success"; firstFrameTime: number } | { type: "failure" } | { type: "stall" };
+
+const EMPTY_RECORD: SourceHealthRecord = { successes: 0, failures: 0, stalls: 0, consecutiveFailures: 0, updatedAt: 0 };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 记录一次播放结果或卡顿，返回新的记录
+ */
+export const applySourceHealthEvent = (
+  record: SourceHealthRecord | undefined,
+  event: SourceHealthEvent,
+  now = Date.now(),
+): SourceHealthRecord => {
+  const current = record || EMPTY_RECORD;
+  if (event.type === "stall") {
+    return { ...current, stalls: current.stalls + 1, updatedAt: now };
+  }
+
+  const decayed = {
+    ...current,
+    successes: current.successes * HEALTH_DECAY,
+    failures: current.failures * HEALTH_DECAY,
+    stalls: current.stalls * HEALTH_DECAY,
+    updatedAt: now,
+  };
+  if (event.type === "failure") {
+    return {
+      ...decayed,
+      failures: decayed.failures + 1,
+      consecutiveFailures: current.consecutiveFailures + 1,
+      lastFailureAt: now,
+    };
+  }
+  return {
+    ...decayed,
+    successes: decayed.successes + 1,
+    consecutiveFailures: 0,
+    firstFrameTime:
+      current.firstFrameTime === undefined
+        ? event.firstFrameTime
+        : Math.round(
+            current.firstFrameTime * (1 - FIRST_FRAME_SMOOTHING) + event.firstFrameTime * FIRST_FRAME_SMOOTHING,
+          ),
+  };
+};
+
+/**
+ * 健康评分（0-100）：成功率 60%，首帧耗时 25%，卡顿 15%
+ */
+export const getHealthScore = (record: SourceHealthRecord): number => {
+  // 加一平滑，只有一两次记录时不会直接得到 0 或 100
+  const reliability = (record.successes + 1) / (record.successes + record.failures + 2);
+
+  const firstFrameScore = (() => {
+    if (record.firstFrameTime === undefined) return 0.5;
+    if (record.firstFrameTime <= FAST_FIRST_FRAME) return 1;
+    if (record.firstFrameTime >= SLOW_FIRST_FRAME) return 0;
+    return (SLOW_FIRST_FRAME - record.firstFrameTime) / (SLOW_FIRST_FRAME - FAST_FIRST_FRAME);
+  })();
+
+  const stallsPerPlay = record.stalls / Math.max(record.successes, 1);
+  const stallScore = Math.max(0, 1 - stallsPerPlay / MAX_STALLS_PER_PLAY);
+
+  return round((reliability * 0.6 + firstFrameScore * 0.25 + stallScore * 0.15) * 100);
+};
+
+/**
+ * 综合测速评分与健康评分，历史记录越多健康评分的权重越大
+ * @param probeScore 分辨率与分片下载速度的评分，测速失败时为空
+ * @returns 既没有测速结果也没有历史记录时返回 undefined
+ */
+export const combineSourceScore = (
+  probeScore: number | undefined,
+  record: SourceHealthRecord | undefined,
+): number | undefined => {
+  const samples = record ? record.successes + record.failures : 0;
+  if (!record || samples === 0) {
+    return probeScore;
+  }
+  const healthScore = getHealthScore(record);
+  if (probeScore === undefined) {
+    return healthScore;
+  }
+  const weight = MAX_HISTORY_WEIGHT * Math.min(1, samples / CONFIDENT_SAMPLES);
+  return round(probeScore * (1 - weight) + healthScore * weight);
+};
+
+export const isSourceFailing = (record: SourceHealthRecord | undefined): boolean =>
+  !!record && record.consecutiveFailures >= FAILING_THRESHOLD;
+
+export const isRecentlyFailed = (record: SourceHealthRecord | undefined, now = Date.now()): boolean =>
+  record?.lastFailureAt !== undefined &&
+  record.consecutiveFailures > 0 &&
+  now - record.lastFailureAt < RECENT_FAILURE_WINDOW;
+
+/**
+ * 播放源排序：连续失败的排到最后，其余按评分降序，没有评分的排在有评分的之后
+ */
+export const compareSources = (
+  a: { score?: number; health?: SourceHealthRecord },
+  b: { score?: number; health?: SourceHealthRecord },
+): number => {
+  const failingDiff = Number(isSourceFailing(a.health)) - Number(isSourceFailing(b.health));
+  if (failingDiff !== 0) {
+    return failingDiff;
+  }
+  return (b.score ?? -1) - (a.score ?? -1);
+};
@@ -0,0 +1,144 @@
+import Logger from "@/utils/Logger";
+import { parseMasterPlaylist, parseMediaPlaylistSegments, sortVariants } from "./m3u8";
+
+const logger = Logger.withTag("SpeedTest");
+
+const SPEED_TEST_TIMEOUT = 8000; // 8 seconds
+// 最多下载的分片数与总字节数，第一个分片不够预算时才下载第二个
+const MAX_SEGMENTS = 2;
+const BYTE_BUDGET = 1024 * 1024; // 1 MB
+// 下载量太少时耗时主要是网络延迟，测出的速度不可信
+const MIN_MEASURED_BYTES = 16 * 1024; // 16 KB
+
+const isHlsUrl = (url: string) => /\.m3u8(\?|#|$)/i.test(url);
+
+/**
+ * 计算下载速度
+ * @returns KB/s，下载量不足时返回 null
+ */
+export const calculateThroughput = (bytes: number, millis: number): number | null =>
+  bytes < MIN_MEASURED_BYTES || millis <= 0 ? null : Math.max(1, Math.round(bytes / 1024 / (millis / 1000)));
+
+export const formatThroughput = (kbps: number) => (kbps >= 1024 ? `${(kbps / 1024).toFixed(1)} MB/s` : `${kbps} KB/s`);
+
+const fetchPlaylist = async (url: string, signal: AbortSignal): Promise<{ text: string; url: string } | null> => {
+  const response = await fetch(url, { signal, cache: "no-store" });
+  if (!response.ok) {
+    return null;
+  }
+  // 跟随重定向后的地址才是相对路径的基准
+  return { text: await response.text(), url: response.url || url };
+};
+
+// 主播放列表取最高清晰度的变体，与默认播放时下载的分片一致
+const resolveSegments = async (url: string, signal: AbortSignal): Promise<string[]> => {
+  let playlist = await fetchPlaylist(url, signal);
+  const master = playlist && parseMasterPlaylist(playlist.text, playlist.url);
+  if (master) {
+    const [variant] = sortVariants(master.variants);
+    playlist = await fetchPlaylist(variant.uri, signal);
+  }
+  return playlist ? parseMediaPlaylistSegments(playlist.text, playlist.url).slice(0, MAX_SEGMENTS) : [];
+};
+
+const createAbortError = () => {
+  const error = new Error("Aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * 下载文件开头的一段，返回收到的字节数
+ * 服务器忽略 Range 时会返回整个文件，React Native 的 fetch 又不能边下边读，所以在 XMLHttpRequest 的进度回调中计数，读满预算后中止
+ * @returns 服务器返回错误状态码时返回 null
+ */
+const downloadWithinBudget = (url: string, budget: number, signal: AbortSignal): Promise<number | null> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let loaded = 0;
+    let settled = false;
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal.removeEventListener("abort", abort);
+      callback();
+    };
+    const abort = () => {
+      settle(() => reject(createAbortError()));
+      xhr.abort();
+    };
+
+    xhr.onprogress = (event) => {
+      loaded = event.loaded;
+      if (loaded >= budget) {
+        settle(() => resolve(loaded));
+        xhr.abort();
+      }
+    };
+    xhr.onload = () => {
+      const received = (xhr.response as ArrayBuffer | null)?.byteLength ?? loaded;
+      settle(() => resolve(xhr.status >= 200 && xhr.status < 300 ? received : null));
+    };
+    xhr.onerror = () => settle(() => reject(new Error(`Failed to download ${url}`)));
+    xhr.onabort = () => settle(() => reject(createAbortError()));
+
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener("abort", abort);
+    xhr.open("GET", url);
+    xhr.responseType = "arraybuffer";
+    xhr.setRequestHeader("Range", `bytes=0-${budget - 1}`);
+    xhr.setRequestHeader("Cache-Control", "no-cache"); // 避免缓存影响测速
+    xhr.send();
+  });
+
+/**
+ * 测量播放源分片 CDN 的实际下载速度：解析到媒体播放列表后按字节预算下载开头的分片
+ * @param url 剧集地址，不是 HLS 时直接下载视频文件的开头
+ * @param signal AbortSignal for cancellation
+ * @returns KB/s，测速失败时返回 null
+ */
+export const measureThroughput = async (url: string, signal?: AbortSignal): Promise<number | null> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  const timeoutId = setTimeout(abort, SPEED_TEST_TIMEOUT);
+
+  try {
+    const segments = isHlsUrl(url) ? await resolveSegments(url, controller.signal) : [url];
+
+    let bytes = 0;
+    let millis = 0;
+    for (const segment of segments) {
+      const remaining = BYTE_BUDGET - bytes;
+      if (remaining <= 0) break;
+      const startTime = performance.now();
+      try {
+        const received = await downloadWithinBudget(segment, remaining, controller.signal);
+        if (received === null) break;
+        bytes += received;
+        millis += performance.now() - startTime;
+      } catch (error) {
+        // 超时前已经下载完的分片仍然有效
+        if (signal?.aborted) throw error;
+        break;
+      }
+    }
+
+    const throughput = calculateThroughput(bytes, millis);
+    logger.info(
+      `[SPEED] ${url.substring(0, 50)}... - ${bytes} bytes in ${Math.round(millis)}ms, ${throughput ?? "failed"} KB/s`,
+    );
+    return throughput;
+  } catch (error) {
+    if ((error as Error).name !== "AbortError") {
+      logger.info(`[SPEED] Failed for ${url.substring(0, 50)}...`, error);
+    }
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abort);
+  }
+};
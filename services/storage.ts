@@ -1,6 +1,18 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { api, PlayRecord as ApiPlayRecord, Favorite as ApiFavorite } from "./api";
+import {
+  api,
+  PlayRecord as ApiPlayRecord,
+  Favorite as ApiFavorite,
+  LiveChannelState as ApiLiveChannelState,
+} from "./api";
 import { storageConfig } from "./storageConfig";
+import { SubtitleTrack } from "./subtitles";
+import { AdFilterOptions } from "./hlsAdFilter";
+import { AutoplayOptions } from "./autoplay";
+import { SeekOptions } from "./seekSteps";
+import { SkipMarkerRecord } from "./skipMarkers";
+import { normalizeTitle } from "./titleMatch";
+import { SourceHealthEvent, SourceHealthRecord, applySourceHealthEvent } from "./sourceHealth";
 import Logger from "@/utils/Logger";
 
 const logger = Logger.withTag("Storage");
@@ -13,8 +25,21 @@ const STORAGE_KEYS = {
   PLAY_RECORDS: "mytv_play_records",
   SEARCH_HISTORY: "mytv_search_history",
   LOGIN_CREDENTIALS: "mytv_login_credentials",
+  LIVE_MIRRORS: "mytv_live_mirrors",
+  LIVE_CHANNELS: "mytv_live_channels",
+  SKIP_MARKERS: "mytv_skip_markers",
+  SOURCE_HEALTH: "mytv_source_health",
 } as const;
 
+// 同一个存储键的读-改-写依次执行，避免并发写入时后写的覆盖先写的
+const writeQueues: Partial<Record<string, Promise<unknown>>> = {};
+
+const serializeWrite = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const result = (writeQueues[key] ?? Promise.resolve()).then(task);
+  writeQueues[key] = result.catch(() => undefined);
+  return result;
+};
+
 // --- Type Definitions (aligned with api.ts) ---
 // Re-exporting for consistency, though they are now primarily API types
 export type PlayRecord = ApiPlayRecord & {
@@ -22,11 +47,28 @@ export type PlayRecord = ApiPlayRecord & {
   outroStartTime?: number;
 };
 export type Favorite = ApiFavorite;
+export type LiveChannelState = ApiLiveChannelState;
 
 export interface PlayerSettings {
   introEndTime?: number;
   outroStartTime?: number;
   playbackRate?: number;
+  subtitleTracks?: SubtitleTrack[]; // 用户添加的外挂字幕
+  subtitleUrl?: string; // 当前选中的字幕，未设置表示关闭字幕
+  subtitleOffset?: number; // 字幕时间偏移（毫秒），正数表示字幕延后
+  audioTrack?: string; // HLS 音轨名称，例如 "粤语"
+  quality?: string; // HLS 清晰度，例如 "720p"，未设置表示自动
+}
+
+export interface LiveSource {
+  id: string;
+  name: string;
+  type?: "m3u" | "xtream"; // 缺省为 m3u
+  url: string; // M3U 地址，或 Xtream 服务器地址
+  username?: string; // 仅 Xtream
+  password?: string; // 仅 Xtream
+  enabled: boolean;
+  refreshInterval: number; // 刷新间隔（分钟），0 表示不缓存，每次进入直播页都重新拉取
 }
 
 export interface AppSettings {
@@ -38,7 +80,12 @@ export interface AppSettings {
       [key: string]: boolean;
     };
   };
-  m3uUrl: string;
+  liveSources: LiveSource[];
+  m3uUrl?: string; // 旧版的单一直播源地址，仅用于迁移到 liveSources
+  adFilter?: AdFilterOptions;
+  skipMarkerInference?: boolean; // 根据前几集的操作推断片头片尾
+  autoplay?: AutoplayOptions;
+  seek?: SeekOptions;
   serverConfig?: {
     appVersion: string;
     apiVersion: string;
@@ -83,13 +130,10 @@ export class PlayerSettingsManager {
   static async save(source: string, id: string, settings: PlayerSettings): Promise<void> {
     const allSettings = await this.getAll();
     const key = generateKey(source, id);
+    const merged = { ...allSettings[key], ...settings };
     // Only save if there are actual values to save
-    if (
-      settings.introEndTime !== undefined ||
-      settings.outroStartTime !== undefined ||
-      settings.playbackRate !== undefined
-    ) {
-      allSettings[key] = { ...allSettings[key], ...settings };
+    if (Object.values(merged).some((value) => value !== undefined)) {
+      allSettings[key] = merged;
     } else {
       // If all are undefined, remove the key
       delete allSettings[key];
@@ -179,6 +223,67 @@ export class FavoriteManager {
   }
 }
 
+// --- SkipMarkerManager (Uses AsyncStorage) ---
+// 片头片尾标记按归一化的剧名保存，切换播放源后仍然生效
+export class SkipMarkerManager {
+  static async getAll(): Promise<Record<string, SkipMarkerRecord>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SKIP_MARKERS);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      logger.info("Failed to get skip markers:", error);
+      return {};
+    }
+  }
+
+  static async get(title: string): Promise<SkipMarkerRecord | null> {
+    const allMarkers = await this.getAll();
+    return allMarkers[normalizeTitle(title)] || null;
+  }
+
+  static async save(title: string, record: SkipMarkerRecord): Promise<void> {
+    const key = normalizeTitle(title);
+    if (!key) return;
+    await serializeWrite(STORAGE_KEYS.SKIP_MARKERS, async () => {
+      const allMarkers = await this.getAll();
+      allMarkers[key] = { ...record, updatedAt: Date.now() };
+      await AsyncStorage.setItem(STORAGE_KEYS.SKIP_MARKERS, JSON.stringify(allMarkers));
+    });
+  }
+
+  static async clearAll(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEYS.SKIP_MARKERS);
+  }
+}
+
+// --- SourceHealthManager (Uses AsyncStorage) ---
+// 播放源健康记录按 source 保存在本地，重启后仍然参与播放源排序
+export class SourceHealthManager {
+  static async getAll(): Promise<Record<string, SourceHealthRecord>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SOURCE_HEALTH);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      logger.info("Failed to get source health:", error);
+      return {};
+    }
+  }
+
+  static async record(source: string, event: SourceHealthEvent): Promise<SourceHealthRecord> {
+    return serializeWrite(STORAGE_KEYS.SOURCE_HEALTH, async () => {
+      const allRecords = await this.getAll();
+      const record = applySourceHealthEvent(allRecords[source], event);
+      allRecords[source] = record;
+      await AsyncStorage.setItem(STORAGE_KEYS.SOURCE_HEALTH, JSON.stringify(allRecords));
+      return record;
+    });
+  }
+
+  static async clearAll(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEYS.SOURCE_HEALTH);
+  }
+}
+
 // --- PlayRecordManager (Dynamic: API or LocalStorage) ---
 export class PlayRecordManager {
   private static getStorageType() {
@@ -325,6 +430,111 @@ export class SearchHistoryManager {
   }
 }
 
+// --- LiveMirrorManager (Uses AsyncStorage) ---
+// 记录每个直播频道上次播放成功的镜像地址
+export class LiveMirrorManager {
+  static async getAll(): Promise<Record<string, string>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LIVE_MIRRORS);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      logger.info("Failed to get live mirrors:", error);
+      return {};
+    }
+  }
+
+  static async save(channelKey: string, url: string): Promise<void> {
+    try {
+      const allMirrors = await this.getAll();
+      if (allMirrors[channelKey] === url) return;
+      allMirrors[channelKey] = url;
+      await AsyncStorage.setItem(STORAGE_KEYS.LIVE_MIRRORS, JSON.stringify(allMirrors));
+    } catch (error) {
+      logger.warn("Failed to save live mirror:", error);
+    }
+  }
+}
+
+// --- LiveChannelManager (LocalStorage, synced to API) ---
+// 直播频道的收藏、最近观看与上次观看的频道，使用 getChannelKey 生成的标识
+const MAX_RECENT_CHANNELS = 20;
+
+export class LiveChannelManager {
+  private static getStorageType() {
+    return storageConfig.getStorageType();
+  }
+
+  private static async getLocal(): Promise<LiveChannelState> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LIVE_CHANNELS);
+      return data ? JSON.parse(data) : { favorites: [], recent: [] };
+    } catch (error) {
+      logger.info("Failed to get local live channel state:", error);
+      return { favorites: [], recent: [] };
+    }
+  }
+
+  static async get(): Promise<LiveChannelState> {
+    if (this.getStorageType() === "localstorage") {
+      return this.getLocal();
+    }
+    try {
+      const state = await api.getLiveChannelState();
+      if (state) {
+        const normalized: LiveChannelState = {
+          favorites: state.favorites || [],
+          recent: state.recent || [],
+          lastChannel: state.lastChannel,
+        };
+        await serializeWrite(STORAGE_KEYS.LIVE_CHANNELS, () =>
+          AsyncStorage.setItem(STORAGE_KEYS.LIVE_CHANNELS, JSON.stringify(normalized)),
+        );
+        return normalized;
+      }
+    } catch (error) {
+      logger.info("Failed to get live channel state from server, using local copy:", error);
+    }
+    return this.getLocal();
+  }
+
+  // 读取、修改、写入在队列中依次执行，连续操作时不会丢失更新；本地始终保留一份，服务器不可用时仍能恢复
+  private static update(updater: (state: LiveChannelState) => LiveChannelState): Promise<LiveChannelState> {
+    return serializeWrite(STORAGE_KEYS.LIVE_CHANNELS, async () => {
+      const newState = updater(await this.getLocal());
+      try {
+        await AsyncStorage.setItem(STORAGE_KEYS.LIVE_CHANNELS, JSON.stringify(newState));
+      } catch (error) {
+        logger.warn("Failed to save live channel state:", error);
+      }
+      if (this.getStorageType() !== "localstorage") {
+        try {
+          await api.saveLiveChannelState(newState);
+        } catch (error) {
+          logger.info("Failed to sync live channel state to server:", error);
+        }
+      }
+      return newState;
+    });
+  }
+
+  static toggleFavorite(channelKey: string): Promise<LiveChannelState> {
+    return this.update((state) => ({
+      ...state,
+      favorites: state.favorites.includes(channelKey)
+        ? state.favorites.filter((key) => key !== channelKey)
+        : [...state.favorites, channelKey],
+    }));
+  }
+
+  static addRecent(channelKey: string): Promise<LiveChannelState> {
+    return this.update((state) => ({
+      ...state,
+      recent: [channelKey, ...state.recent.filter((key) => key !== channelKey)].slice(0, MAX_RECENT_CHANNELS),
+      lastChannel: channelKey,
+    }));
+  }
+}
+
 // --- SettingsManager (Uses AsyncStorage) ---
 export class SettingsManager {
   static async get(): Promise<AppSettings> {
@@ -335,7 +545,7 @@ export class SettingsManager {
         enabledAll: true,
         sources: {},
       },
-      m3uUrl: "",
+      liveSources: [],
     };
     try {
       const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
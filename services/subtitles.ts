@@ -0,0 +1,292 @@
+import Logger from "@/utils/Logger";
+import { parseMediaPlaylistSegments } from "./m3u8";
+
+const logger = Logger.withTag("Subtitles");
+
+const SUBTITLE_FETCH_TIMEOUT = 30000; // 30 seconds，HLS 字幕需要下载多个分片
+const HLS_SEGMENT_CONCURRENCY = 4;
+// 查找当前字幕时向前回溯的最大时长，超过该时长的字幕不再视为仍在显示
+const MAX_CUE_DURATION = 60 * 1000;
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export interface SubtitleCue {
+  start: number; // 开始时间（毫秒）
+  end: number; // 结束时间（毫秒）
+  text: string;
+}
+
+export interface SubtitleTrack {
+  label: string;
+  url: string;
+}
+
+/**
+ * 解析 SRT / WebVTT 时间戳：00:01:02,345、00:01:02.345 或 01:02.345
+ */
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours, 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    parseInt(fraction.padEnd(3, "0"), 10)
+  );
+};
+
+/**
+ * 解析 ASS 时间戳：0:01:02.34（百分之一秒）
+ */
+const parseAssTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction = "0"] = match;
+  return (
+    parseInt(hours, 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    Math.round(parseFloat(`0.${fraction}`) * 1000)
+  );
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+// 去掉 <i>、<font>、<v 说话人>、<00:00:01.000> 等标签以及 SRT 中夹带的 {\an8} 样式
+const stripTags = (text: string) => decodeEntities(text.replace(/<[^>]*>/g, "").replace(/\{\\[^}]*\}/g, "")).trim();
+
+const normalizeText = (text: string) => text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+const sortCues = (cues: SubtitleCue[]) => cues.sort((a, b) => a.start - b.start || a.end - b.end);
+
+/**
+ * 解析 SRT 与 WebVTT，两者都是以空行分隔、包含 "-->" 时间行的字幕块
+ */
+const parseTimedBlocks = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = normalizeText(content).split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    // WEBVTT 头、NOTE、STYLE、REGION 等块没有时间行
+    if (timingIndex === -1) {
+      continue;
+    }
+    const [startPart, endPart = ""] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startPart);
+    // WebVTT 时间行后面可能跟着 align:start position:10% 等设置
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] || "");
+    if (start === null || end === null || end <= start) {
+      continue;
+    }
+    const text = stripTags(lines.slice(timingIndex + 1).join("\n"));
+    if (text) {
+      cues.push({ start, end, text });
+    }
+  }
+  return sortCues(cues);
+};
+
+export const parseSrt = (content: string): SubtitleCue[] => parseTimedBlocks(content);
+
+export const parseVtt = (content: string): SubtitleCue[] => parseTimedBlocks(content);
+
+/**
+ * 解析 HLS WebVTT 分片头部的 X-TIMESTAMP-MAP=MPEGTS:900000,LOCAL:00:00:00.000
+ * @returns 字幕时间加上这个偏移（毫秒）即为 MPEG-TS 时间戳；没有声明时返回 undefined
+ */
+export const parseTimestampMap = (content: string): number | undefined => {
+  const match = normalizeText(content).match(/^X-TIMESTAMP-MAP=(.*)$/m);
+  const mpegts = match?.[1].match(/MPEGTS:(\d+)/);
+  if (!match || !mpegts) {
+    return undefined;
+  }
+  const local = match[1].match(/LOCAL:([\d:.]+)/);
+  return Math.round(parseInt(mpegts[1], 10) / 90) - ((local && parseTimestamp(local[1])) || 0);
+};
+
+/**
+ * 解析 ASS / SSA 的 [Events] 段，只保留文本，忽略样式与特效
+ */
+export const parseAss = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let format = ["layer", "start", "end", "style", "name", "marginl", "marginr", "marginv", "effect", "text"];
+
+  for (const rawLine of normalizeText(content).split("\n")) {
+    const line = rawLine.trim();
+    if (line.startsWith("[")) {
+      inEvents = line.toLowerCase() === "[events]";
+      continue;
+    }
+    if (!inEvents) {
+      continue;
+    }
+    if (line.toLowerCase().startsWith("format:")) {
+      format = line
+        .substring("format:".length)
+        .split(",")
+        .map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (!line.toLowerCase().startsWith("dialogue:")) {
+      continue;
+    }
+
+    // Text 是最后一个字段，本身可能包含逗号
+    const fields = line.substring("dialogue:".length).split(",");
+    const values = fields.slice(0, format.length - 1);
+    values.push(fields.slice(format.length - 1).join(","));
+
+    const start = parseAssTimestamp(values[format.indexOf("start")] || "");
+    const end = parseAssTimestamp(values[format.indexOf("end")] || "");
+    if (start === null || end === null || end <= start) {
+      continue;
+    }
+    const text = (values[format.indexOf("text")] || "")
+      .replace(/\{[^}]*\}/g, "")
+      .replace(/\\[Nn]/g, "\n")
+      .replace(/\\h/g, " ")
+      .trim();
+    if (text) {
+      cues.push({ start, end, text });
+    }
+  }
+  return sortCues(cues);
+};
+
+/**
+ * 根据内容判断字幕格式，内容无法判断时参考文件扩展名
+ */
+export const detectSubtitleFormat = (content: string, url?: string): SubtitleFormat => {
+  const head = normalizeText(content).trimStart().substring(0, 200);
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\[(Script Info|V4\+? Styles|Events)\]/im.test(head)) return "ass";
+
+  const extension = url?.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (extension === "vtt") return "vtt";
+  if (extension === "ass" || extension === "ssa") return "ass";
+  return "srt";
+};
+
+export const parseSubtitles = (content: string, format?: SubtitleFormat): SubtitleCue[] => {
+  switch (format || detectSubtitleFormat(content)) {
+    case "ass":
+      return parseAss(content);
+    case "vtt":
+      return parseVtt(content);
+    case "srt":
+    default:
+      return parseSrt(content);
+  }
+};
+
+const fetchText = async (url: string, signal: AbortSignal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch subtitles: ${response.status}`);
+  }
+  return { content: await response.text(), url: response.url || url };
+};
+
+/**
+ * HLS 字幕组是分片的 WebVTT，逐个下载后合并，跨分片重复的字幕只保留一条
+ * 各分片按 X-TIMESTAMP-MAP 对齐到视频的时间戳，播放位置从第一个分片的时间戳开始计算
+ */
+const fetchHlsSubtitleCues = async (content: string, url: string, signal: AbortSignal) => {
+  const segments = parseMediaPlaylistSegments(content, url);
+  const cues: SubtitleCue[] = [];
+  let baseOffset: number | undefined;
+  for (let i = 0; i < segments.length; i += HLS_SEGMENT_CONCURRENCY) {
+    const batch = await Promise.all(
+      segments.slice(i, i + HLS_SEGMENT_CONCURRENCY).map((segment) => fetchText(segment, signal)),
+    );
+    batch.forEach((segment) => {
+      const offset = parseTimestampMap(segment.content);
+      baseOffset ??= offset;
+      const shift = offset !== undefined && baseOffset !== undefined ? offset - baseOffset : 0;
+      cues.push(
+        ...parseVtt(segment.content).map((cue) => ({ ...cue, start: cue.start + shift, end: cue.end + shift })),
+      );
+    });
+  }
+
+  const seen = new Set<string>();
+  return sortCues(cues).filter((cue) => {
+    const key = `${cue.start}-${cue.end}-${cue.text}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * 下载并解析外挂字幕，也支持 HLS 主播放列表中声明的字幕组（WebVTT 媒体播放列表）
+ * @throws 网络错误或文件中没有可用字幕时抛出异常
+ */
+export const fetchSubtitles = async (url: string): Promise<SubtitleCue[]> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SUBTITLE_FETCH_TIMEOUT);
+  try {
+    const { content, url: finalUrl } = await fetchText(url, controller.signal);
+    const cues = normalizeText(content).trimStart().startsWith("#EXTM3U")
+      ? await fetchHlsSubtitleCues(content, finalUrl, controller.signal)
+      : parseSubtitles(content, detectSubtitleFormat(content, url));
+    if (cues.length === 0) {
+      throw new Error("No subtitle cues found");
+    }
+    logger.info(`Loaded ${cues.length} subtitle cues from ${url}`);
+    return cues;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * 查找指定播放位置正在显示的字幕（cues 需按开始时间升序排列）
+ * @returns 当前字幕文本，多条重叠时按开始时间换行拼接；没有字幕时返回空字符串
+ */
+export const findActiveCueText = (cues: SubtitleCue[], positionMillis: number): string => {
+  // 二分查找第一条开始时间晚于当前位置的字幕
+  let low = 0;
+  let high = cues.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= positionMillis) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const active: string[] = [];
+  for (let i = low - 1; i >= 0 && positionMillis - cues[i].start <= MAX_CUE_DURATION; i--) {
+    if (cues[i].end > positionMillis) {
+      active.unshift(cues[i].text);
+    }
+  }
+  return active.join("\n");
+};
+
+/**
+ * 从字幕地址生成默认显示名称
+ */
+export const getSubtitleLabel = (url: string) => {
+  const fileName = url.split(/[?#]/)[0].split("/").pop() || "";
+  try {
+    return decodeURIComponent(fileName) || url;
+  } catch {
+    return fileName || url;
+  }
+};
@@ -0,0 +1,35 @@
+/**
+ * 限制并发数的任务池：同时最多运行 concurrency 个任务，其余按加入顺序排队
+ */
+export interface TaskPool {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+export const createTaskPool = (concurrency: number): TaskPool => {
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= concurrency) return;
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return {
+    run: (task) =>
+      new Promise((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        });
+        next();
+      }),
+  };
+};
@@ -5,15 +5,16 @@ import Logger from '@/utils/Logger';
 const logger = Logger.withTag('TCPHttpServer');
 
 const PORT = 12346;
+const LOOPBACK_HOST = '127.0.0.1';
 
-interface HttpRequest {
+export interface HttpRequest {
   method: string;
   url: string;
   headers: { [key: string]: string };
   body: string;
 }
 
-interface HttpResponse {
+export interface HttpResponse {
   statusCode: number;
   headers: { [key: string]: string };
   body: string;
@@ -21,13 +22,23 @@ interface HttpResponse {
 
 type RequestHandler = (request: HttpRequest) => HttpResponse | Promise<HttpResponse>;
 
+interface TCPHttpServerOptions {
+  port?: number;
+  // 监听 127.0.0.1 时只对本机开放，不需要局域网地址
+  host?: string;
+}
+
 class TCPHttpServer {
   private server: TcpSocket.Server | null = null;
   private isRunning = false;
   private requestHandler: RequestHandler | null = null;
+  private port: number;
+  private host: string;
 
-  constructor() {
+  constructor(options: TCPHttpServerOptions = {}) {
     this.server = null;
+    this.port = options.port ?? PORT;
+    this.host = options.host ?? '0.0.0.0';
   }
 
   private parseHttpRequest(data: string): HttpRequest | null {
@@ -99,11 +110,15 @@ class TCPHttpServer {
   }
 
   public async start(): Promise<string> {
-    const netState = await NetInfo.fetch();
     let ipAddress: string | null = null;
-    
-    if (netState.type === 'wifi' || netState.type === 'ethernet') {
-      ipAddress = (netState.details as any)?.ipAddress ?? null;
+
+    if (this.host === LOOPBACK_HOST) {
+      ipAddress = LOOPBACK_HOST;
+    } else {
+      const netState = await NetInfo.fetch();
+      if (netState.type === 'wifi' || netState.type === 'ethernet') {
+        ipAddress = (netState.details as any)?.ipAddress ?? null;
+      }
     }
 
     if (!ipAddress) {
@@ -112,7 +127,7 @@ class TCPHttpServer {
 
     if (this.isRunning) {
       logger.debug('[TCPHttpServer] Server is already running.');
-      return `http://${ipAddress}:${PORT}`;
+      return `http://${ipAddress}:${this.port}`;
     }
 
     return new Promise((resolve, reject) => {
@@ -166,10 +181,10 @@ class TCPHttpServer {
           });
         });
 
-        this.server.listen({ port: PORT, host: '0.0.0.0' }, () => {
-          logger.debug(`[TCPHttpServer] Server listening on ${ipAddress}:${PORT}`);
+        this.server.listen({ port: this.port, host: this.host }, () => {
+          logger.debug(`[TCPHttpServer] Server listening on ${ipAddress}:${this.port}`);
           this.isRunning = true;
-          resolve(`http://${ipAddress}:${PORT}`);
+          resolve(`http://${ipAddress}:${this.port}`);
         });
 
         this.server.on('error', (error: Error) => {
@@ -0,0 +1,165 @@
+/**
+ * 剧名归一化与匹配：不同播放源对同一部剧的命名常有差异，例如“庆余年 第二季”与“庆余年2”
+ */
+
+// 名称的相似度达到该值时视为同一部剧，用于容忍个别错字或多余的字
+const SIMILARITY_THRESHOLD = 0.85;
+// 年份相差不超过该值时视为同一部剧，不同播放源标注的可能是首播或上映年份
+const YEAR_TOLERANCE = 1;
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+// 第一组是季数前需要保留的字符，第二组是季数
+const SEASON_PATTERNS = [
+  /()第\s*([0-9]+|[零〇一二两三四五六七八九十]+)\s*[季部]/,
+  /()season\s*([0-9]+)/i,
+  /(^|[^a-z])s([0-9]{1,2})(?![0-9])/i,
+];
+
+export interface ParsedTitle {
+  name: string; // 去掉季数和年份后归一化的名称
+  season?: number;
+  year?: number;
+}
+
+export interface SearchResultCluster<T> {
+  key: string;
+  title: string;
+  results: T[]; // 各播放源的结果，第一个作为代表
+}
+
+/**
+ * 归一化剧名：去掉括号中的注释（如【蓝光】、(2023)）、空白和标点，统一大小写与全半角
+ */
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[[(（【][^\])）】]*[\])）】]/g, "")
+    .replace(/[\s~`!@#$%^&*\-_+=|\\/:;'",.?<>·・，。：；！？、“”‘’《》—…]/g, "");
+
+/**
+ * 解析中文数字，支持一到九十九
+ */
+export const parseChineseNumber = (text: string): number | undefined => {
+  if (/^[0-9]+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  const match = text.match(/^([一二两三四五六七八九])?十([一二三四五六七八九])?$/);
+  if (match) {
+    return (match[1] ? CHINESE_DIGITS[match[1]] : 1) * 10 + (match[2] ? CHINESE_DIGITS[match[2]] : 0);
+  }
+  return CHINESE_DIGITS[text];
+};
+
+/**
+ * 拆分剧名中的季数和年份，例如“庆余年 第二季 (2024)”得到 { name: "庆余年", season: 2, year: 2024 }
+ */
+export const parseTitle = (title: string): ParsedTitle => {
+  let rest = title.normalize("NFKC").toLowerCase();
+  let season: number | undefined;
+  let year: number | undefined;
+
+  const yearMatch = rest.match(/[[(（【]\s*((?:19|20)[0-9]{2})\s*[\])）】]/) || rest.match(/\s((?:19|20)[0-9]{2})\s*$/);
+  if (yearMatch) {
+    year = parseInt(yearMatch[1], 10);
+    rest = rest.replace(yearMatch[0], " ");
+  }
+
+  for (const pattern of SEASON_PATTERNS) {
+    rest = rest.replace(pattern, (match, prefix: string, value: string) => {
+      season = parseChineseNumber(value) || undefined;
+      return season ? `${prefix} ` : match;
+    });
+    if (season) break;
+  }
+
+  let name = normalizeTitle(rest);
+  // 结尾的一两位数字视为季数，例如“庆余年2”；整个名称都是数字时保留，例如“1917”
+  if (season === undefined) {
+    const trailing = name.match(/^(.*[^0-9])([0-9]{1,2})$/);
+    if (trailing) {
+      name = trailing[1];
+      season = parseInt(trailing[2], 10);
+    }
+  }
+  return { name, season, year };
+};
+
+/**
+ * 名称相似度（0-1），按相邻两个字的组合计算 Dice 系数
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.substring(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let overlap = 0;
+  aBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, bBigrams.get(bigram) || 0);
+  });
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+};
+
+/**
+ * 判断两个剧名是否指同一部剧：季数相同（没有季数视为第一季），名称相同或足够相似，标注了年份时年份相近
+ * @param yearA 播放源单独提供的年份，剧名中没有年份时使用
+ */
+export const isSameTitle = (a: string, b: string, yearA?: string | number, yearB?: string | number): boolean => {
+  const parsedA = parseTitle(a);
+  const parsedB = parseTitle(b);
+  if ((parsedA.season ?? 1) !== (parsedB.season ?? 1)) {
+    return false;
+  }
+  const fullYearA = parsedA.year ?? (parseInt(String(yearA ?? ""), 10) || undefined);
+  const fullYearB = parsedB.year ?? (parseInt(String(yearB ?? ""), 10) || undefined);
+  if (fullYearA && fullYearB && Math.abs(fullYearA - fullYearB) > YEAR_TOLERANCE) {
+    return false;
+  }
+  return titleSimilarity(parsedA.name, parsedB.name) >= SIMILARITY_THRESHOLD;
+};
+
+/**
+ * 把不同播放源的搜索结果合并成每部剧一项，保持首次出现的顺序
+ */
+export const clusterSearchResults = <T extends { title: string; year?: string }>(
+  results: T[],
+): SearchResultCluster<T>[] => {
+  const clusters: SearchResultCluster<T>[] = [];
+  for (const result of results) {
+    const cluster = clusters.find((item) =>
+      isSameTitle(item.results[0].title, result.title, item.results[0].year, result.year),
+    );
+    if (cluster) {
+      cluster.results.push(result);
+    } else {
+      clusters.push({
+        key: `${clusters.length}-${normalizeTitle(result.title)}`,
+        title: result.title,
+        results: [result],
+      });
+    }
+  }
+  return clusters;
+};
@@ -0,0 +1,141 @@
+import Logger from "@/utils/Logger";
+import { Channel, M3UPlaylist } from "./m3u";
+import { CatchupInfo } from "./catchup";
+
+const logger = Logger.withTag("Xtream");
+
+const XTREAM_FETCH_TIMEOUT = 15000; // 15 seconds
+
+export interface XtreamCredentials {
+  server: string; // 例如 http://provider.example.com:8080
+  username: string;
+  password: string;
+}
+
+export interface XtreamUserInfo {
+  auth: number;
+  status?: string;
+  exp_date?: string | null;
+  allowed_output_formats?: string[];
+}
+
+export interface XtreamCategory {
+  category_id: string;
+  category_name: string;
+  parent_id?: number;
+}
+
+export interface XtreamLiveStream {
+  num?: number;
+  name: string;
+  stream_id: number;
+  stream_icon?: string;
+  epg_channel_id?: string | null;
+  category_id?: string | null;
+  tv_archive?: number;
+  tv_archive_duration?: number | string;
+}
+
+const normalizeServer = (server: string) => {
+  const trimmed = server.trim().replace(/\/+$/, "");
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+};
+
+const credentialsQuery = ({ username, password }: XtreamCredentials) =>
+  `username=${encodeURIComponent(username)}&password=${encodeURIComponent(password)}`;
+
+export const buildXtreamApiUrl = (credentials: XtreamCredentials, action?: string) =>
+  `${normalizeServer(credentials.server)}/player_api.php?${credentialsQuery(credentials)}${
+    action ? `&action=${action}` : ""
+  }`;
+
+export const buildXtreamEpgUrl = (credentials: XtreamCredentials) =>
+  `${normalizeServer(credentials.server)}/xmltv.php?${credentialsQuery(credentials)}`;
+
+export const buildXtreamLiveUrl = (credentials: XtreamCredentials, streamId: number, extension = "m3u8") =>
+  `${normalizeServer(credentials.server)}/live/${encodeURIComponent(credentials.username)}/${encodeURIComponent(
+    credentials.password,
+  )}/${streamId}.${extension}`;
+
+/**
+ * Xtream 回看地址模板，开始时间使用设备本地时间，时长以分钟为单位
+ */
+const buildXtreamCatchupSource = (credentials: XtreamCredentials, streamId: number) =>
+  `${normalizeServer(credentials.server)}/timeshift/${encodeURIComponent(credentials.username)}/${encodeURIComponent(
+    credentials.password,
+  )}/{duration:60}/\${(b)yyyy-MM-dd:HH-mm}/${streamId}.ts`;
+
+const fetchXtream = async <T>(credentials: XtreamCredentials, action?: string): Promise<T> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), XTREAM_FETCH_TIMEOUT);
+  try {
+    const response = await fetch(buildXtreamApiUrl(credentials, action), { signal: controller.signal });
+    if (!response.ok) {
+      // 不记录完整地址，避免把密码写进日志
+      throw new Error(`Xtream ${action || "auth"} request failed: ${response.status}`);
+    }
+    return response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * 将 Xtream 直播流转换为 Channel，分类名作为分组
+ */
+export const xtreamStreamToChannel = (
+  stream: XtreamLiveStream,
+  categoryNames: Record<string, string>,
+  credentials: XtreamCredentials,
+  extension = "m3u8",
+): Channel => {
+  const url = buildXtreamLiveUrl(credentials, stream.stream_id, extension);
+  const archiveDays = Number(stream.tv_archive_duration) || 0;
+  const catchup: CatchupInfo | undefined =
+    stream.tv_archive && archiveDays > 0
+      ? { type: "default", source: buildXtreamCatchupSource(credentials, stream.stream_id), days: archiveDays }
+      : undefined;
+
+  return {
+    id: url,
+    name: stream.name?.trim() || "Unknown",
+    url,
+    logo: stream.stream_icon || "",
+    group: (stream.category_id && categoryNames[stream.category_id]) || "Default",
+    number: stream.num && stream.num > 0 ? stream.num : undefined,
+    tvgId: stream.epg_channel_id || undefined,
+    catchup,
+  };
+};
+
+/**
+ * 通过 player_api.php 获取直播分类与频道，并转换为与 M3U 相同的播放列表结构
+ */
+export const fetchXtreamPlaylist = async (credentials: XtreamCredentials): Promise<M3UPlaylist> => {
+  try {
+    const { user_info: userInfo } = await fetchXtream<{ user_info?: XtreamUserInfo }>(credentials);
+    if (!userInfo || Number(userInfo.auth) !== 1) {
+      throw new Error("Xtream authentication failed");
+    }
+    const formats = userInfo.allowed_output_formats || [];
+    const extension = formats.length === 0 || formats.includes("m3u8") ? "m3u8" : formats[0];
+
+    const [categories, streams] = await Promise.all([
+      fetchXtream<XtreamCategory[]>(credentials, "get_live_categories"),
+      fetchXtream<XtreamLiveStream[]>(credentials, "get_live_streams"),
+    ]);
+    const categoryNames: Record<string, string> = {};
+    (categories || []).forEach((category) => {
+      categoryNames[category.category_id] = category.category_name;
+    });
+
+    const channels = (streams || []).map((stream) =>
+      xtreamStreamToChannel(stream, categoryNames, credentials, extension),
+    );
+    logger.info(`Loaded ${channels.length} live streams from ${normalizeServer(credentials.server)}`);
+    return { channels, epgUrls: [buildXtreamEpgUrl(credentials)] };
+  } catch (error) {
+    logger.info(`Error fetching Xtream playlist from ${normalizeServer(credentials.server)}:`, error);
+    return { channels: [], epgUrls: [] };
+  }
+};
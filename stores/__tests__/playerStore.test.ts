@@ -0,0 +1,65 @@
+import usePlayerStore from "../playerStore";
+import { useSettingsStore } from "../settingsStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("@/services/hlsPlaylistServer", () => ({ hlsPlaylistServer: { serve: jest.fn() } }));
+
+const endOfEpisode = (isPlaying: boolean, didJustFinish: boolean) =>
+  ({
+    isLoaded: true,
+    isPlaying,
+    isBuffering: false,
+    shouldPlay: isPlaying,
+    didJustFinish,
+    positionMillis: 60000,
+    durationMillis: 60000,
+  }) as any;
+
+describe("睡眠定时", () => {
+  const playEpisode = jest.fn();
+  const pauseAsync = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pauseAsync.mockResolvedValue(undefined);
+    useSettingsStore.setState({ autoplay: { ...useSettingsStore.getState().autoplay, enabled: true } });
+    usePlayerStore.setState({
+      playEpisode,
+      _savePlayRecord: jest.fn(),
+      videoRef: { current: { pauseAsync } } as any,
+      playingDetail: { source: "a", id: 1, title: "繁花" } as any,
+      episodes: [
+        { url: "http://example.com/1.m3u8", title: "第 1 集" },
+        { url: "http://example.com/2.m3u8", title: "第 2 集" },
+      ],
+      currentEpisodeIndex: 0,
+      status: endOfEpisode(true, false),
+      isLoading: false,
+      _loadStartedAt: undefined,
+      isAutoAdvanceCancelled: false,
+      showStillWatchingPrompt: false,
+      isAsleep: false,
+      sleepTimer: "episode",
+    });
+  });
+
+  it("本集结束时暂停，暂停后的状态更新不会自动播放下一集", () => {
+    const { handlePlaybackStatusUpdate } = usePlayerStore.getState();
+    handlePlaybackStatusUpdate(endOfEpisode(true, true));
+    handlePlaybackStatusUpdate(endOfEpisode(false, false));
+
+    expect(pauseAsync).toHaveBeenCalled();
+    expect(playEpisode).not.toHaveBeenCalled();
+    expect(usePlayerStore.getState().isAsleep).toBe(true);
+    expect(usePlayerStore.getState().sleepTimer).toBeNull();
+  });
+
+  it("没有设置睡眠定时时本集结束后播放下一集", () => {
+    usePlayerStore.setState({ sleepTimer: null });
+    usePlayerStore.getState().handlePlaybackStatusUpdate(endOfEpisode(true, true));
+
+    expect(playEpisode).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,117 @@
+import useQueueStore, { QueueItem, findNextQueueItem } from "../queueStore";
+import usePlayerStore from "../playerStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("@/services/hlsPlaylistServer", () => ({ hlsPlaylistServer: { serve: jest.fn() } }));
+
+const createItem = (id: string, title: string, source = "a"): QueueItem => ({ source, id, title });
+
+describe("useQueueStore", () => {
+  beforeEach(() => {
+    useQueueStore.getState().clear();
+  });
+
+  it("setQueue 去除同一部影片并从指定位置开始", () => {
+    useQueueStore
+      .getState()
+      .setQueue([createItem("1", "庆余年 第二季"), createItem("2", "庆余年2", "b"), createItem("3", "繁花")], 1);
+
+    const { items, currentIndex } = useQueueStore.getState();
+    expect(items.map((item) => item.id)).toEqual(["1", "3"]);
+    expect(currentIndex).toBe(1);
+  });
+
+  it("setQueue 传入空列表时表示没有开始播放", () => {
+    useQueueStore.getState().setQueue([]);
+    expect(useQueueStore.getState().currentIndex).toBe(-1);
+  });
+
+  it("addItem 不重复添加同一部影片", () => {
+    const { addItem } = useQueueStore.getState();
+    expect(addItem(createItem("1", "繁花"))).toBe(true);
+    expect(addItem(createItem("1", "另一个名字"))).toBe(false);
+    expect(addItem(createItem("9", "繁花 (2023)", "b"))).toBe(false);
+    expect(useQueueStore.getState().items).toHaveLength(1);
+  });
+
+  it("removeItem 删除其他项后当前项不变", () => {
+    useQueueStore.getState().setQueue([createItem("1", "甲"), createItem("2", "乙"), createItem("3", "丙")], 1);
+
+    useQueueStore.getState().removeItem(0);
+    expect(useQueueStore.getState().currentIndex).toBe(0);
+
+    useQueueStore.getState().removeItem(1);
+    const { items, currentIndex } = useQueueStore.getState();
+    expect(items.map((item) => item.id)).toEqual(["2"]);
+    expect(currentIndex).toBe(0);
+  });
+});
+
+describe("findNextQueueItem", () => {
+  const items = [createItem("1", "庆余年 第二季"), createItem("2", "繁花")];
+
+  it("正在播放的是当前项时返回下一项，换源后片名略有差异也能识别", () => {
+    expect(findNextQueueItem({ items, currentIndex: 0 }, "庆余年2")?.id).toBe("2");
+  });
+
+  it("正在播放其他影片或已是最后一项时返回 undefined", () => {
+    expect(findNextQueueItem({ items, currentIndex: 0 }, "庆余年")).toBeUndefined();
+    expect(findNextQueueItem({ items, currentIndex: 1 }, "繁花")).toBeUndefined();
+    expect(findNextQueueItem({ items, currentIndex: -1 }, "庆余年 第二季")).toBeUndefined();
+  });
+});
+
+describe("播放器中的播放队列", () => {
+  const loadVideo = jest.fn();
+  const playEpisode = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loadVideo.mockResolvedValue(undefined);
+    useQueueStore.getState().setQueue([createItem("1", "繁花"), createItem("2", "漫长的季节", "b")]);
+    usePlayerStore.setState({
+      loadVideo,
+      playEpisode,
+      playingDetail: { source: "a", id: 1, title: "繁花" } as any,
+      episodes: [
+        { url: "http://example.com/1.m3u8", title: "第 1 集" },
+        { url: "http://example.com/2.m3u8", title: "第 2 集" },
+      ],
+      currentEpisodeIndex: 0,
+      _isAdvancingQueue: false,
+    });
+  });
+
+  it("不是最后一集时播放下一集", () => {
+    usePlayerStore.getState().playNext();
+    expect(playEpisode).toHaveBeenCalledWith(1);
+    expect(loadVideo).not.toHaveBeenCalled();
+  });
+
+  it("最后一集结束后从头播放队列中的下一部", async () => {
+    usePlayerStore.setState({ currentEpisodeIndex: 1 });
+    usePlayerStore.getState().playNext();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(useQueueStore.getState().currentIndex).toBe(1);
+    expect(loadVideo).toHaveBeenCalledWith({ source: "b", id: "2", title: "漫长的季节", episodeIndex: 0, position: 0 });
+  });
+
+  it("正在切换到下一部时不重复切换", () => {
+    usePlayerStore.setState({ currentEpisodeIndex: 1, _isAdvancingQueue: true });
+    usePlayerStore.getState().playNext();
+    expect(loadVideo).not.toHaveBeenCalled();
+  });
+
+  it("playQueueItem 播放指定项并关闭队列面板", async () => {
+    usePlayerStore.setState({ showQueueModal: true });
+    await usePlayerStore.getState().playQueueItem(1);
+
+    expect(useQueueStore.getState().currentIndex).toBe(1);
+    expect(usePlayerStore.getState().showQueueModal).toBe(false);
+    expect(usePlayerStore.getState()._isAdvancingQueue).toBe(false);
+    expect(loadVideo).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,14 +1,30 @@
 import { create } from "zustand";
 import { SearchResult, api } from "@/services/api";
-import { getResolutionFromM3U8, pingM3U8Url } from "@/services/m3u8";
+import { getResolutionFromM3U8 } from "@/services/m3u8";
+import { measureThroughput } from "@/services/speedTest";
+import { createTaskPool } from "@/services/taskPool";
+import { isSameTitle } from "@/services/titleMatch";
+import { mapEpisodeIndex } from "@/services/episodeAlignment";
 import { useSettingsStore } from "@/stores/settingsStore";
-import { FavoriteManager } from "@/services/storage";
+import { FavoriteManager, SourceHealthManager } from "@/services/storage";
+import {
+  SourceHealthEvent,
+  SourceHealthRecord,
+  applySourceHealthEvent,
+  combineSourceScore,
+  compareSources,
+  isRecentlyFailed,
+} from "@/services/sourceHealth";
 import Logger from "@/utils/Logger";
 
 const logger = Logger.withTag("DetailStore");
 
-// 计算视频源的综合评分（基于分辨率和网络延迟）
-const calculateVideoScore = (resolution: string, pingTime: number): number => {
+// 同时测速的播放源数量，避免几十个源一起下载分片互相抢占带宽
+const PROBE_CONCURRENCY = 4;
+const PROBE_TIMEOUT = 10000; // 10 seconds
+
+// 计算视频源的综合评分（基于分辨率和分片下载速度）
+const calculateVideoScore = (resolution: string, throughput: number): number => {
   let score = 0;
 
   // 分辨率评分 (60% 权重)
@@ -23,31 +39,93 @@ const calculateVideoScore = (resolution: string, pingTime: number): number => {
   })();
   score += qualityScore * 0.6;
 
-  // 网络延迟评分 (40% 权重)
-  const pingScore = (() => {
-    if (pingTime <= 0) return 30; // 测速失败给默认分
+  // 下载速度评分 (40% 权重)
+  const throughputScore = (() => {
+    if (throughput <= 0) return 30; // 测速失败给默认分
 
-    // 延迟越低分数越高
-    // 假设 50ms 为满分，1000ms 为0分
-    const minPing = 50;
-    const maxPing = 1000;
+    // 按对数计算，速度翻倍加分相同
+    // 假设 4 MB/s 为满分，64 KB/s 为0分
+    const minThroughput = 64;
+    const maxThroughput = 4096;
 
-    if (pingTime <= minPing) return 100;
-    if (pingTime >= maxPing) return 0;
+    if (throughput >= maxThroughput) return 100;
+    if (throughput <= minThroughput) return 0;
 
-    return ((maxPing - pingTime) / (maxPing - minPing)) * 100;
+    return (Math.log(throughput / minThroughput) / Math.log(maxThroughput / minThroughput)) * 100;
   })();
-  score += pingScore * 0.4;
+  score += throughputScore * 0.4;
 
   return Math.round(score * 100) / 100; // 保留两位小数
 };
 
 export type SearchResultWithResolution = SearchResult & {
   resolution?: string | null;
-  pingTime?: number; // 网络延迟（毫秒）
+  throughput?: number; // 分片下载速度（KB/s）
   score?: number; // 综合评分（0-100）
+  isProbing?: boolean; // 正在检测分辨率和下载速度
+};
+
+// 检测播放源第一集的分辨率和下载速度，超时后放弃未完成的检测
+const probeSource = async (searchResult: SearchResult, signal: AbortSignal) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener("abort", abort);
+  const timeoutId = setTimeout(abort, PROBE_TIMEOUT);
+
+  const episodeUrl = searchResult.episodes[0];
+  try {
+    // 并发执行分辨率检测和下载测速
+    const [resolution, throughput] = await Promise.all([
+      getResolutionFromM3U8(episodeUrl, controller.signal).catch((e) => {
+        if ((e as Error).name !== "AbortError") {
+          logger.info(`Failed to get resolution for ${searchResult.source_name}`, e);
+        }
+        return null;
+      }),
+      measureThroughput(episodeUrl, controller.signal).catch((e) => {
+        if ((e as Error).name !== "AbortError") {
+          logger.info(`Failed to measure throughput of ${searchResult.source_name}`, e);
+        }
+        return null;
+      }),
+    ]);
+    return { resolution, throughput: throughput ?? undefined };
+  } finally {
+    clearTimeout(timeoutId);
+    signal.removeEventListener("abort", abort);
+  }
 };
 
+// 测速评分与播放源的历史表现综合后的评分
+const getSourceScore = (
+  resolution: string | null | undefined,
+  throughput: number | undefined,
+  health: SourceHealthRecord | undefined,
+) =>
+  combineSourceScore(
+    resolution || throughput ? calculateVideoScore(resolution || "", throughput || 0) : undefined,
+    health,
+  );
+
+// 重新计算评分并排序，经常播放失败的播放源会排到最后
+const rankResults = (results: SearchResultWithResolution[], sourceHealth: Record<string, SourceHealthRecord>) =>
+  results
+    .map((result) => ({
+      ...result,
+      score: getSourceScore(result.resolution, result.throughput, sourceHealth[result.source]),
+    }))
+    .sort((a, b) => compareSources({ ...a, health: sourceHealth[a.source] }, { ...b, health: sourceHealth[b.source] }));
+
+const toSources = (results: SearchResultWithResolution[]) =>
+  results.map((r) => ({
+    source: r.source,
+    source_name: r.source_name,
+    resolution: r.resolution,
+    throughput: r.throughput,
+    score: r.score,
+    isProbing: r.isProbing,
+  }));
+
 interface DetailState {
   q: string | null;
   searchResults: SearchResultWithResolution[];
@@ -55,21 +133,24 @@ interface DetailState {
     source: string;
     source_name: string;
     resolution: string | null | undefined;
-    pingTime?: number; // 网络延迟（毫秒）
+    throughput?: number; // 分片下载速度（KB/s）
     score?: number; // 综合评分（0-100）
+    isProbing?: boolean;
   }[];
   detail: SearchResultWithResolution | null;
+  isDetailChosen: boolean; // 播放源是用户选的或从收藏进入时指定的，排序后不再自动切换到最优的播放源
   loading: boolean;
   error: string | null;
   allSourcesLoaded: boolean;
   controller: AbortController | null;
   isFavorited: boolean;
-  failedSources: Set<string>; // 记录失败的source列表
+  sourceHealth: Record<string, SourceHealthRecord>; // 各播放源的历史播放表现，按 source 持久化
 
   init: (q: string, preferredSource?: string, id?: string) => Promise<void>;
   setDetail: (detail: SearchResultWithResolution) => Promise<void>;
   abort: () => void;
   toggleFavorite: () => Promise<void>;
+  recordSourceHealth: (source: string, event: SourceHealthEvent) => void;
   markSourceAsFailed: (source: string, reason: string) => void;
   getNextAvailableSource: (currentSource: string, episodeIndex: number) => SearchResultWithResolution | null;
 }
@@ -79,12 +160,13 @@ const useDetailStore = create<DetailState>((set, get) => ({
   searchResults: [],
   sources: [],
   detail: null,
+  isDetailChosen: false,
   loading: true,
   error: null,
   allSourcesLoaded: false,
   controller: null,
   isFavorited: false,
-  failedSources: new Set(),
+  sourceHealth: {},
 
   init: async (q, preferredSource, id) => {
     const perfStart = performance.now();
@@ -102,81 +184,68 @@ const useDetailStore = create<DetailState>((set, get) => ({
       loading: true,
       searchResults: [],
       detail: null,
+      isDetailChosen: false,
       error: null,
       allSourcesLoaded: false,
       controller: newController,
     });
 
+    set({ sourceHealth: await SourceHealthManager.getAll() });
     const { videoSource } = useSettingsStore.getState();
 
-    const processAndSetResults = async (results: SearchResult[], merge = false) => {
-      const resolutionStart = performance.now();
-      logger.info(`[PERF] Processing results START - processing ${results.length} sources`);
-
-      const resultsWithResolution = await Promise.all(
-        results.map(async (searchResult) => {
-          // 进行客户端分辨率检测和网络延迟测试
-          let resolution: string | null = null;
-          let pingTime: number | undefined = undefined;
-          let score: number | undefined = undefined;
-
-          if (searchResult.episodes && searchResult.episodes.length > 0) {
-            const episodeUrl = searchResult.episodes[0];
-
-            // 并发执行分辨率检测和延迟测试
-            const [resolutionResult, pingResult] = await Promise.all([
-              getResolutionFromM3U8(episodeUrl, signal).catch((e) => {
-                if ((e as Error).name !== "AbortError") {
-                  logger.info(`Failed to get resolution for ${searchResult.source_name}`, e);
-                }
-                return null;
-              }),
-              pingM3U8Url(episodeUrl, signal).catch((e) => {
-                if ((e as Error).name !== "AbortError") {
-                  logger.info(`Failed to ping ${searchResult.source_name}`, e);
-                }
-                return null;
-              }),
-            ]);
+    const probePool = createTaskPool(PROBE_CONCURRENCY);
 
-            resolution = resolutionResult;
-            pingTime = pingResult ?? undefined;
-
-            // 计算综合评分（只要有分辨率或ping时间就计算）
-            if (resolution || pingTime) {
-              score = calculateVideoScore(resolution || "", pingTime || 0);
-            }
+    // 测速过程中只原地更新，避免播放源在遥控器焦点下移位；全部测完后再统一排序并选出最优的播放源
+    const applyResults = (state: DetailState, results: SearchResultWithResolution[]): Partial<DetailState> => {
+      if (results.some((r) => r.isProbing)) {
+        return { searchResults: results, sources: toSources(results), detail: state.detail ?? results[0] ?? null };
+      }
+      const finalResults = rankResults(results, state.sourceHealth);
+      return {
+        searchResults: finalResults,
+        sources: toSources(finalResults),
+        detail: (state.isDetailChosen ? state.detail : finalResults[0]) ?? null,
+      };
+    };
 
-            logger.info(
-              `[PERF] ${searchResult.source_name}: resolution=${resolution || "failed"}, ping=${pingTime ? pingTime + "ms" : "failed"}, score=${score || "N/A"}`,
-            );
-          }
+    // 先显示搜索结果，测速在任务池中进行，每个源完成后单独更新
+    const processAndSetResults = (results: SearchResult[], merge = false) => {
+      let addedResults: SearchResult[] = [];
+      set((state) => {
+        const existingSources = new Set(state.searchResults.map((r) => r.source));
+        addedResults = merge ? results.filter((r) => !existingSources.has(r.source)) : results;
+        const pendingResults = addedResults.map((r) => ({ ...r, isProbing: r.episodes && r.episodes.length > 0 }));
+        return applyResults(state, merge ? [...state.searchResults, ...pendingResults] : pendingResults);
+      });
 
-          return { ...searchResult, resolution, pingTime, score };
-        }),
-      );
+      const probeStart = performance.now();
+      logger.info(`[PERF] Probing sources START - queued ${addedResults.length} sources`);
 
-      const resolutionEnd = performance.now();
-      logger.info(`[PERF] Processing results COMPLETE - took ${(resolutionEnd - resolutionStart).toFixed(2)}ms`);
+      const probes = addedResults
+        .filter((searchResult) => searchResult.episodes && searchResult.episodes.length > 0)
+        .map((searchResult) =>
+          probePool.run(async () => {
+            if (signal.aborted) return;
+            const { resolution, throughput } = await probeSource(searchResult, signal);
+            if (signal.aborted) return;
 
-      if (signal.aborted) return;
+            logger.info(
+              `[PERF] ${searchResult.source_name}: resolution=${resolution || "failed"}, throughput=${throughput ? throughput + "KB/s" : "failed"}`,
+            );
+            set((state) =>
+              applyResults(
+                state,
+                state.searchResults.map((r) =>
+                  r.source === searchResult.source ? { ...r, resolution, throughput, isProbing: false } : r,
+                ),
+              ),
+            );
+          }),
+        );
 
-      set((state) => {
-        const existingSources = new Set(state.searchResults.map((r) => r.source));
-        const newResults = resultsWithResolution.filter((r) => !existingSources.has(r.source));
-        const finalResults = merge ? [...state.searchResults, ...newResults] : resultsWithResolution;
-
-        return {
-          searchResults: finalResults,
-          sources: finalResults.map((r) => ({
-            source: r.source,
-            source_name: r.source_name,
-            resolution: r.resolution,
-            pingTime: r.pingTime,
-            score: r.score,
-          })),
-          detail: state.detail ?? finalResults[0] ?? null,
-        };
+      Promise.all(probes).then(() => {
+        const probeEnd = performance.now();
+        logger.info(`[PERF] Probing sources COMPLETE - took ${(probeEnd - probeStart).toFixed(2)}ms`);
       });
     };
 
@@ -209,8 +278,8 @@ const useDetailStore = create<DetailState>((set, get) => ({
           logger.info(
             `[SUCCESS] Preferred source "${preferredSource}" found ${preferredResult.length} results for "${q}"`,
           );
-          await processAndSetResults(preferredResult, false);
-          set({ loading: false });
+          processAndSetResults(preferredResult, false);
+          set({ loading: false, isDetailChosen: true });
         } else {
           // 降级策略：preferred source失败时立即尝试所有源
           if (preferredSearchError) {
@@ -234,12 +303,12 @@ const useDetailStore = create<DetailState>((set, get) => ({
               `[PERF] FALLBACK search END - took ${(fallbackEnd - fallbackStart).toFixed(2)}ms, total results: ${allResults.length}`,
             );
 
-            const filteredResults = allResults.filter((item) => item.title === q);
+            const filteredResults = allResults.filter((item) => isSameTitle(item.title, q));
             logger.info(`[FALLBACK] Filtered results: ${filteredResults.length} matches for "${q}"`);
 
             if (filteredResults.length > 0) {
               logger.info(`[SUCCESS] FALLBACK search found results, proceeding with ${filteredResults[0].source_name}`);
-              await processAndSetResults(filteredResults, false);
+              processAndSetResults(filteredResults, false);
               set({ loading: false });
             } else {
               logger.error(`[ERROR] FALLBACK search found no matching results for "${q}"`);
@@ -271,8 +340,8 @@ const useDetailStore = create<DetailState>((set, get) => ({
             );
 
             if (signal.aborted) return;
-            await processAndSetResults(
-              allResults.filter((item) => item.title === q),
+            processAndSetResults(
+              allResults.filter((item) => isSameTitle(item.title, q)),
               true,
             );
           } catch (backgroundError) {
@@ -321,7 +390,7 @@ const useDetailStore = create<DetailState>((set, get) => ({
               if (results.length > 0) {
                 totalResults += results.length;
                 logger.info(`[SUCCESS] Source "${resource.name}" found ${results.length} results for "${q}"`);
-                await processAndSetResults(results, true);
+                processAndSetResults(results, true);
                 if (!firstResultFound) {
                   set({ loading: false }); // Stop loading indicator on first result
                   firstResultFound = true;
@@ -406,7 +475,7 @@ const useDetailStore = create<DetailState>((set, get) => ({
   },
 
   setDetail: async (detail) => {
-    set({ detail });
+    set({ detail, isDetailChosen: true });
     const { source, id } = detail;
     const isFavorited = await FavoriteManager.isFavorited(source, id.toString());
     set({ isFavorited });
@@ -435,30 +504,46 @@ const useDetailStore = create<DetailState>((set, get) => ({
     set({ isFavorited: newIsFavorited });
   },
 
-  markSourceAsFailed: (source: string, reason: string) => {
-    const { failedSources } = get();
-    const newFailedSources = new Set(failedSources);
-    newFailedSources.add(source);
+  recordSourceHealth: (source: string, event: SourceHealthEvent) => {
+    // 先更新内存中的记录，失败后立即选择备用源时就能用上
+    set((state) => {
+      const sourceHealth = {
+        ...state.sourceHealth,
+        [source]: applySourceHealthEvent(state.sourceHealth[source], event),
+      };
+      const searchResults = rankResults(state.searchResults, sourceHealth);
+      return { sourceHealth, searchResults, sources: toSources(searchResults) };
+    });
+    SourceHealthManager.record(source, event).catch((error) => logger.debug("Failed to save source health:", error));
+  },
 
+  markSourceAsFailed: (source: string, reason: string) => {
     logger.warn(`[SOURCE_FAILED] Marking source "${source}" as failed due to: ${reason}`);
-    logger.info(`[SOURCE_FAILED] Total failed sources: ${newFailedSources.size}`);
-
-    set({ failedSources: newFailedSources });
+    get().recordSourceHealth(source, { type: "failure" });
+    logger.info(
+      `[SOURCE_FAILED] Consecutive failures of "${source}": ${get().sourceHealth[source]?.consecutiveFailures ?? 0}`,
+    );
   },
 
   getNextAvailableSource: (currentSource: string, episodeIndex: number) => {
-    const { searchResults, failedSources } = get();
+    const { searchResults, sourceHealth } = get();
+    const failedSources = searchResults.filter((result) => isRecentlyFailed(sourceHealth[result.source]));
 
     logger.info(`[SOURCE_SELECTION] Looking for alternative to "${currentSource}" for episode ${episodeIndex + 1}`);
-    logger.info(`[SOURCE_SELECTION] Failed sources: [${Array.from(failedSources).join(", ")}]`);
+    logger.info(`[SOURCE_SELECTION] Recently failed sources: [${failedSources.map((r) => r.source).join(", ")}]`);
 
-    // 过滤掉当前source和已失败的sources
+    // 按集数判断其他源是否有同一集，找不到当前源时按位置判断
+    const current = searchResults.find((result) => result.source === currentSource);
+    const hasEpisode = (result: SearchResult) =>
+      current ? mapEpisodeIndex(current, episodeIndex, result) !== undefined : result.episodes.length > episodeIndex;
+
+    // 过滤掉当前source和最近失败过的sources
     const availableSources = searchResults.filter(
       (result) =>
         result.source !== currentSource &&
-        !failedSources.has(result.source) &&
+        !isRecentlyFailed(sourceHealth[result.source]) &&
         result.episodes &&
-        result.episodes.length > episodeIndex,
+        hasEpisode(result),
     );
 
     logger.info(`[SOURCE_SELECTION] Available sources: ${availableSources.length}`);
@@ -473,22 +558,20 @@ const useDetailStore = create<DetailState>((set, get) => ({
       return null;
     }
 
-    // 智能选择最佳可用源（基于分辨率和网络延迟）
-    const sortedSources = availableSources.sort((a, b) => {
-      const aResolution = a.resolution || "";
-      const bResolution = b.resolution || "";
-      const aPing = a.pingTime || 999999; // 未测速的源给很高的延迟值
-      const bPing = b.pingTime || 999999;
-
-      const scoreA = calculateVideoScore(aResolution, aPing);
-      const scoreB = calculateVideoScore(bResolution, bPing);
-
-      return scoreB - scoreA; // 降序排列，最高分优先
-    });
+    // 智能选择最佳可用源（基于分辨率、下载速度和历史播放表现）
+    const sortedSources = availableSources
+      .map((result) => {
+        const health = sourceHealth[result.source];
+        // 未测速的源按最低速度计算
+        const probeScore = calculateVideoScore(result.resolution || "", result.throughput || 1);
+        return { result, health, score: combineSourceScore(probeScore, health) };
+      })
+      .sort(compareSources)
+      .map(({ result }) => result);
 
     const selectedSource = sortedSources[0];
-    const selectionReason = selectedSource.pingTime
-      ? `resolution: ${selectedSource.resolution || "unknown"}, ping: ${selectedSource.pingTime}ms`
+    const selectionReason = selectedSource.throughput
+      ? `resolution: ${selectedSource.resolution || "unknown"}, throughput: ${selectedSource.throughput}KB/s`
       : `resolution: ${selectedSource.resolution || "unknown"}`;
     logger.info(
       `[SOURCE_SELECTION] Selected fallback source: ${selectedSource.source} (${selectedSource.source_name}) with ${selectionReason}`,
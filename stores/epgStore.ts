@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import { Channel } from "@/services/m3u";
+import { EpgProgramme, fetchAndMergeEpg, mapProgrammesToChannels } from "@/services/epg";
+import Logger from "@/utils/Logger";
+
+const logger = Logger.withTag("EpgStore");
+
+interface EpgState {
+  programmesByChannel: Record<string, EpgProgramme[]>;
+  epgUrls: string[];
+  isLoading: boolean;
+  lastUpdated: number | null;
+  loadEpg: (epgUrls: string[], channels: Channel[], forceRefresh?: boolean) => Promise<void>;
+  reset: () => void;
+}
+
+const useEpgStore = create<EpgState>((set, get) => ({
+  programmesByChannel: {},
+  epgUrls: [],
+  isLoading: false,
+  lastUpdated: null,
+
+  loadEpg: async (epgUrls, channels, forceRefresh = false) => {
+    if (epgUrls.length === 0 || channels.length === 0) {
+      set({ programmesByChannel: {}, epgUrls, lastUpdated: null });
+      return;
+    }
+
+    set({ isLoading: true, epgUrls });
+    try {
+      const data = await fetchAndMergeEpg(epgUrls, forceRefresh);
+      // 加载期间 EPG 地址已变化，丢弃过期结果
+      if (get().epgUrls !== epgUrls) return;
+
+      const programmesByChannel = mapProgrammesToChannels(data, channels);
+      logger.info(
+        `EPG matched ${Object.keys(programmesByChannel).length}/${channels.length} channels from ${epgUrls.length} source(s)`,
+      );
+      set({ programmesByChannel, lastUpdated: Date.now() });
+    } catch (error) {
+      logger.error("Failed to load EPG:", error);
+    } finally {
+      if (get().epgUrls === epgUrls) {
+        set({ isLoading: false });
+      }
+    }
+  },
+
+  reset: () => set({ programmesByChannel: {}, epgUrls: [], isLoading: false, lastUpdated: null }),
+}));
+
+export default useEpgStore;
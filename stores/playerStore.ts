@@ -2,19 +2,163 @@ import { create } from "zustand";
 import Toast from "react-native-toast-message";
 import { AVPlaybackStatus, Video } from "expo-av";
 import { RefObject } from "react";
-import { PlayRecord, PlayRecordManager, PlayerSettingsManager } from "@/services/storage";
+import { SearchResult } from "@/services/api";
+import { PlayRecord, PlayRecordManager, PlayerSettingsManager, SkipMarkerManager } from "@/services/storage";
+import { SubtitleCue, SubtitleTrack, fetchSubtitles, getSubtitleLabel } from "@/services/subtitles";
+import {
+  HlsMasterPlaylist,
+  buildMasterPlaylist,
+  fetchMasterPlaylist,
+  findVariantByQuality,
+  getAudioTrackNames,
+} from "@/services/m3u8";
+import { hlsPlaylistServer } from "@/services/hlsPlaylistServer";
+import { SourceHealthEvent } from "@/services/sourceHealth";
+import { isSameTitle } from "@/services/titleMatch";
+import { EpisodeSource, getEpisodeNumbers, mapEpisodeIndex } from "@/services/episodeAlignment";
+import { AdFilterOptions, AdFilterResult, fetchAdFilteredPlaylist } from "@/services/hlsAdFilter";
+import {
+  SkipMarkerRecord,
+  addSkipMarkerSample,
+  isIntroSkip,
+  isOutroSkip,
+  resolveSkipMarkers,
+} from "@/services/skipMarkers";
+import {
+  SleepTimerOption,
+  getAutoAdvanceRemaining,
+  getAutoplayCountdown,
+  shouldAskStillWatching,
+} from "@/services/autoplay";
 import useDetailStore, { episodesSelectorBySource } from "./detailStore";
+import { useSettingsStore } from "./settingsStore";
+import useQueueStore, { findNextQueueItem } from "./queueStore";
 import Logger from '@/utils/Logger';
 
 const logger = Logger.withTag('PlayerStore');
 
+// 连续快进停止后等待这么久，再判断是否跳过了片头
+const INTRO_SEEK_SETTLE_DELAY = 3000;
+// 开始播放前最多等待这么久生成去广告的播放列表，超时后直接播放原地址
+const STREAM_RESOLVE_TIMEOUT = 5000;
+// 与本地服务器保留的播放列表数量一致
+const MAX_AD_FILTER_CACHE = 20;
+
+// 以媒体播放列表地址为键缓存去广告的结果，切换音轨或清晰度时不再重新下载
+const adFilterCache = new Map<string, { id: string; result: Promise<AdFilterResult | null> }>();
+let adFilterCacheOptions: AdFilterOptions | null = null;
+let adFilterCacheCount = 0;
+
+const getAdFilteredPlaylist = (url: string, options: AdFilterOptions) => {
+  // 过滤设置变化后缓存的结果不再适用
+  if (adFilterCacheOptions !== options) {
+    adFilterCache.clear();
+    adFilterCacheOptions = options;
+  }
+  let entry = adFilterCache.get(url);
+  if (!entry) {
+    entry = { id: `ad-${(adFilterCacheCount++).toString(36)}`, result: fetchAdFilteredPlaylist(url, options) };
+    adFilterCache.set(url, entry);
+    while (adFilterCache.size > MAX_AD_FILTER_CACHE) {
+      adFilterCache.delete(adFilterCache.keys().next().value as string);
+    }
+  }
+  return entry;
+};
+
+/**
+ * 按设置过滤媒体播放列表中的广告，并通过本地服务器发布
+ * @returns 以原地址为键的本地地址，没有识别出广告的播放列表不包含在内
+ */
+const serveAdFilteredPlaylists = async (urls: string[]): Promise<Record<string, string>> => {
+  const { adFilter } = useSettingsStore.getState();
+  const servedUrls: Record<string, string> = {};
+  if (!adFilter.enabled) return servedUrls;
+
+  await Promise.all(
+    urls.map(async (url) => {
+      const { id, result } = getAdFilteredPlaylist(url, adFilter);
+      const filtered = await result;
+      if (!filtered) return;
+      try {
+        // 本地服务器只保留最近的播放列表，每次使用前重新发布
+        servedUrls[url] = await hlsPlaylistServer.serve(id, filtered.content);
+      } catch (error) {
+        logger.info("Failed to serve ad filtered playlist:", error);
+      }
+    })
+  );
+  return servedUrls;
+};
+
+/**
+ * 按选择的音轨和清晰度生成播放地址，媒体播放列表替换为去广告的版本
+ * @returns 不需要改写时返回剧集原地址
+ */
+const resolveStreamUrl = async (
+  episodeUrl: string,
+  master: HlsMasterPlaylist,
+  selectedAudioTrack?: string,
+  selectedQuality?: string
+): Promise<string> => {
+  const defaultTrack = (master.audioRenditions.find((rendition) => rendition.isDefault) || master.audioRenditions[0])
+    ?.name;
+  const audioTrack =
+    selectedAudioTrack && selectedAudioTrack !== defaultTrack && getAudioTrackNames(master).includes(selectedAudioTrack)
+      ? selectedAudioTrack
+      : undefined;
+  const variant = selectedQuality ? findVariantByQuality(master, selectedQuality) : undefined;
+
+  const variantUrls = await serveAdFilteredPlaylists((variant ? [variant] : master.variants).map((item) => item.uri));
+  if (variant && !audioTrack && !variant.audioGroup) {
+    // 音频与视频在同一个流中，直接播放该变体的媒体播放列表
+    return variantUrls[variant.uri] || variant.uri;
+  }
+  if (variant || audioTrack || Object.keys(variantUrls).length > 0) {
+    return hlsPlaylistServer.serve(
+      `stream-${Date.now().toString(36)}`,
+      buildMasterPlaylist(master, { audioTrack, variantUri: variant?.uri, variantUrls })
+    );
+  }
+  return episodeUrl;
+};
+
 interface Episode {
   url: string;
   title: string;
 }
 
+// 按对齐后的集数命名，预告等不是正片的剧集沿用源站的名称
+const toEpisodes = (source: EpisodeSource): Episode[] => {
+  const episodeNumbers = getEpisodeNumbers(source);
+  return source.episodes.map((url, index) => ({
+    url,
+    title:
+      episodeNumbers[index] !== undefined
+        ? `第 ${episodeNumbers[index]} 集`
+        : source.episodes_titles?.[index] || "其他",
+  }));
+};
+
+interface HlsTracks {
+  episodeUrl: string;
+  master: HlsMasterPlaylist;
+}
+
+// 播放器实际加载的地址，例如改写后的本地播放列表；只对对应的剧集生效
+interface StreamOverride {
+  episodeUrl: string;
+  url: string;
+}
+
+// full：全屏播放页；mini：离开播放页后的悬浮小窗；hidden：没有在播放
+export type PlayerMode = "hidden" | "full" | "mini";
+
 interface PlayerState {
   videoRef: RefObject<Video> | null;
+  playerMode: PlayerMode;
+  // 正在播放的影片，小窗播放时详情页可能已切换到其他影片
+  playingDetail: SearchResult | null;
   currentEpisodeIndex: number;
   episodes: Episode[];
   status: AVPlaybackStatus | null;
@@ -23,15 +167,43 @@ interface PlayerState {
   showEpisodeModal: boolean;
   showSourceModal: boolean;
   showSpeedModal: boolean;
+  showSubtitleModal: boolean;
+  showTrackModal: boolean;
+  showQualityModal: boolean;
+  showQueueModal: boolean;
   showNextEpisodeOverlay: boolean;
+  nextEpisodeCountdown?: number; // 自动播放下一集前的倒计时（秒）
+  isAutoAdvanceCancelled: boolean; // 用户取消了这一集结束后的自动连播
+  showStillWatchingPrompt: boolean;
+  showSleepTimerModal: boolean;
+  sleepTimer: SleepTimerOption | null;
+  sleepTimerEndsAt?: number; // 按分钟定时的结束时间
+  isAsleep: boolean; // 睡眠定时或“还在看吗？”暂停了播放，允许屏幕休眠
   isSeeking: boolean;
   seekPosition: number;
+  seekStep?: number; // 最近一次快进快退的步长（毫秒），跳转到指定位置时为空
   progressPosition: number;
   initialPosition: number;
   playbackRate: number;
   introEndTime?: number;
   outroStartTime?: number;
+  isOutroInferred: boolean; // 推断的片尾只提示跳过，不自动切到下一集
+  skipMarkerRecord: SkipMarkerRecord | null;
+  subtitleTracks: SubtitleTrack[];
+  selectedSubtitleUrl?: string;
+  subtitleCues: SubtitleCue[];
+  subtitleOffset: number;
+  isSubtitleLoading: boolean;
+  hlsTracks: HlsTracks | null;
+  selectedAudioTrack?: string;
+  selectedEmbeddedSubtitle?: string;
+  selectedQuality?: string; // 未设置表示自动
+  streamOverride: StreamOverride | null;
+  resolvedEpisodeUrl: string | null; // 已确定播放地址的剧集，确定之前不加载视频
   setVideoRef: (ref: RefObject<Video>) => void;
+  setPlayerMode: (mode: PlayerMode) => void;
+  minimizePlayer: () => void;
+  closePlayer: () => void;
   loadVideo: (options: {
     source: string;
     id: string;
@@ -40,28 +212,65 @@ interface PlayerState {
     position?: number;
   }) => Promise<void>;
   playEpisode: (index: number) => void;
+  playNext: () => void;
+  playQueueItem: (index: number) => Promise<void>;
+  cancelAutoAdvance: () => void;
+  continueWatching: () => void;
+  dismissStillWatching: () => void;
+  setSleepTimer: (option: SleepTimerOption | null) => void;
   togglePlayPause: () => void;
   seek: (duration: number) => void;
+  seekTo: (position: number, step?: number) => Promise<void>;
   handlePlaybackStatusUpdate: (newStatus: AVPlaybackStatus) => void;
   setLoading: (loading: boolean) => void;
   setShowControls: (show: boolean) => void;
   setShowEpisodeModal: (show: boolean) => void;
   setShowSourceModal: (show: boolean) => void;
   setShowSpeedModal: (show: boolean) => void;
+  setShowSubtitleModal: (show: boolean) => void;
+  setShowTrackModal: (show: boolean) => void;
+  setShowQualityModal: (show: boolean) => void;
+  setShowQueueModal: (show: boolean) => void;
+  setShowSleepTimerModal: (show: boolean) => void;
   setShowNextEpisodeOverlay: (show: boolean) => void;
   setPlaybackRate: (rate: number) => void;
+  addSubtitleTrack: (url: string) => Promise<void>;
+  selectSubtitleTrack: (url: string | null) => Promise<void>;
+  setSubtitleOffset: (offset: number) => void;
+  loadHlsTracks: (episodeUrl: string) => Promise<void>;
+  selectAudioTrack: (name: string) => Promise<void>;
+  selectEmbeddedSubtitle: (name: string | null) => Promise<void>;
+  selectQuality: (quality: string | null) => Promise<void>;
   setIntroEndTime: () => void;
   setOutroStartTime: () => void;
+  skipMarker: () => void;
   reset: () => void;
   _seekTimeout?: NodeJS.Timeout;
+  _introSeekStart?: number;
+  _introSeekTimeout?: NodeJS.Timeout;
+  _isAdvancingQueue: boolean;
+  _autoAdvanceCount: number; // 连续自动播放的集数，用户操作后清零
+  _sleepTimeout?: NodeJS.Timeout;
   _isRecordSaveThrottled: boolean;
+  _loadStartedAt?: number; // 视频开始加载的时间，开始播放后清空，用于计算首帧耗时
+  _healthEpisodeUrl?: string; // 已计入播放源健康度的剧集地址，改写播放地址后重新加载时不重复计入
   // Internal helper
   _savePlayRecord: (updates?: Partial<PlayRecord>, options?: { immediate?: boolean }) => void;
+  _loadSubtitleCues: (url: string) => Promise<boolean>;
+  _saveSubtitleSettings: () => void;
+  _applyStreamOverride: () => Promise<void>;
+  _updateSkipMarkers: (record: SkipMarkerRecord) => void;
+  _recordSkipMarkerSample: (type: "intro" | "outro", value: number) => void;
+  _autoAdvance: () => void;
+  _fallAsleep: () => Promise<void>;
+  _recordSourceHealth: (event: SourceHealthEvent) => void;
   handleVideoError: (errorType: 'ssl' | 'network' | 'other', failedUrl: string) => Promise<void>;
 }
 
 const usePlayerStore = create<PlayerState>((set, get) => ({
   videoRef: null,
+  playerMode: "hidden",
+  playingDetail: null,
   episodes: [],
   currentEpisodeIndex: -1,
   status: null,
@@ -70,7 +279,18 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
   showEpisodeModal: false,
   showSourceModal: false,
   showSpeedModal: false,
+  showSubtitleModal: false,
+  showTrackModal: false,
+  showQualityModal: false,
+  showQueueModal: false,
   showNextEpisodeOverlay: false,
+  nextEpisodeCountdown: undefined,
+  isAutoAdvanceCancelled: false,
+  showStillWatchingPrompt: false,
+  showSleepTimerModal: false,
+  sleepTimer: null,
+  sleepTimerEndsAt: undefined,
+  isAsleep: false,
   isSeeking: false,
   seekPosition: 0,
   progressPosition: 0,
@@ -78,11 +298,55 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
   playbackRate: 1.0,
   introEndTime: undefined,
   outroStartTime: undefined,
+  isOutroInferred: false,
+  skipMarkerRecord: null,
+  subtitleTracks: [],
+  selectedSubtitleUrl: undefined,
+  subtitleCues: [],
+  subtitleOffset: 0,
+  isSubtitleLoading: false,
+  hlsTracks: null,
+  selectedAudioTrack: undefined,
+  selectedEmbeddedSubtitle: undefined,
+  selectedQuality: undefined,
+  streamOverride: null,
+  resolvedEpisodeUrl: null,
   _seekTimeout: undefined,
+  _isAdvancingQueue: false,
+  _autoAdvanceCount: 0,
   _isRecordSaveThrottled: false,
 
   setVideoRef: (ref) => set({ videoRef: ref }),
 
+  setPlayerMode: (mode) => set({ playerMode: mode }),
+
+  minimizePlayer: () => {
+    const { playingDetail, episodes } = get();
+    if (!playingDetail || episodes.length === 0) {
+      get().closePlayer();
+      return;
+    }
+    get()._savePlayRecord({}, { immediate: true });
+    set({
+      playerMode: "mini",
+      showControls: false,
+      showEpisodeModal: false,
+      showSourceModal: false,
+      showSpeedModal: false,
+      showSubtitleModal: false,
+      showTrackModal: false,
+      showQualityModal: false,
+      showQueueModal: false,
+      showSleepTimerModal: false,
+      showNextEpisodeOverlay: false,
+    });
+  },
+
+  closePlayer: () => {
+    get()._savePlayRecord({}, { immediate: true });
+    get().reset();
+  },
+
   loadVideo: async ({ source, id, episodeIndex, position, title }) => {
     const perfStart = performance.now();
     logger.info(`[PERF] PlayerStore.loadVideo START - source: ${source}, id: ${id}, title: ${title}`);
@@ -171,7 +435,12 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
         
         if (!episodes || episodes.length === 0) {
           logger.warn(`[WARN] Cached detail source "${detail.source}" has no episodes, trying provided source "${source}"`);
-          episodes = episodesSelectorBySource(source)(useDetailStore.getState());
+          // 剧集名称与地址要来自同一个播放源，否则集数对不上
+          const providedDetail = useDetailStore.getState().searchResults.find((r) => r.source === source);
+          if (providedDetail) {
+            detail = providedDetail;
+            episodes = providedDetail.episodes || [];
+          }
         }
       }
     }
@@ -190,6 +459,7 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     }
     
     logger.info(`[SUCCESS] Final validation passed - detail: ${detail.source_name}, episodes: ${episodes.length}`);
+    set({ playingDetail: detail });
 
     try {
       const storageStart = performance.now();
@@ -204,26 +474,55 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       logger.info(`[PERF] PlayerSettingsManager.get took ${(storageEnd - storagePlayRecordEnd).toFixed(2)}ms`);
       logger.info(`[PERF] Total storage operations took ${(storageEnd - storageStart).toFixed(2)}ms`);
       
+      // 片头片尾按剧名保存，首次读取时迁移该播放源上旧的标记
+      let skipMarkerRecord = await SkipMarkerManager.get(detail!.title);
+      const legacyIntroEndTime = playRecord?.introEndTime || playerSettings?.introEndTime;
+      const legacyOutroStartTime = playRecord?.outroStartTime || playerSettings?.outroStartTime;
+      if (!skipMarkerRecord && (legacyIntroEndTime || legacyOutroStartTime)) {
+        skipMarkerRecord = {
+          introEndTime: legacyIntroEndTime,
+          outroStartTime: legacyOutroStartTime,
+          updatedAt: Date.now(),
+        };
+        SkipMarkerManager.save(detail!.title, skipMarkerRecord).catch((error) =>
+          logger.debug("Failed to migrate skip markers:", error)
+        );
+      }
+      const skipMarkers = resolveSkipMarkers(skipMarkerRecord, useSettingsStore.getState().skipMarkerInference);
+
       const initialPositionFromRecord = playRecord?.play_time ? playRecord.play_time * 1000 : 0;
       const savedPlaybackRate = playerSettings?.playbackRate || 1.0;
       
       const episodesMappingStart = performance.now();
-      const mappedEpisodes = episodes.map((ep, index) => ({
-        url: ep,
-        title: `第 ${index + 1} 集`,
-      }));
+      const mappedEpisodes = toEpisodes({ episodes, episodes_titles: detail.episodes_titles });
       const episodesMappingEnd = performance.now();
       logger.info(`[PERF] Episodes mapping (${episodes.length} episodes) took ${(episodesMappingEnd - episodesMappingStart).toFixed(2)}ms`);
       
       set({
         isLoading: false,
         currentEpisodeIndex: episodeIndex,
-        initialPosition: position || initialPositionFromRecord,
+        // 传入 0 表示从头播放，例如播放队列中的下一部
+        initialPosition: position ?? initialPositionFromRecord,
         playbackRate: savedPlaybackRate,
         episodes: mappedEpisodes,
-        introEndTime: playRecord?.introEndTime || playerSettings?.introEndTime,
-        outroStartTime: playRecord?.outroStartTime || playerSettings?.outroStartTime,
+        introEndTime: skipMarkers.introEndTime,
+        outroStartTime: skipMarkers.outroStartTime,
+        isOutroInferred: skipMarkers.isOutroInferred,
+        skipMarkerRecord,
+        subtitleTracks: playerSettings?.subtitleTracks || [],
+        selectedSubtitleUrl: playerSettings?.subtitleUrl,
+        subtitleCues: [],
+        subtitleOffset: playerSettings?.subtitleOffset || 0,
+        isSubtitleLoading: false,
+        selectedAudioTrack: playerSettings?.audioTrack,
+        selectedEmbeddedSubtitle: undefined,
+        selectedQuality: playerSettings?.quality,
       });
+
+      // 恢复上次选择的字幕，加载失败时不影响播放
+      if (playerSettings?.subtitleUrl) {
+        get()._loadSubtitleCues(playerSettings.subtitleUrl);
+      }
       
       const perfEnd = performance.now();
       logger.info(`[PERF] PlayerStore.loadVideo COMPLETE - total time: ${(perfEnd - perfStart).toFixed(2)}ms`);
@@ -238,11 +537,22 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
   },
 
   playEpisode: async (index) => {
-    const { episodes, videoRef } = get();
+    const { episodes, videoRef, status, currentEpisodeIndex } = get();
     if (index >= 0 && index < episodes.length) {
+      // 片尾前主动切到下一集，记为这一集的片尾
+      if (index === currentEpisodeIndex + 1 && status?.isLoaded && status.durationMillis) {
+        const remaining = status.durationMillis - status.positionMillis;
+        if (isOutroSkip(remaining, status.durationMillis)) {
+          get()._recordSkipMarkerSample("outro", remaining);
+        }
+      }
       set({
         currentEpisodeIndex: index,
         showNextEpisodeOverlay: false,
+        isAutoAdvanceCancelled: false,
+        showStillWatchingPrompt: false,
+        isAsleep: false,
+        _autoAdvanceCount: 0,
         initialPosition: 0,
         progressPosition: 0,
         seekPosition: 0,
@@ -256,9 +566,114 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   },
 
+  playNext: () => {
+    const { currentEpisodeIndex, episodes, playingDetail, _isAdvancingQueue } = get();
+    if (currentEpisodeIndex < episodes.length - 1) {
+      get().playEpisode(currentEpisodeIndex + 1);
+      return;
+    }
+    // 最后一集结束后接着播放队列中的下一部
+    const queue = useQueueStore.getState();
+    if (!_isAdvancingQueue && findNextQueueItem(queue, playingDetail?.title)) {
+      get().playQueueItem(queue.currentIndex + 1);
+    }
+  },
+
+  playQueueItem: async (index) => {
+    const item = useQueueStore.getState().items[index];
+    if (!item) return;
+
+    logger.info(`Playing queue item ${index + 1}: ${item.title}`);
+    useQueueStore.getState().setCurrentIndex(index);
+    set({
+      _isAdvancingQueue: true,
+      showQueueModal: false,
+      showNextEpisodeOverlay: false,
+      isAutoAdvanceCancelled: false,
+      showStillWatchingPrompt: false,
+      isAsleep: false,
+      _autoAdvanceCount: 0,
+    });
+    try {
+      await get().videoRef?.current?.pauseAsync();
+    } catch (error) {
+      logger.debug("Failed to pause before switching title:", error);
+    }
+    try {
+      await get().loadVideo({ source: item.source, id: item.id, title: item.title, episodeIndex: 0, position: 0 });
+    } finally {
+      set({ _isAdvancingQueue: false });
+    }
+  },
+
+  cancelAutoAdvance: () => set({ isAutoAdvanceCancelled: true, showNextEpisodeOverlay: false }),
+
+  continueWatching: () => {
+    set({ showStillWatchingPrompt: false, isAsleep: false });
+    get().playNext();
+  },
+
+  dismissStillWatching: () => set({ showStillWatchingPrompt: false, isAutoAdvanceCancelled: true }),
+
+  setSleepTimer: (option) => {
+    const { _sleepTimeout } = get();
+    if (_sleepTimeout) {
+      clearTimeout(_sleepTimeout);
+    }
+    if (typeof option === "number") {
+      const duration = option * 60 * 1000;
+      set({
+        sleepTimer: option,
+        sleepTimerEndsAt: Date.now() + duration,
+        _sleepTimeout: setTimeout(() => get()._fallAsleep(), duration),
+      });
+    } else {
+      set({ sleepTimer: option, sleepTimerEndsAt: undefined, _sleepTimeout: undefined });
+    }
+  },
+
+  _autoAdvance: () => {
+    const { _autoAdvanceCount, _isAdvancingQueue, videoRef } = get();
+    if (_isAdvancingQueue) return;
+    if (shouldAskStillWatching(_autoAdvanceCount, useSettingsStore.getState().autoplay)) {
+      logger.info(`Asking whether still watching after ${_autoAdvanceCount} episodes`);
+      videoRef?.current?.pauseAsync().catch((error) => logger.debug("Failed to pause video:", error));
+      set({ showStillWatchingPrompt: true, showNextEpisodeOverlay: false, isAsleep: true });
+      return;
+    }
+    get().playNext();
+    // playNext 会清零计数，这里再记上这一次自动播放
+    set({ _autoAdvanceCount: _autoAdvanceCount + 1 });
+  },
+
+  _fallAsleep: async () => {
+    logger.info("Sleep timer fired, pausing playback");
+    set({
+      sleepTimer: null,
+      sleepTimerEndsAt: undefined,
+      _sleepTimeout: undefined,
+      isAsleep: true,
+      showNextEpisodeOverlay: false,
+    });
+    try {
+      await get().videoRef?.current?.pauseAsync();
+    } catch (error) {
+      logger.debug("Failed to pause video:", error);
+    }
+    Toast.show({ type: "info", text1: "睡眠定时已到，已暂停播放" });
+  },
+
+  _recordSourceHealth: (event) => {
+    const detail = get().playingDetail;
+    if (detail) {
+      useDetailStore.getState().recordSourceHealth(detail.source, event);
+    }
+  },
+
   togglePlayPause: async () => {
     const { status, videoRef } = get();
     if (status?.isLoaded) {
+      set({ _autoAdvanceCount: 0 });
       try {
         if (status.isPlaying) {
           await videoRef?.current?.pauseAsync();
@@ -273,38 +688,71 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
   },
 
   seek: async (duration) => {
-    const { status, videoRef } = get();
+    const { status, isSeeking, seekPosition } = get();
     if (!status?.isLoaded || !status.durationMillis) return;
 
-    const newPosition = Math.max(0, Math.min(status.positionMillis + duration, status.durationMillis));
-    try {
-      await videoRef?.current?.setPositionAsync(newPosition);
-    } catch (error) {
-      logger.debug("Failed to seek video:", error);
-      Toast.show({ type: "error", text1: "快进/快退失败" });
+    // 连续快进时视频可能还没跳到上一次的位置，从上一次的目标位置继续
+    const currentPosition = isSeeking ? seekPosition * status.durationMillis : status.positionMillis;
+
+    // 连续快进停下后，判断是否是在跳过片头
+    if (duration > 0) {
+      const { _introSeekStart, _introSeekTimeout } = get();
+      if (_introSeekTimeout) {
+        clearTimeout(_introSeekTimeout);
+      }
+      const introSeekStart = _introSeekStart ?? status.positionMillis;
+      set({
+        _introSeekStart: introSeekStart,
+        _introSeekTimeout: setTimeout(() => {
+          set({ _introSeekStart: undefined, _introSeekTimeout: undefined });
+          const currentStatus = get().status;
+          if (currentStatus?.isLoaded && isIntroSkip(introSeekStart, currentStatus.positionMillis)) {
+            get()._recordSkipMarkerSample("intro", currentStatus.positionMillis);
+          }
+        }, INTRO_SEEK_SETTLE_DELAY),
+      });
     }
 
+    await get().seekTo(currentPosition + duration, duration);
+  },
+
+  seekTo: async (position, step) => {
+    const { status, videoRef } = get();
+    if (!status?.isLoaded || !status.durationMillis) return;
+
+    const newPosition = Math.max(0, Math.min(position, status.durationMillis));
+    if (get()._seekTimeout) {
+      clearTimeout(get()._seekTimeout);
+    }
     set({
+      _autoAdvanceCount: 0,
       isSeeking: true,
       seekPosition: newPosition / status.durationMillis,
+      seekStep: step,
+      _seekTimeout: setTimeout(() => set({ isSeeking: false }), 1000),
     });
 
-    if (get()._seekTimeout) {
-      clearTimeout(get()._seekTimeout);
+    try {
+      await videoRef?.current?.setPositionAsync(newPosition);
+    } catch (error) {
+      logger.debug("Failed to seek video:", error);
+      Toast.show({ type: "error", text1: "快进/快退失败" });
     }
-    const timeoutId = setTimeout(() => set({ isSeeking: false }), 1000);
-    set({ _seekTimeout: timeoutId });
   },
 
   setIntroEndTime: () => {
-    const { status, introEndTime: existingIntroEndTime } = get();
-    const detail = useDetailStore.getState().detail;
+    const { status, introEndTime: existingIntroEndTime, skipMarkerRecord } = get();
+    const detail = get().playingDetail;
     if (!status?.isLoaded || !detail) return;
 
     if (existingIntroEndTime) {
-      // Clear the time
-      set({ introEndTime: undefined });
-      get()._savePlayRecord({ introEndTime: undefined }, { immediate: true });
+      // Clear the time, including the episodes it was inferred from
+      get()._updateSkipMarkers({
+        ...skipMarkerRecord,
+        introEndTime: undefined,
+        introSamples: undefined,
+        updatedAt: Date.now(),
+      });
       Toast.show({
         type: "info",
         text1: "已清除片头时间",
@@ -312,25 +760,31 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     } else {
       // Set the time
       const newIntroEndTime = status.positionMillis;
-      set({ introEndTime: newIntroEndTime });
-      get()._savePlayRecord({ introEndTime: newIntroEndTime }, { immediate: true });
+      get()._updateSkipMarkers({
+        ...addSkipMarkerSample(skipMarkerRecord, "intro", get().currentEpisodeIndex, newIntroEndTime),
+        introEndTime: newIntroEndTime,
+      });
       Toast.show({
         type: "success",
         text1: "设置成功",
-        text2: "片头时间已记录。",
+        text2: "片头时间已记录，同名剧集的其他播放源也会使用。",
       });
     }
   },
 
   setOutroStartTime: () => {
-    const { status, outroStartTime: existingOutroStartTime } = get();
-    const detail = useDetailStore.getState().detail;
+    const { status, outroStartTime: existingOutroStartTime, skipMarkerRecord } = get();
+    const detail = get().playingDetail;
     if (!status?.isLoaded || !detail) return;
 
     if (existingOutroStartTime) {
-      // Clear the time
-      set({ outroStartTime: undefined });
-      get()._savePlayRecord({ outroStartTime: undefined }, { immediate: true });
+      // Clear the time, including the episodes it was inferred from
+      get()._updateSkipMarkers({
+        ...skipMarkerRecord,
+        outroStartTime: undefined,
+        outroSamples: undefined,
+        updatedAt: Date.now(),
+      });
       Toast.show({
         type: "info",
         text1: "已清除片尾时间",
@@ -339,16 +793,58 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       // Set the time
       if (!status.durationMillis) return;
       const newOutroStartTime = status.durationMillis - status.positionMillis;
-      set({ outroStartTime: newOutroStartTime });
-      get()._savePlayRecord({ outroStartTime: newOutroStartTime }, { immediate: true });
+      get()._updateSkipMarkers({
+        ...addSkipMarkerSample(skipMarkerRecord, "outro", get().currentEpisodeIndex, newOutroStartTime),
+        outroStartTime: newOutroStartTime,
+      });
       Toast.show({
         type: "success",
         text1: "设置成功",
-        text2: "片尾时间已记录。",
+        text2: "片尾时间已记录，同名剧集的其他播放源也会使用。",
       });
     }
   },
 
+  skipMarker: async () => {
+    const { status, introEndTime, outroStartTime, currentEpisodeIndex, episodes, videoRef, playEpisode } = get();
+    if (!status?.isLoaded) return;
+
+    const marker = selectActiveSkipMarker(get());
+    if (marker === "intro" && introEndTime) {
+      // 跳过即确认了这一集的片头
+      get()._recordSkipMarkerSample("intro", introEndTime);
+      try {
+        await videoRef?.current?.setPositionAsync(introEndTime);
+      } catch (error) {
+        logger.debug("Failed to skip intro:", error);
+      }
+    } else if (marker === "outro" && outroStartTime && currentEpisodeIndex < episodes.length - 1) {
+      playEpisode(currentEpisodeIndex + 1);
+    }
+  },
+
+  _updateSkipMarkers: (record) => {
+    const detail = get().playingDetail;
+    const skipMarkers = resolveSkipMarkers(record, useSettingsStore.getState().skipMarkerInference);
+    set({
+      skipMarkerRecord: record,
+      introEndTime: skipMarkers.introEndTime,
+      outroStartTime: skipMarkers.outroStartTime,
+      isOutroInferred: skipMarkers.isOutroInferred,
+    });
+    if (detail) {
+      SkipMarkerManager.save(detail.title, record).catch((error) =>
+        logger.debug("Failed to save skip markers:", error)
+      );
+    }
+  },
+
+  _recordSkipMarkerSample: (type, value) => {
+    const { skipMarkerRecord, currentEpisodeIndex } = get();
+    logger.info(`Recorded ${type} marker ${Math.round(value / 1000)}s for episode ${currentEpisodeIndex + 1}`);
+    get()._updateSkipMarkers(addSkipMarkerSample(skipMarkerRecord, type, currentEpisodeIndex, value));
+  },
+
   _savePlayRecord: (updates = {}, options = {}) => {
     const { immediate = false } = options;
     if (!immediate) {
@@ -361,13 +857,8 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       }, 10000); // 10 seconds
     }
 
-    const { detail } = useDetailStore.getState();
-    const { currentEpisodeIndex, episodes, status, introEndTime, outroStartTime } = get();
+    const { playingDetail: detail, currentEpisodeIndex, episodes, status } = get();
     if (detail && status?.isLoaded) {
-      const existingRecord = {
-        introEndTime,
-        outroStartTime,
-      };
       PlayRecordManager.save(detail.source, detail.id.toString(), {
         title: detail.title,
         cover: detail.poster || "",
@@ -377,7 +868,6 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
         total_time: status.durationMillis ? Math.floor(status.durationMillis / 1000) : 0,
         source_name: detail.source_name,
         year: detail.year || "",
-        ...existingRecord,
         ...updates,
       });
     }
@@ -392,16 +882,60 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       return;
     }
 
-    const { currentEpisodeIndex, episodes, outroStartTime, playEpisode } = get();
-    const detail = useDetailStore.getState().detail;
+    const {
+      status: previousStatus,
+      isSeeking,
+      isLoading,
+      _loadStartedAt,
+      outroStartTime,
+      isOutroInferred,
+      isAutoAdvanceCancelled,
+      showStillWatchingPrompt,
+      sleepTimer,
+      isAsleep,
+      playbackRate,
+    } = get();
+    const detail = get().playingDetail;
+    const { autoplay } = useSettingsStore.getState();
+    // 睡眠定时暂停后仍停在片尾，不能再自动播放下一集
+    const canAutoAdvance =
+      autoplay.enabled && selectHasNext(get()) && !isAutoAdvanceCancelled && !showStillWatchingPrompt && !isAsleep;
 
-    if (
-      outroStartTime &&
-      newStatus.durationMillis &&
-      newStatus.positionMillis >= newStatus.durationMillis - outroStartTime
+    // 剧集首次加载后开始播放记为成功并记录首帧耗时，之后播放中重新缓冲记为卡顿（重新加载时的缓冲不算）
+    if (_loadStartedAt !== undefined && newStatus.isPlaying && !newStatus.isBuffering) {
+      set({ _loadStartedAt: undefined });
+      get()._recordSourceHealth({ type: "success", firstFrameTime: Date.now() - _loadStartedAt });
+    } else if (
+      _loadStartedAt === undefined &&
+      !isLoading &&
+      !isSeeking &&
+      newStatus.isBuffering &&
+      newStatus.shouldPlay &&
+      previousStatus?.isLoaded &&
+      previousStatus.isPlaying &&
+      !previousStatus.isBuffering
     ) {
-      if (currentEpisodeIndex < episodes.length - 1) {
-        playEpisode(currentEpisodeIndex + 1);
+      get()._recordSourceHealth({ type: "stall" });
+    }
+
+    // 睡眠或询问后用户又开始播放，恢复屏幕常亮
+    if (isAsleep && newStatus.isPlaying && previousStatus?.isLoaded && !previousStatus.isPlaying) {
+      set({ isAsleep: false, showStillWatchingPrompt: false });
+    }
+
+    // 推断的片尾只显示跳过按钮，手动设置的片尾开始时直接切到下一集
+    const remaining = newStatus.durationMillis
+      ? getAutoAdvanceRemaining(
+          newStatus.positionMillis,
+          newStatus.durationMillis,
+          isOutroInferred ? undefined : outroStartTime
+        )
+      : undefined;
+    if (newStatus.didJustFinish || remaining === 0) {
+      if (sleepTimer === "episode") {
+        get()._fallAsleep();
+      } else if (canAutoAdvance) {
+        get()._autoAdvance();
         return; // Stop further processing for this update
       }
     }
@@ -409,18 +943,11 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     if (detail && newStatus.durationMillis) {
       get()._savePlayRecord();
 
-      const isNearEnd = newStatus.positionMillis / newStatus.durationMillis > 0.95;
-      if (isNearEnd && currentEpisodeIndex < episodes.length - 1 && !outroStartTime) {
-        set({ showNextEpisodeOverlay: true });
-      } else {
-        set({ showNextEpisodeOverlay: false });
-      }
-    }
-
-    if (newStatus.didJustFinish) {
-      if (currentEpisodeIndex < episodes.length - 1) {
-        playEpisode(currentEpisodeIndex + 1);
-      }
+      const countdown =
+        remaining !== undefined && canAutoAdvance && sleepTimer !== "episode"
+          ? getAutoplayCountdown(remaining, autoplay, playbackRate)
+          : undefined;
+      set({ showNextEpisodeOverlay: countdown !== undefined, nextEpisodeCountdown: countdown });
     }
 
     const progressPosition = newStatus.durationMillis ? newStatus.positionMillis / newStatus.durationMillis : 0;
@@ -432,11 +959,16 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
   setShowEpisodeModal: (show) => set({ showEpisodeModal: show }),
   setShowSourceModal: (show) => set({ showSourceModal: show }),
   setShowSpeedModal: (show) => set({ showSpeedModal: show }),
+  setShowSubtitleModal: (show) => set({ showSubtitleModal: show }),
+  setShowTrackModal: (show) => set({ showTrackModal: show }),
+  setShowQualityModal: (show) => set({ showQualityModal: show }),
+  setShowQueueModal: (show) => set({ showQueueModal: show }),
+  setShowSleepTimerModal: (show) => set({ showSleepTimerModal: show }),
   setShowNextEpisodeOverlay: (show) => set({ showNextEpisodeOverlay: show }),
 
   setPlaybackRate: async (rate) => {
     const { videoRef } = get();
-    const detail = useDetailStore.getState().detail;
+    const detail = get().playingDetail;
     
     try {
       await videoRef?.current?.setRateAsync(rate, true);
@@ -451,8 +983,200 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   },
 
+  addSubtitleTrack: async (url) => {
+    const trimmedUrl = url.trim();
+    if (!trimmedUrl) return;
+
+    const { subtitleTracks } = get();
+    if (!subtitleTracks.some((track) => track.url === trimmedUrl)) {
+      set({ subtitleTracks: [...subtitleTracks, { label: getSubtitleLabel(trimmedUrl), url: trimmedUrl }] });
+    }
+    await get().selectSubtitleTrack(trimmedUrl);
+  },
+
+  selectSubtitleTrack: async (url) => {
+    if (!url) {
+      set({
+        selectedSubtitleUrl: undefined,
+        selectedEmbeddedSubtitle: undefined,
+        subtitleCues: [],
+        isSubtitleLoading: false,
+      });
+      get()._saveSubtitleSettings();
+      return;
+    }
+
+    set({ selectedSubtitleUrl: url, selectedEmbeddedSubtitle: undefined, subtitleCues: [] });
+    const loaded = await get()._loadSubtitleCues(url);
+    if (loaded) {
+      get()._saveSubtitleSettings();
+    }
+  },
+
+  setSubtitleOffset: (offset) => {
+    set({ subtitleOffset: offset });
+    get()._saveSubtitleSettings();
+  },
+
+  _loadSubtitleCues: async (url) => {
+    set({ isSubtitleLoading: true });
+    try {
+      const subtitleCues = await fetchSubtitles(url);
+      // 加载期间切换了字幕，丢弃过期结果
+      if (get().selectedSubtitleUrl !== url) return false;
+      set({ subtitleCues, isSubtitleLoading: false });
+      return true;
+    } catch (error) {
+      logger.info(`Failed to load subtitles from ${url}:`, error);
+      if (get().selectedSubtitleUrl !== url) return false;
+      set({ selectedSubtitleUrl: undefined, subtitleCues: [], isSubtitleLoading: false });
+      Toast.show({ type: "error", text1: "字幕加载失败" });
+      return false;
+    }
+  },
+
+  _saveSubtitleSettings: () => {
+    const { subtitleTracks, selectedSubtitleUrl, selectedEmbeddedSubtitle, subtitleOffset } = get();
+    const detail = get().playingDetail;
+    if (!detail) return;
+
+    PlayerSettingsManager.save(detail.source, detail.id.toString(), {
+      subtitleTracks: subtitleTracks.length > 0 ? subtitleTracks : undefined,
+      // 内嵌字幕的地址每集都不同，不记录
+      ...(selectedEmbeddedSubtitle ? {} : { subtitleUrl: selectedSubtitleUrl }),
+      subtitleOffset: subtitleOffset || undefined,
+    }).catch((error) => logger.debug("Failed to save subtitle settings:", error));
+  },
+
+  loadHlsTracks: async (episodeUrl) => {
+    if (get().hlsTracks?.episodeUrl === episodeUrl) return;
+    set({ hlsTracks: null });
+
+    // 先确定是否使用去广告的播放列表再加载视频，避免先播放广告再中途切换；非 m3u8 地址不等待
+    const isPlaylistUrl = /\.m3u8(\?|$)/i.test(episodeUrl);
+    let resolveTimeout: NodeJS.Timeout | undefined;
+    const resolveStream = (url: string) => {
+      clearTimeout(resolveTimeout);
+      // 超时后已经开始播放原地址，或已切换剧集
+      if (get().resolvedEpisodeUrl === episodeUrl || selectCurrentEpisode(get())?.url !== episodeUrl) return;
+      set({ resolvedEpisodeUrl: episodeUrl, streamOverride: url === episodeUrl ? null : { episodeUrl, url } });
+    };
+    if (isPlaylistUrl) {
+      resolveTimeout = setTimeout(() => {
+        logger.info("Stream resolving timed out, playing the original url");
+        resolveStream(episodeUrl);
+      }, STREAM_RESOLVE_TIMEOUT);
+    } else {
+      resolveStream(episodeUrl);
+    }
+
+    const master = await fetchMasterPlaylist(episodeUrl);
+    // 加载期间已切换剧集，丢弃过期结果
+    if (selectCurrentEpisode(get())?.url !== episodeUrl) return;
+    if (!master) {
+      // 上一集的内嵌字幕不能用于这一集
+      if (get().selectedEmbeddedSubtitle) {
+        await get().selectEmbeddedSubtitle(null);
+      }
+      const url = isPlaylistUrl ? (await serveAdFilteredPlaylists([episodeUrl]))[episodeUrl] : undefined;
+      resolveStream(url || episodeUrl);
+      return;
+    }
+    logger.info(
+      `HLS master: ${master.variants.length} variants, ${master.audioRenditions.length} audio, ${master.subtitleRenditions.length} subtitles`
+    );
+    set({ hlsTracks: { episodeUrl, master } });
+
+    // 沿用上一集选择的音轨、清晰度和内嵌字幕
+    const { selectedAudioTrack, selectedQuality } = get();
+    try {
+      resolveStream(await resolveStreamUrl(episodeUrl, master, selectedAudioTrack, selectedQuality));
+    } catch (error) {
+      logger.info("Failed to resolve stream:", error);
+      resolveStream(episodeUrl);
+    }
+    const { selectedEmbeddedSubtitle } = get();
+    if (selectedEmbeddedSubtitle) {
+      await get().selectEmbeddedSubtitle(
+        master.subtitleRenditions.some((rendition) => rendition.name === selectedEmbeddedSubtitle)
+          ? selectedEmbeddedSubtitle
+          : null
+      );
+    }
+  },
+
+  selectAudioTrack: async (name) => {
+    set({ selectedAudioTrack: name });
+    await get()._applyStreamOverride();
+
+    const detail = get().playingDetail;
+    if (detail) {
+      PlayerSettingsManager.save(detail.source, detail.id.toString(), { audioTrack: name }).catch((error) =>
+        logger.debug("Failed to save audio track:", error)
+      );
+    }
+  },
+
+  selectEmbeddedSubtitle: async (name) => {
+    const rendition = name
+      ? get().hlsTracks?.master.subtitleRenditions.find((subtitle) => subtitle.name === name)
+      : undefined;
+    if (!rendition?.uri) {
+      set({ selectedSubtitleUrl: undefined, selectedEmbeddedSubtitle: undefined, subtitleCues: [] });
+      return;
+    }
+
+    set({ selectedSubtitleUrl: rendition.uri, selectedEmbeddedSubtitle: rendition.name, subtitleCues: [] });
+    await get()._loadSubtitleCues(rendition.uri);
+  },
+
+  selectQuality: async (quality) => {
+    set({ selectedQuality: quality || undefined });
+    await get()._applyStreamOverride();
+
+    const detail = get().playingDetail;
+    if (detail) {
+      PlayerSettingsManager.save(detail.source, detail.id.toString(), { quality: quality || undefined }).catch(
+        (error) => logger.debug("Failed to save quality:", error)
+      );
+    }
+  },
+
+  _applyStreamOverride: async () => {
+    const { hlsTracks, selectedAudioTrack, selectedQuality } = get();
+    if (!hlsTracks) return;
+
+    const { episodeUrl, master } = hlsTracks;
+    try {
+      const url = await resolveStreamUrl(episodeUrl, master, selectedAudioTrack, selectedQuality);
+      // 加载期间已切换剧集
+      if (get().hlsTracks !== hlsTracks) return;
+
+      const { streamOverride, status } = get();
+      const currentUrl = streamOverride?.episodeUrl === episodeUrl ? streamOverride.url : episodeUrl;
+      if (url === currentUrl) return;
+      // 切换地址后从当前位置继续播放
+      set({
+        streamOverride: url === episodeUrl ? null : { episodeUrl, url },
+        ...(status?.isLoaded ? { initialPosition: status.positionMillis } : {}),
+      });
+    } catch (error) {
+      logger.info("Failed to switch stream:", error);
+      Toast.show({ type: "error", text1: "切换失败" });
+    }
+  },
+
   reset: () => {
+    const { _introSeekTimeout, _sleepTimeout } = get();
+    if (_introSeekTimeout) {
+      clearTimeout(_introSeekTimeout);
+    }
+    if (_sleepTimeout) {
+      clearTimeout(_sleepTimeout);
+    }
     set({
+      playerMode: "hidden",
+      playingDetail: null,
       episodes: [],
       currentEpisodeIndex: 0,
       status: null,
@@ -461,11 +1185,41 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       showEpisodeModal: false,
       showSourceModal: false,
       showSpeedModal: false,
+      showSubtitleModal: false,
+      showTrackModal: false,
+      showQualityModal: false,
+      showQueueModal: false,
+      showSleepTimerModal: false,
       showNextEpisodeOverlay: false,
+      nextEpisodeCountdown: undefined,
+      isAutoAdvanceCancelled: false,
+      showStillWatchingPrompt: false,
+      sleepTimer: null,
+      sleepTimerEndsAt: undefined,
+      isAsleep: false,
+      _autoAdvanceCount: 0,
+      _sleepTimeout: undefined,
+      _loadStartedAt: undefined,
+      _healthEpisodeUrl: undefined,
       initialPosition: 0,
       playbackRate: 1.0,
       introEndTime: undefined,
       outroStartTime: undefined,
+      isOutroInferred: false,
+      skipMarkerRecord: null,
+      _introSeekStart: undefined,
+      _introSeekTimeout: undefined,
+      subtitleTracks: [],
+      selectedSubtitleUrl: undefined,
+      subtitleCues: [],
+      subtitleOffset: 0,
+      isSubtitleLoading: false,
+      hlsTracks: null,
+      selectedAudioTrack: undefined,
+      selectedEmbeddedSubtitle: undefined,
+      selectedQuality: undefined,
+      streamOverride: null,
+      resolvedEpisodeUrl: null,
     });
   },
 
@@ -473,9 +1227,8 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     const perfStart = performance.now();
     logger.error(`[VIDEO_ERROR] Handling ${errorType} error for URL: ${failedUrl}`);
     
-    const detailStoreState = useDetailStore.getState();
-    const { detail } = detailStoreState;
-    const { currentEpisodeIndex } = get();
+    const { playingDetail: detail, currentEpisodeIndex, status, initialPosition, _loadStartedAt } = get();
+    set({ _loadStartedAt: undefined });
     
     if (!detail) {
       logger.error(`[VIDEO_ERROR] Cannot fallback - no detail available`);
@@ -483,11 +1236,19 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
       return;
     }
     
-    // 标记当前source为失败
+    // 标记当前source为失败，失败记录会持久化并影响之后的播放源排序
     const currentSource = detail.source;
     const errorReason = `${errorType} error: ${failedUrl.substring(0, 100)}...`;
     useDetailStore.getState().markSourceAsFailed(currentSource, errorReason);
     
+    // 详情页已切换到其他影片时，无法从中选择备用播放源
+    const currentDetail = useDetailStore.getState().detail;
+    if (!currentDetail || !isSameTitle(currentDetail.title, detail.title)) {
+      logger.error(`[VIDEO_ERROR] Cannot fallback - detail page shows another title`);
+      set({ isLoading: false });
+      return;
+    }
+    
     // 获取下一个可用的source
     const fallbackSource = useDetailStore.getState().getNextAvailableSource(currentSource, currentEpisodeIndex);
     
@@ -507,23 +1268,21 @@ const usePlayerStore = create<PlayerState>((set, get) => ({
     try {
       // 更新DetailStore的当前detail为fallback source
       await useDetailStore.getState().setDetail(fallbackSource);
+      set({ playingDetail: fallbackSource });
       
-      // 重新加载当前集数的episodes
-      const newEpisodes = fallbackSource.episodes || [];
-      if (newEpisodes.length > currentEpisodeIndex) {
-        const mappedEpisodes = newEpisodes.map((ep, index) => ({
-          url: ep,
-          title: `第 ${index + 1} 集`,
-        }));
-        
+      const fallbackEpisodeIndex = mapEpisodeIndex(detail, currentEpisodeIndex, fallbackSource);
+      if (fallbackEpisodeIndex !== undefined) {
         set({
-          episodes: mappedEpisodes,
+          episodes: toEpisodes(fallbackSource),
+          currentEpisodeIndex: fallbackEpisodeIndex,
+          // 已经开始播放时从出错的位置继续，否则仍从原定的位置开始
+          initialPosition: _loadStartedAt === undefined && status?.isLoaded ? status.positionMillis : initialPosition,
           isLoading: false, // 让Video组件重新渲染
         });
         
         const perfEnd = performance.now();
         logger.info(`[VIDEO_ERROR] Successfully switched to fallback source in ${(perfEnd - perfStart).toFixed(2)}ms`);
-        logger.info(`[VIDEO_ERROR] New episode URL: ${newEpisodes[currentEpisodeIndex].substring(0, 100)}...`);
+        logger.info(`[VIDEO_ERROR] Episode ${currentEpisodeIndex + 1} mapped to ${fallbackEpisodeIndex + 1}, URL: ${fallbackSource.episodes[fallbackEpisodeIndex].substring(0, 100)}...`);
         
         Toast.show({ 
           type: "success", 
@@ -570,3 +1329,51 @@ export const selectCurrentEpisode = (state: PlayerState) => {
   }
   return undefined;
 };
+
+/**
+ * 播放器实际应加载的地址：当前剧集有改写后的播放列表时使用改写地址，还没有确定时返回 undefined
+ */
+export const selectPlaybackUrl = (state: PlayerState) => {
+  const episode = selectCurrentEpisode(state);
+  if (!episode || state.resolvedEpisodeUrl !== episode.url) return undefined;
+  return state.streamOverride?.episodeUrl === episode.url ? state.streamOverride.url : episode.url;
+};
+
+// 距离片头结束不足这么久时不再提示跳过
+const SKIP_PROMPT_MIN_REMAINING = 2000;
+
+/**
+ * 当前可以跳过的片段：片头结束前提示跳过片头，推断出的片尾开始后提示跳过片尾
+ */
+export const selectActiveSkipMarker = (state: PlayerState): "intro" | "outro" | null => {
+  const { status, introEndTime, outroStartTime, isOutroInferred, currentEpisodeIndex, episodes } = state;
+  if (!status?.isLoaded) return null;
+  if (introEndTime && status.positionMillis < introEndTime - SKIP_PROMPT_MIN_REMAINING) {
+    return "intro";
+  }
+  if (
+    outroStartTime &&
+    isOutroInferred &&
+    status.durationMillis &&
+    status.positionMillis >= status.durationMillis - outroStartTime &&
+    currentEpisodeIndex < episodes.length - 1
+  ) {
+    return "outro";
+  }
+  return null;
+};
+
+/**
+ * 当前影片的下一集，或者最后一集时播放队列中的下一部
+ */
+export const selectHasNext = (state: PlayerState) =>
+  state.currentEpisodeIndex < state.episodes.length - 1 ||
+  !!findNextQueueItem(useQueueStore.getState(), state.playingDetail?.title);
+
+/**
+ * 最后一集结束后要播放的队列项的片名，没有时返回 undefined
+ */
+export const selectNextQueueTitle = (state: PlayerState) =>
+  state.currentEpisodeIndex < state.episodes.length - 1
+    ? undefined
+    : findNextQueueItem(useQueueStore.getState(), state.playingDetail?.title)?.title;
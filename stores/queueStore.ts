@@ -0,0 +1,68 @@
+import { create } from "zustand";
+import { isSameTitle } from "@/services/titleMatch";
+
+export interface QueueItem {
+  source: string;
+  id: string;
+  title: string;
+  poster?: string;
+}
+
+interface QueueState {
+  items: QueueItem[];
+  currentIndex: number; // -1 表示还没有开始播放队列
+  setQueue: (items: QueueItem[], startIndex?: number) => void;
+  addItem: (item: QueueItem) => boolean;
+  removeItem: (index: number) => void;
+  setCurrentIndex: (index: number) => void;
+  clear: () => void;
+}
+
+const isSameItem = (a: QueueItem, b: QueueItem) =>
+  (a.source === b.source && a.id === b.id) || isSameTitle(a.title, b.title);
+
+const useQueueStore = create<QueueState>((set, get) => ({
+  items: [],
+  currentIndex: -1,
+
+  setQueue: (items, startIndex = 0) => {
+    // 同一部影片只保留一次
+    const uniqueItems = items.filter((item, index) => items.findIndex((other) => isSameItem(item, other)) === index);
+    set({ items: uniqueItems, currentIndex: uniqueItems.length > 0 ? startIndex : -1 });
+  },
+
+  addItem: (item) => {
+    if (get().items.some((existing) => isSameItem(existing, item))) {
+      return false;
+    }
+    set((state) => ({ items: [...state.items, item] }));
+    return true;
+  },
+
+  removeItem: (index) =>
+    set((state) => ({
+      items: state.items.filter((_, i) => i !== index),
+      currentIndex: index < state.currentIndex ? state.currentIndex - 1 : state.currentIndex,
+    })),
+
+  setCurrentIndex: (index) => set({ currentIndex: index }),
+
+  clear: () => set({ items: [], currentIndex: -1 }),
+}));
+
+export default useQueueStore;
+
+/**
+ * 正在播放的影片是队列中的当前项时，返回队列中的下一项
+ * @param playingTitle 正在播放的影片名，换源后 id 会变化，因此按片名比较
+ */
+export const findNextQueueItem = (
+  state: Pick<QueueState, "items" | "currentIndex">,
+  playingTitle?: string,
+): QueueItem | undefined => {
+  const current = state.items[state.currentIndex];
+  if (!current || !playingTitle || !isSameTitle(current.title, playingTitle)) {
+    return undefined;
+  }
+  return state.items[state.currentIndex + 1];
+};
@@ -1,16 +1,27 @@
 import { create } from "zustand";
-import { SettingsManager } from "@/services/storage";
+import { SettingsManager, LiveSource } from "@/services/storage";
 import { api, ServerConfig } from "@/services/api";
 import { storageConfig } from "@/services/storageConfig";
+import { AdFilterOptions, DEFAULT_AD_FILTER_OPTIONS } from "@/services/hlsAdFilter";
+import { AutoplayOptions, DEFAULT_AUTOPLAY_OPTIONS } from "@/services/autoplay";
+import { DEFAULT_SEEK_OPTIONS, SeekOptions } from "@/services/seekSteps";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import Logger from "@/utils/Logger";
 
 const logger = Logger.withTag("SettingsStore");
 
+export const DEFAULT_LIVE_REFRESH_INTERVAL = 60; // 分钟
+
+const generateLiveSourceId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
 interface SettingsState {
   apiBaseUrl: string;
-  m3uUrl: string;
+  liveSources: LiveSource[];
   remoteInputEnabled: boolean;
+  adFilter: AdFilterOptions;
+  skipMarkerInference: boolean;
+  autoplay: AutoplayOptions;
+  seek: SeekOptions;
   videoSource: {
     enabledAll: boolean;
     sources: {
@@ -23,8 +34,14 @@ interface SettingsState {
   loadSettings: () => Promise<void>;
   fetchServerConfig: () => Promise<void>;
   setApiBaseUrl: (url: string) => void;
-  setM3uUrl: (url: string) => void;
+  addLiveSource: (source: Pick<LiveSource, "name" | "url" | "type" | "username" | "password">) => void;
+  updateLiveSource: (id: string, updates: Partial<Omit<LiveSource, "id">>) => void;
+  removeLiveSource: (id: string) => void;
   setRemoteInputEnabled: (enabled: boolean) => void;
+  setAdFilter: (updates: Partial<AdFilterOptions>) => void;
+  setSkipMarkerInference: (enabled: boolean) => void;
+  setAutoplay: (updates: Partial<AutoplayOptions>) => void;
+  setSeek: (updates: Partial<SeekOptions>) => void;
   saveSettings: () => Promise<void>;
   setVideoSource: (config: { enabledAll: boolean; sources: { [key: string]: boolean } }) => void;
   showModal: () => void;
@@ -34,9 +51,12 @@ interface SettingsState {
 
 export const useSettingsStore = create<SettingsState>((set, get) => ({
   apiBaseUrl: "",
-  m3uUrl: "",
-  liveStreamSources: [],
+  liveSources: [],
   remoteInputEnabled: false,
+  adFilter: DEFAULT_AD_FILTER_OPTIONS,
+  skipMarkerInference: true,
+  autoplay: DEFAULT_AUTOPLAY_OPTIONS,
+  seek: DEFAULT_SEEK_OPTIONS,
   isModalVisible: false,
   serverConfig: null,
   isLoadingServerConfig: false,
@@ -46,10 +66,27 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
   },
   loadSettings: async () => {
     const settings = await SettingsManager.get();
+    let liveSources = settings.liveSources || [];
+    // 迁移旧版的单一直播源地址
+    if (liveSources.length === 0 && settings.m3uUrl) {
+      liveSources = [
+        {
+          id: generateLiveSourceId(),
+          name: "默认直播源",
+          url: settings.m3uUrl,
+          enabled: true,
+          refreshInterval: DEFAULT_LIVE_REFRESH_INTERVAL,
+        },
+      ];
+    }
     set({
       apiBaseUrl: settings.apiBaseUrl,
-      m3uUrl: settings.m3uUrl,
+      liveSources,
       remoteInputEnabled: settings.remoteInputEnabled || false,
+      adFilter: { ...DEFAULT_AD_FILTER_OPTIONS, ...settings.adFilter },
+      skipMarkerInference: settings.skipMarkerInference ?? true,
+      autoplay: { ...DEFAULT_AUTOPLAY_OPTIONS, ...settings.autoplay },
+      seek: { ...DEFAULT_SEEK_OPTIONS, ...settings.seek },
       videoSource: settings.videoSource || {
         enabledAll: true,
         sources: {},
@@ -77,11 +114,44 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     }
   },
   setApiBaseUrl: (url) => set({ apiBaseUrl: url, serverConfig: null }),
-  setM3uUrl: (url) => set({ m3uUrl: url }),
+  addLiveSource: ({ name, url, type = "m3u", username, password }) =>
+    set((state) => ({
+      liveSources: [
+        ...state.liveSources,
+        {
+          id: generateLiveSourceId(),
+          name: name.trim() || `直播源 ${state.liveSources.length + 1}`,
+          type,
+          url: url.trim(),
+          ...(type === "xtream" ? { username: username?.trim(), password } : {}),
+          enabled: true,
+          refreshInterval: DEFAULT_LIVE_REFRESH_INTERVAL,
+        },
+      ],
+    })),
+  updateLiveSource: (id, updates) =>
+    set((state) => ({
+      liveSources: state.liveSources.map((source) => (source.id === id ? { ...source, ...updates } : source)),
+    })),
+  removeLiveSource: (id) => set((state) => ({ liveSources: state.liveSources.filter((source) => source.id !== id) })),
   setRemoteInputEnabled: (enabled) => set({ remoteInputEnabled: enabled }),
+  setAdFilter: (updates) => set((state) => ({ adFilter: { ...state.adFilter, ...updates } })),
+  setSkipMarkerInference: (enabled) => set({ skipMarkerInference: enabled }),
+  setAutoplay: (updates) => set((state) => ({ autoplay: { ...state.autoplay, ...updates } })),
+  setSeek: (updates) => set((state) => ({ seek: { ...state.seek, ...updates } })),
   setVideoSource: (config) => set({ videoSource: config }),
   saveSettings: async () => {
-    const { apiBaseUrl, m3uUrl, remoteInputEnabled, videoSource, serverConfig } = get();
+    const {
+      apiBaseUrl,
+      liveSources,
+      remoteInputEnabled,
+      adFilter,
+      skipMarkerInference,
+      autoplay,
+      seek,
+      videoSource,
+      serverConfig,
+    } = get();
     const currentSettings = await SettingsManager.get();
     const currentApiBaseUrl = currentSettings.apiBaseUrl;
     let processedApiBaseUrl = apiBaseUrl.trim();
@@ -105,8 +175,13 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
 
     await SettingsManager.save({
       apiBaseUrl: processedApiBaseUrl,
-      m3uUrl,
+      liveSources,
+      m3uUrl: "", // 已迁移到 liveSources
       remoteInputEnabled,
+      adFilter,
+      skipMarkerInference,
+      autoplay,
+      seek,
       videoSource,
       serverConfig,
     });